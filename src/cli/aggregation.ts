@@ -0,0 +1,114 @@
+/**
+ * Aggregation settings from command-line options, shared by the generate, judge and refine commands
+ */
+
+import path from 'path';
+import { getAggregationStrategy, getCalibrationFile, getJudgeWeights } from '../config/env.js';
+import { loadCalibrationFile } from '../config/calibration.js';
+import { uncalibratedJudges } from '../core/calibration.js';
+import type {
+  AggregationSettings,
+  AggregationStrategy,
+  ModelConfig,
+  Rubric,
+  SampleStatistic,
+} from '../types/index.js';
+
+export interface AggregationOptions {
+  /** --aggregation (falls back to WRITEOFF_AGGREGATION) */
+  aggregation?: string;
+  /** --sample-statistic */
+  sampleStatistic?: string;
+  /** --calibration (falls back to WRITEOFF_CALIBRATION) */
+  calibration?: string;
+}
+
+function parseStrategy(value: string): AggregationStrategy {
+  const strategy = value.trim().toLowerCase();
+  if (strategy === 'mean' || strategy === 'median' || strategy === 'trimmed' || strategy === 'weighted') {
+    return strategy;
+  }
+  throw new Error('--aggregation must be one of: mean, median, trimmed, weighted');
+}
+
+function parseSampleStatistic(value: string): SampleStatistic {
+  const statistic = value.trim().toLowerCase();
+  if (statistic === 'mean' || statistic === 'median') return statistic;
+  throw new Error('--sample-statistic must be either "mean" or "median"');
+}
+
+/**
+ * Trust weight of every judge by friendly name. A configured key matches a judge's friendly name,
+ * model ID or "provider:model-id" (case-insensitive); judges without an entry weigh 1.
+ */
+export function resolveJudgeWeights(
+  judges: ModelConfig[],
+  configured: Record<string, number> = getJudgeWeights()
+): Record<string, number> {
+  const entries = Object.entries(configured).map(([key, weight]) => [key.toLowerCase(), weight] as const);
+
+  return Object.fromEntries(
+    judges.map((judge) => {
+      const names = [judge.friendlyName, judge.modelId, `${judge.provider}:${judge.modelId}`].map((n) => n.toLowerCase());
+      const match = entries.find(([key]) => names.includes(key));
+      return [judge.friendlyName, match ? match[1] : 1];
+    })
+  );
+}
+
+/**
+ * Build the aggregation settings for a judge panel.
+ * Judge weights are resolved (and recorded) only for the weighted strategy; a calibration file
+ * is loaded in full so the session records the corrections it was scored with.
+ * @throws Error with a user-facing message on invalid options, WRITEOFF_* values or a calibration
+ * fitted for another rubric
+ */
+export function resolveAggregation(
+  options: AggregationOptions,
+  judges: ModelConfig[],
+  rubric: Rubric
+): AggregationSettings {
+  const strategy = options.aggregation ? parseStrategy(options.aggregation) : getAggregationStrategy();
+  const sampleStatistic = parseSampleStatistic(options.sampleStatistic ?? 'mean');
+  const settings: AggregationSettings =
+    strategy === 'weighted'
+      ? { strategy, judgeWeights: resolveJudgeWeights(judges), sampleStatistic }
+      : { strategy, sampleStatistic };
+
+  const calibrationFile = options.calibration ?? getCalibrationFile();
+  if (!calibrationFile) return settings;
+
+  const calibration = loadCalibrationFile(calibrationFile);
+  if (calibration.rubric !== rubric.name) {
+    throw new Error(
+      `Calibration ${calibration.file} was fitted for the "${calibration.rubric}" rubric, not "${rubric.name}"`
+    );
+  }
+  return { ...settings, calibration };
+}
+
+/**
+ * Warn about judges the calibration has no corrections for; their scores are used as-is.
+ */
+export function warnUncalibratedJudges(settings: AggregationSettings, judges: ModelConfig[]): void {
+  if (!settings.calibration) return;
+  for (const judge of uncalibratedJudges(settings.calibration, judges)) {
+    console.warn(`Warning: ${judge.friendlyName} is not in the calibration; its scores are not corrected.`);
+  }
+}
+
+/**
+ * One-line description for run headers, e.g. "weighted (GPT-5=2, Kimi=1), calibrated (v2, calibration.json)".
+ */
+export function describeAggregation(settings: AggregationSettings): string {
+  let description: string = settings.strategy;
+  if (settings.strategy === 'weighted') {
+    const weights = Object.entries(settings.judgeWeights ?? {}).map(([judge, weight]) => `${judge}=${weight}`);
+    description = `weighted (${weights.join(', ')})`;
+  }
+  if (settings.calibration) {
+    const { version, file } = settings.calibration;
+    description += `, calibrated (v${version}${file ? `, ${path.basename(file)}` : ''})`;
+  }
+  return description;
+}
@@ -0,0 +1,177 @@
+/**
+ * Calibrate command for the writeoff CLI
+ * Scores a library of anchor posts with the judge panel and fits per-judge corrections
+ */
+
+import { Command } from 'commander';
+import path from 'path';
+import { loadEnv, getJudgeModels, validateApiKeys } from '../../config/env.js';
+import { disambiguateFriendlyNames, parseModelList } from '../../config/models.js';
+import { loadAnchorsFile, nextCalibrationVersion, saveCalibrationFile } from '../../config/calibration.js';
+import { selectRubric } from '../../config/rubric.js';
+import { collapseSamples, judgeAllPosts } from '../../core/judge.js';
+import { fitCalibration } from '../../core/calibration.js';
+import { createJudgeProgress } from '../progress.js';
+import { disableResponseCache } from '../../providers/cache.js';
+import type { AnchorPost, ModelConfig, Rubric, WriterResult } from '../../types/index.js';
+
+interface CalibrateCommandOptions {
+  judges?: string;
+  rubric?: string;
+  output: string;
+  judgeSamples: string;
+  cache: boolean;
+}
+
+/**
+ * Create the calibrate command
+ */
+export function createCalibrateCommand(): Command {
+  const command = new Command('calibrate')
+    .description('Fit per-judge score corrections from anchor posts with known reference scores')
+    .argument('<anchors>', 'Anchors JSON file listing posts and their reference scores per criterion')
+    .option('--judges <models>', 'Comma-separated judge models (overrides JUDGE_MODELS env)')
+    .option('--rubric <file>', 'Rubric the reference scores use (overrides WRITEOFF_RUBRIC)')
+    .option('-o, --output <file>', 'Calibration file to write (its version is bumped if it exists)', './calibration.json')
+    .option('--judge-samples <n>', 'Times each judge scores each anchor (averaged before fitting)', '1')
+    .option('--no-cache', 'Bypass the response cache for this run')
+    .action(async (anchorsFile: string, options: CalibrateCommandOptions) => {
+      try {
+        loadEnv();
+        if (options.cache === false) disableResponseCache();
+        const validation = validateApiKeys();
+
+        if (!validation.valid) {
+          console.error('Error: No API keys configured.');
+          console.error('Please set at least one of the following environment variables:');
+          for (const key of validation.missing) {
+            console.error(`  - ${key}`);
+          }
+          process.exit(1);
+        }
+
+        const judgeModelStrings = options.judges
+          ? options.judges.split(',').map((m) => m.trim())
+          : getJudgeModels();
+
+        let judgeModels: ModelConfig[];
+        try {
+          judgeModels = disambiguateFriendlyNames(parseModelList(judgeModelStrings));
+        } catch (error) {
+          console.error(`Error parsing judge models: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        if (judgeModels.length === 0) {
+          console.error('Error: No judge models configured.');
+          console.error('Set JUDGE_MODELS in .env or use --judges option.');
+          process.exit(1);
+        }
+
+        const judgeSamples = Number(options.judgeSamples);
+        if (!Number.isInteger(judgeSamples) || judgeSamples < 1) {
+          console.error('Error: --judge-samples must be a positive integer');
+          process.exit(1);
+        }
+
+        let rubric: Rubric;
+        try {
+          rubric = selectRubric(options.rubric);
+        } catch (error) {
+          console.error(`Error loading rubric: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        let anchors: AnchorPost[];
+        let version: number;
+        try {
+          anchors = loadAnchorsFile(anchorsFile, rubric);
+          version = nextCalibrationVersion(options.output);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        const outputPath = path.resolve(options.output);
+        console.log(`\nCalibrating Judges`);
+        console.log(`==================`);
+        console.log(`Judges: ${judgeModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`Rubric: ${rubric.name}`);
+        console.log(`Anchors: ${anchors.map((a) => a.id).join(', ')}`);
+        console.log(`Judge samples: ${judgeSamples}`);
+        console.log(`Output: ${outputPath} (version ${version})`);
+        console.log();
+
+        // Anchors go through the normal judging path; judges only ever see the content.
+        const posts: WriterResult[] = anchors.map((anchor) => ({
+          contestantId: anchor.id,
+          modelId: 'anchor',
+          friendlyName: anchor.id,
+          content: anchor.content,
+          generatedAt: new Date(),
+        }));
+
+        const progress = createJudgeProgress(judgeModels.length * posts.length * judgeSamples);
+        progress.start();
+        const judged = await judgeAllPosts(
+          judgeModels,
+          posts,
+          (judge, post, status) => {
+            if (status === 'done') progress.increment(`${judge} -> ${post}`);
+            else if (status === 'error') progress.increment(`${judge} -> ${post} (failed)`);
+          },
+          { rubric, samples: judgeSamples }
+        );
+        progress.stop();
+
+        console.log(
+          `\nCompleted ${judged.judgments.length}/${judgeModels.length * posts.length * judgeSamples} judgments (${judged.failures.length} failed).\n`
+        );
+        for (const failure of judged.failures) {
+          console.warn(`Warning: ${failure.judgeFriendlyName} failed on ${failure.postContestantId}: ${failure.error}`);
+        }
+
+        const calibration = fitCalibration(
+          judgeModels,
+          anchors,
+          collapseSamples(judged.judgments, rubric),
+          rubric,
+          version
+        );
+        if (calibration.judges.length === 0) {
+          console.error('Error: No judge scored any anchor; nothing was written.');
+          process.exit(1);
+        }
+
+        await saveCalibrationFile(outputPath, calibration);
+
+        console.log('Corrections (reference = intercept + slope x judge score):');
+        for (const judge of calibration.judges) {
+          console.log(`\n  ${judge.friendlyName}`);
+          for (const [criterion, c] of Object.entries(judge.criteria)) {
+            const intercept = `${c.intercept >= 0 ? '+' : ''}${c.intercept.toFixed(1)}`;
+            console.log(
+              `    ${criterion.padEnd(16)} slope ${c.slope.toFixed(2)}  intercept ${intercept.padStart(6)}  (${c.anchors} anchor${c.anchors === 1 ? '' : 's'})`
+            );
+          }
+        }
+        const missing = judgeModels.filter(
+          (m) => !calibration.judges.some((j) => j.friendlyName === m.friendlyName)
+        );
+        for (const judge of missing) {
+          console.warn(`\nWarning: ${judge.friendlyName} scored no anchors and is not calibrated.`);
+        }
+
+        console.log(`\nCalibration v${calibration.version} saved to: ${outputPath}`);
+        console.log(`Apply it with --calibration ${options.output}\n`);
+      } catch (error) {
+        console.error(`\nUnexpected error: ${(error as Error).message}`);
+        if (process.env.DEBUG) {
+          console.error((error as Error).stack);
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
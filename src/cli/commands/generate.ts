@@ -4,111 +4,40 @@
  */
 
 import { Command } from 'commander';
-import { readFile, mkdir, writeFile } from 'fs/promises';
+import { readFile } from 'fs/promises';
 import path from 'path';
 
 import {
   loadEnv,
   getWriterModels,
   getJudgeModels,
+  getSelfJudgingPolicy,
   validateApiKeys,
 } from '../../config/env.js';
-import { parseModelList } from '../../config/models.js';
-import { generatePostsFromModels } from '../../core/writer.js';
-import { judgeAllPosts, aggregateResults, determineWinner } from '../../core/judge.js';
-import { createWriterProgress, createJudgeProgress } from '../progress.js';
-import { printSummary } from '../summary.js';
+import { parseModelList, assignContestants, disambiguateFriendlyNames } from '../../config/models.js';
+import { disableResponseCache } from '../../providers/cache.js';
+import { generateSessionId, writeSessionManifest } from '../session.js';
+import type { SessionManifest } from '../session.js';
+import { runSession } from '../run-session.js';
+import { selectRubric } from '../../config/rubric.js';
+import { describeReferences, loadReferenceFiles } from '../../config/references.js';
+import { describeBlinding, generateBlindSeed } from '../../core/blind.js';
+import { assertLintableRubric } from '../../core/lint.js';
+import { describeLimits, resolveReadabilityLimits } from '../../core/readability.js';
+import { describeAggregation, resolveAggregation, warnUncalibratedJudges } from '../aggregation.js';
 import type {
+  AggregationSettings,
   ModelConfig,
-  WriterResult,
-  JudgmentResult,
-  AggregatedResult,
-  WriteoffSession,
+  ReadabilityLimits,
+  ReferenceDocument,
+  Rubric,
+  SelfJudgingPolicy,
 } from '../../types/index.js';
 
-/**
- * Generate a timestamp-based session ID
- */
-function generateSessionId(): string {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  const hour = String(now.getHours()).padStart(2, '0');
-  const minute = String(now.getMinutes()).padStart(2, '0');
-  const second = String(now.getSeconds()).padStart(2, '0');
-  return `${year}${month}${day}-${hour}${minute}${second}`;
-}
-
-/**
- * Sanitize a model name for use as a filename
- */
-function sanitizeFilename(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '');
-}
-
-/**
- * Save all session outputs to the results directory
- */
-async function saveSessionOutputs(
-  session: WriteoffSession,
-  outputDir: string
-): Promise<string> {
-  const sessionDir = path.join(outputDir, session.id);
-
-  // Create directory structure
-  await mkdir(sessionDir, { recursive: true });
-  await mkdir(path.join(sessionDir, 'posts'), { recursive: true });
-  await mkdir(path.join(sessionDir, 'judgments'), { recursive: true });
-
-  // Save prompt
-  await writeFile(path.join(sessionDir, 'prompt.md'), session.prompt, 'utf-8');
-
-  // Save each post
-  for (const post of session.posts) {
-    const filename = `${sanitizeFilename(post.friendlyName)}.md`;
-    await writeFile(path.join(sessionDir, 'posts', filename), post.content, 'utf-8');
-  }
-
-  // Group judgments by judge
-  const judgmentsByJudge = new Map<string, JudgmentResult[]>();
-  for (const judgment of session.judgments) {
-    const judgeKey = sanitizeFilename(judgment.judgeFriendlyName);
-    if (!judgmentsByJudge.has(judgeKey)) {
-      judgmentsByJudge.set(judgeKey, []);
-    }
-    judgmentsByJudge.get(judgeKey)!.push(judgment);
-  }
-
-  // Save judgments by judge
-  for (const [judgeKey, judgments] of judgmentsByJudge) {
-    const filename = `${judgeKey}.json`;
-    await writeFile(
-      path.join(sessionDir, 'judgments', filename),
-      JSON.stringify(judgments, null, 2),
-      'utf-8'
-    );
-  }
-
-  if (session.judgeFailures.length > 0) {
-    await writeFile(
-      path.join(sessionDir, 'judge-failures.json'),
-      JSON.stringify(session.judgeFailures, null, 2),
-      'utf-8'
-    );
-  }
-
-  // Save full session summary
-  await writeFile(
-    path.join(sessionDir, 'summary.json'),
-    JSON.stringify(session, null, 2),
-    'utf-8'
-  );
-
-  return sessionDir;
+function parseSelfJudgingPolicy(value: string): SelfJudgingPolicy {
+  const policy = value.trim().toLowerCase();
+  if (policy === 'include' || policy === 'exclude' || policy === 'report') return policy;
+  throw new Error('--self-judging must be one of: include, exclude, report');
 }
 
 /**
@@ -122,10 +51,27 @@ export function createGenerateCommand(): Command {
     .option('-w, --writers <models>', 'Comma-separated writer models (overrides env)')
     .option('-j, --judges <models>', 'Comma-separated judge models (overrides env)')
     .option('-o, --output <dir>', 'Output directory for results', './results')
+    .option('--rubric <file>', 'Judging rubric JSON file (overrides WRITEOFF_RUBRIC)')
+    .option('--judging <mode>', 'Judging mode: absolute (1-100 scores) or pairwise (head-to-head)', 'absolute')
+    .option('--judge-samples <n>', 'Times each judge scores each post (absolute judging)', '1')
+    .option('--sample-statistic <stat>', 'Combine a judge\'s samples with: mean or median', 'mean')
+    .option('--aggregation <strategy>', 'Combine judges with: mean, median, trimmed or weighted (overrides WRITEOFF_AGGREGATION)')
+    .option('--calibration <file>', 'Correct judge scores with a file from writeoff calibrate (overrides WRITEOFF_CALIBRATION)')
+    .option('--limits <limits>', 'Hard limits that disqualify a post, e.g. "maxReadingMinutes=8,maxGrade=12" (overrides WRITEOFF_LIMITS)')
+    .option('--references <files>', 'Comma-separated reference files (docs, notes, specs) that ground writing and accuracy judging')
+    .option('--claims', 'Have judges list each post\'s factual claims and count the unsupported ones (absolute judging)')
+    .option('--fix', 'Rewrite unambiguous AP Style violations in the posts before judging')
+    .option('--lint', 'Add the style linter as a pseudo-judge scoring aiDetection (absolute judging)')
+    .option('--self-judging <policy>', 'Judges grading their own model: include, exclude or report (overrides WRITEOFF_SELF_JUDGING)')
+    .option('--blind', 'Judge anonymized posts under opaque labels, in a shuffled order per judge')
+    .option('--blind-seed <n>', 'Seed for blind labels and judge order with --blind (random by default)')
+    .option('--normalize-formatting', 'Also normalize markdown habits (bullets, bold, rules) in blinded posts')
+    .option('--no-cache', 'Bypass the response cache for this run')
     .action(async (promptArg: string | undefined, options) => {
       try {
         // Load environment and validate
         loadEnv();
+        if (options.cache === false) disableResponseCache();
         const validation = validateApiKeys();
 
         if (!validation.valid) {
@@ -192,14 +138,14 @@ export function createGenerateCommand(): Command {
         let judgeModels: ModelConfig[];
 
         try {
-          writerModels = parseModelList(writerModelStrings);
+          writerModels = assignContestants(parseModelList(writerModelStrings));
         } catch (error) {
           console.error(`Error parsing writer models: ${(error as Error).message}`);
           process.exit(1);
         }
 
         try {
-          judgeModels = parseModelList(judgeModelStrings);
+          judgeModels = disambiguateFriendlyNames(parseModelList(judgeModelStrings));
         } catch (error) {
           console.error(`Error parsing judge models: ${(error as Error).message}`);
           process.exit(1);
@@ -215,102 +161,154 @@ export function createGenerateCommand(): Command {
           process.exit(1);
         }
 
-        console.log(`\nWriteoff Session`);
-        console.log(`================`);
-        console.log(`Writers: ${writerModels.map((m) => m.friendlyName).join(', ')}`);
-        console.log(`Judges: ${judgeModels.map((m) => m.friendlyName).join(', ')}`);
-        console.log(`Prompt: ${prompt.length > 100 ? prompt.slice(0, 100) + '...' : prompt}`);
-        console.log();
+        const judgingMode = String(options.judging).toLowerCase();
+        if (judgingMode !== 'absolute' && judgingMode !== 'pairwise') {
+          console.error('Error: --judging must be either "absolute" or "pairwise"');
+          process.exit(1);
+        }
 
-        // Phase 1: Generate posts
-        console.log('Phase 1: Generating posts...');
-        const writerProgress = createWriterProgress(writerModels.length);
-        writerProgress.start();
+        if (judgingMode === 'pairwise' && writerModels.length < 2) {
+          console.error('Error: Pairwise judging needs at least two writers.');
+          process.exit(1);
+        }
 
-        const posts: WriterResult[] = await generatePostsFromModels(
-          writerModels,
-          prompt,
-          existingContent,
-          (model, status) => {
-            if (status === 'done') {
-              writerProgress.increment(model);
-            } else if (status === 'error') {
-              writerProgress.increment(`${model} (failed)`);
-            }
-          }
-        );
+        const judgeSamples = Number(options.judgeSamples);
+        if (!Number.isInteger(judgeSamples) || judgeSamples < 1) {
+          console.error('Error: --judge-samples must be a positive integer');
+          process.exit(1);
+        }
 
-        writerProgress.stop();
-        console.log(`Generated ${posts.length}/${writerModels.length} posts successfully.\n`);
+        if (judgingMode === 'pairwise' && judgeSamples > 1) {
+          console.error('Error: --judge-samples is only supported with absolute judging.');
+          process.exit(1);
+        }
 
-        if (posts.length === 0) {
-          console.error('Error: No posts were generated. Check your API keys and model configurations.');
+        let selfJudging: SelfJudgingPolicy;
+        try {
+          selfJudging = options.selfJudging ? parseSelfJudgingPolicy(options.selfJudging) : getSelfJudgingPolicy();
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
           process.exit(1);
         }
 
-        // Phase 2: Judge posts
-        console.log('Phase 2: Judging posts...');
-        const totalJudgments = posts.length * judgeModels.length;
-        const judgeProgress = createJudgeProgress(totalJudgments);
-        judgeProgress.start();
+        let rubric: Rubric;
+        try {
+          rubric = selectRubric(options.rubric);
+        } catch (error) {
+          console.error(`Error loading rubric: ${(error as Error).message}`);
+          process.exit(1);
+        }
 
-        const judged = await judgeAllPosts(
-          judgeModels,
-          posts,
-          (judge: string, post: string, status: 'start' | 'done' | 'error') => {
-            if (status === 'done') {
-              judgeProgress.increment(`${judge} -> ${post}`);
-            } else if (status === 'error') {
-              judgeProgress.increment(`${judge} -> ${post} (failed)`);
-            }
+        if (options.lint) {
+          if (judgingMode === 'pairwise') {
+            console.error('Error: --lint is only supported with absolute judging.');
+            process.exit(1);
           }
-        );
- 
-        const judgments: JudgmentResult[] = judged.judgments;
-        const judgeFailures = judged.failures;
- 
-        judgeProgress.stop();
-        console.log(
-          `Completed ${judgments.length}/${totalJudgments} judgments (${judgeFailures.length} failed).\n`
-        );
- 
-        if (judgments.length === 0) {
-          console.error('Error: No judgments were completed. Check your API keys and model configurations.');
+          try {
+            assertLintableRubric(rubric);
+          } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            process.exit(1);
+          }
+        }
+
+        if (judgingMode === 'pairwise' && options.claims) {
+          console.error('Error: --claims is only supported with absolute judging.');
+          process.exit(1);
+        }
+
+        if (judgingMode === 'pairwise' && options.calibration) {
+          console.error('Error: --calibration is only supported with absolute judging.');
           process.exit(1);
         }
 
+        let aggregation: AggregationSettings;
+        try {
+          aggregation = resolveAggregation(options, judgeModels, rubric);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+        // Pairwise preferences have no score scale to correct, so WRITEOFF_CALIBRATION does not apply.
+        if (judgingMode === 'pairwise') aggregation = { ...aggregation, calibration: undefined };
+        warnUncalibratedJudges(aggregation, judgeModels);
 
-        // Phase 3: Aggregate results
-        console.log('Phase 3: Aggregating results...');
-        const results: AggregatedResult[] = aggregateResults(posts, judgments);
-        const winner = determineWinner(results);
+        let limits: ReadabilityLimits;
+        try {
+          limits = resolveReadabilityLimits(options.limits);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
 
-        // Create session object
-        const session: WriteoffSession = {
-          id: generateSessionId(),
+        let references: ReferenceDocument[] | undefined;
+        try {
+          references = options.references ? loadReferenceFiles(options.references) : undefined;
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        let blindSeed: number | undefined;
+        if (options.blind) {
+          blindSeed = options.blindSeed !== undefined ? Number(options.blindSeed) : generateBlindSeed();
+          if (!Number.isInteger(blindSeed) || blindSeed < 0) {
+            console.error('Error: --blind-seed must be a non-negative integer');
+            process.exit(1);
+          }
+        } else if (options.blindSeed !== undefined || options.normalizeFormatting) {
+          const flag = options.blindSeed !== undefined ? '--blind-seed' : '--normalize-formatting';
+          console.error(`Error: ${flag} applies to blind judging; add --blind`);
+          process.exit(1);
+        }
+
+        console.log(`\nWriteoff Session`);
+        console.log(`================`);
+        console.log(`Writers: ${writerModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`Judges: ${judgeModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`Rubric: ${rubric.name}`);
+        console.log(`Judging: ${judgingMode}`);
+        console.log(`Aggregation: ${describeAggregation(aggregation)}`);
+        console.log(
+          `Judge samples: ${judgeSamples}${judgeSamples > 1 ? ` (per-judge ${aggregation.sampleStatistic})` : ''}`
+        );
+        console.log(`Self-judging: ${selfJudging}`);
+        if (options.lint) console.log(`Style linter: on`);
+        if (options.claims) console.log(`Claim check: on`);
+        console.log(`AP Style: ${options.fix ? 'check and fix' : 'check'}`);
+        console.log(`Limits: ${describeLimits(limits)}`);
+        console.log(`References: ${describeReferences(references)}`);
+        console.log(`Blind judging: ${describeBlinding(blindSeed, options.normalizeFormatting)}`);
+        console.log(`Prompt: ${prompt.length > 100 ? prompt.slice(0, 100) + '...' : prompt}`);
+        console.log();
+
+        // Write the manifest before any model is called so the session can be resumed
+        const sessionId = generateSessionId();
+        const sessionDir = path.join(path.resolve(options.output), sessionId);
+        const manifest: SessionManifest = {
+          id: sessionId,
           prompt,
+          existingContent,
           inputFile,
-          posts,
-          judgments,
-          judgeFailures,
-          results,
-          winner,
+          writerModels,
+          judgeModels,
+          rubric,
+          judgingMode,
+          selfJudging,
+          blindSeed,
+          normalizeFormatting: options.normalizeFormatting || undefined,
+          judgeSamples,
+          aggregation,
+          lint: options.lint || undefined,
+          apStyleFix: options.fix || undefined,
+          limits: Object.keys(limits).length > 0 ? limits : undefined,
+          claims: options.claims || undefined,
+          references,
           createdAt: new Date(),
         };
+        await writeSessionManifest(sessionDir, manifest);
 
-        // Save outputs
-        const outputDir = path.resolve(options.output);
-        const sessionDir = await saveSessionOutputs(session, outputDir);
-        console.log(`Results saved to: ${sessionDir}\n`);
-
-        // Print summary
-        printSummary({
-          prompt: session.prompt,
-          results: session.results,
-          winner: session.winner,
-          outputDir: sessionDir,
-        });
-
+        await runSession({ manifest, posts: [], judgments: [], pairwiseJudgments: [] }, sessionDir);
       } catch (error) {
         console.error(`\nUnexpected error: ${(error as Error).message}`);
         if (process.env.DEBUG) {
@@ -7,11 +7,42 @@ import { Command } from 'commander';
 import { readFile, mkdir, writeFile, copyFile } from 'fs/promises';
 import path from 'path';
 import { loadEnv, getJudgeModels, validateApiKeys } from '../../config/env.js';
-import { parseModelList } from '../../config/models.js';
-import { judgePostWithMultipleJudges, aggregateResults } from '../../core/judge.js';
+import { disambiguateFriendlyNames, parseModelList } from '../../config/models.js';
+import { judgePostWithMultipleJudges, aggregateResults, determineWinner } from '../../core/judge.js';
+import { bootstrapAbsolute } from '../../core/bootstrap.js';
+import { buildUsageReport } from '../../core/usage.js';
 import { createJudgeProgress } from '../progress.js';
 import { printSummary } from '../summary.js';
-import type { WriterResult, JudgmentResult, AggregatedResult } from '../../types/index.js';
+import { disableResponseCache } from '../../providers/cache.js';
+import { selectRubric } from '../../config/rubric.js';
+import { describeReferences, loadReferenceFiles } from '../../config/references.js';
+import { assertLintableRubric, isLintJudgment } from '../../core/lint.js';
+import { applyReadability, describeLimits, rankQualified, resolveReadabilityLimits } from '../../core/readability.js';
+import type {
+  WriterResult,
+  JudgmentResult,
+  AggregatedResult,
+  AggregationSettings,
+  ReadabilityLimits,
+  ReferenceDocument,
+  Rubric,
+} from '../../types/index.js';
+import { describeAggregation, resolveAggregation, warnUncalibratedJudges } from '../aggregation.js';
+
+interface JudgeCommandOptions {
+  judges?: string;
+  output: string;
+  rubric?: string;
+  judgeSamples: string;
+  sampleStatistic: string;
+  aggregation?: string;
+  calibration?: string;
+  lint?: boolean;
+  limits?: string;
+  references?: string;
+  claims?: boolean;
+  cache: boolean;
+}
 
 /**
  * Create the judge command for evaluating a single markdown file
@@ -22,15 +53,26 @@ export function createJudgeCommand(): Command {
     .argument('<file>', 'Path to markdown file to judge')
     .option('--judges <models>', 'Comma-separated judge models (overrides JUDGE_MODELS env)')
     .option('-o, --output <dir>', 'Output directory', './results')
-    .action(async (file: string, options: { judges?: string; output: string }) => {
+    .option('--rubric <file>', 'Judging rubric JSON file (overrides WRITEOFF_RUBRIC)')
+    .option('--judge-samples <n>', 'Times each judge scores the file', '1')
+    .option('--sample-statistic <stat>', 'Combine a judge\'s samples with: mean or median', 'mean')
+    .option('--aggregation <strategy>', 'Combine judges with: mean, median, trimmed or weighted (overrides WRITEOFF_AGGREGATION)')
+    .option('--calibration <file>', 'Correct judge scores with a file from writeoff calibrate (overrides WRITEOFF_CALIBRATION)')
+    .option('--lint', 'Add the style linter as a pseudo-judge scoring aiDetection')
+    .option('--limits <limits>', 'Hard limits that disqualify the post, e.g. "maxReadingMinutes=8" (overrides WRITEOFF_LIMITS)')
+    .option('--references <files>', 'Comma-separated reference files (docs, notes, specs) to check the post\'s claims against')
+    .option('--claims', 'Have judges list the post\'s factual claims and count the unsupported ones')
+    .option('--no-cache', 'Bypass the response cache for this run')
+    .action(async (file: string, options: JudgeCommandOptions) => {
       try {
         // Load environment and validate
         loadEnv();
+        if (options.cache === false) disableResponseCache();
         const apiValidation = validateApiKeys();
         if (!apiValidation.valid) {
           console.error('Error: No API keys configured.');
           console.error(`Missing: ${apiValidation.missing.join(', ')}`);
-          console.error('Please set at least one of OPENROUTER_API_KEY or ANTHROPIC_API_KEY in your .env file.');
+          console.error('Please set OPENROUTER_API_KEY, ANTHROPIC_API_KEY or OPENAI_COMPATIBLE_BASE_URL in your .env file.');
           process.exit(1);
         }
 
@@ -57,7 +99,7 @@ export function createJudgeCommand(): Command {
 
         let judgeModels;
         try {
-          judgeModels = parseModelList(judgeModelStrings);
+          judgeModels = disambiguateFriendlyNames(parseModelList(judgeModelStrings));
         } catch (error) {
           console.error(`Error parsing judge models: ${(error as Error).message}`);
           process.exit(1);
@@ -69,19 +111,81 @@ export function createJudgeCommand(): Command {
           process.exit(1);
         }
 
+        let rubric: Rubric;
+        try {
+          rubric = selectRubric(options.rubric);
+        } catch (error) {
+          console.error(`Error loading rubric: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        if (options.lint) {
+          try {
+            assertLintableRubric(rubric);
+          } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            process.exit(1);
+          }
+        }
+
+        let limits: ReadabilityLimits;
+        try {
+          limits = resolveReadabilityLimits(options.limits);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        let references: ReferenceDocument[] | undefined;
+        try {
+          references = options.references ? loadReferenceFiles(options.references) : undefined;
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        const judgeSamples = Number(options.judgeSamples);
+        if (!Number.isInteger(judgeSamples) || judgeSamples < 1) {
+          console.error('Error: --judge-samples must be a positive integer');
+          process.exit(1);
+        }
+
+        let aggregation: AggregationSettings;
+        try {
+          aggregation = resolveAggregation(options, judgeModels, rubric);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+        warnUncalibratedJudges(aggregation, judgeModels);
+
         console.log(`\nJudging file: ${path.basename(inputPath)}`);
-        console.log(`Using ${judgeModels.length} judge(s): ${judgeModels.map((m) => m.friendlyName).join(', ')}\n`);
+        console.log(`Using ${judgeModels.length} judge(s): ${judgeModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`Rubric: ${rubric.name}`);
+        console.log(`Limits: ${describeLimits(limits)}`);
+        console.log(`References: ${describeReferences(references)}`);
+        console.log(`Aggregation: ${describeAggregation(aggregation)}`);
+        console.log(
+          `Judge samples: ${judgeSamples}${judgeSamples > 1 ? ` (per-judge ${aggregation.sampleStatistic})` : ''}`
+        );
+        if (options.lint) console.log(`Style linter: on`);
+        if (options.claims) console.log(`Claim check: on`);
+        console.log();
 
         // Create mock WriterResult for the input file
-        const mockPost: WriterResult = {
-          modelId: 'user-input',
-          friendlyName: 'User Input',
-          content,
-          generatedAt: new Date(),
-        };
+        const mockPost: WriterResult = applyReadability(
+          {
+            contestantId: 'user-input',
+            modelId: 'user-input',
+            friendlyName: 'User Input',
+            content,
+            generatedAt: new Date(),
+          },
+          limits
+        );
 
         // Set up progress tracking
-        const progress = createJudgeProgress(judgeModels.length);
+        const progress = createJudgeProgress(judgeModels.length * judgeSamples);
         progress.start();
 
         let completedJudgments = 0;
@@ -98,13 +202,14 @@ export function createJudgeCommand(): Command {
               completedJudgments++;
               progress.update(completedJudgments, `${judge} (failed)`);
             }
-          }
+          },
+          { rubric, samples: judgeSamples, lint: options.lint, references, claims: options.claims }
         );
 
         const judgments: JudgmentResult[] = judged.judgments;
         const judgeFailures = judged.failures;
 
-        if (judgments.length === 0) {
+        if (!judgments.some((j) => !isLintJudgment(j))) {
           progress.stop();
           console.error('\nError during judging: no judgments completed successfully.');
           process.exit(1);
@@ -114,8 +219,14 @@ export function createJudgeCommand(): Command {
         console.log('\n');
 
         // Aggregate results (single post)
-        const aggregated = aggregateResults([mockPost], judgments);
+        const { results: aggregated } = bootstrapAbsolute(
+          rankQualified(aggregateResults([mockPost], judgments, rubric, aggregation), [mockPost]),
+          judgments,
+          rubric,
+          { aggregation }
+        );
         const result = aggregated[0] || null;
+        const usage = buildUsageReport([mockPost], judgments);
 
         // Create output directory with timestamp
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
@@ -128,10 +239,11 @@ export function createJudgeCommand(): Command {
           // Copy input file
           await copyFile(inputPath, path.join(outputDir, 'input.md'));
 
-          // Save individual judgment files
+          // Save individual judgment files (one per sample when judges were sampled repeatedly)
           for (const judgment of judgments) {
             const judgeName = judgment.judgeFriendlyName.toLowerCase().replace(/\s+/g, '-');
-            const judgmentPath = path.join(outputDir, 'judgments', `${judgeName}.json`);
+            const sampleSuffix = judgment.sample !== undefined ? `-${judgment.sample}` : '';
+            const judgmentPath = path.join(outputDir, 'judgments', `${judgeName}${sampleSuffix}.json`);
             await writeFile(judgmentPath, JSON.stringify(judgment, null, 2), 'utf-8');
           }
 
@@ -147,14 +259,28 @@ export function createJudgeCommand(): Command {
           const summary = {
             inputFile: inputPath,
             judgedAt: new Date().toISOString(),
-            judges: judgeModels.map((m) => ({ modelId: m.modelId, friendlyName: m.friendlyName })),
+            judges: judgeModels.map((m) => ({ modelId: m.modelId, friendlyName: m.friendlyName, params: m.params })),
+            rubric,
+            judgeSamples,
+            aggregation,
+            lint: options.lint || undefined,
+            limits: Object.keys(limits).length > 0 ? limits : undefined,
+            claims: options.claims || undefined,
+            references,
+            readability: mockPost.readability,
+            disqualified: mockPost.disqualified,
             failures: {
               count: judgeFailures.length,
             },
+            usage,
             result: result
               ? {
                   overallAverage: result.overallAverage,
                   averageScores: result.averageScores,
+                  confidence: result.confidence,
+                  agreement: result.agreement,
+                  noise: result.noise,
+                  unsupportedClaims: result.unsupportedClaims,
                   judgmentCount: result.judgments.length,
                 }
               : null,
@@ -170,8 +296,12 @@ export function createJudgeCommand(): Command {
         printSummary({
           prompt: `Judging: ${path.basename(inputPath)}`,
           results: aggregated,
-          winner: result,
+          winner: determineWinner(aggregated),
           outputDir,
+          usage,
+          rubric,
+          aggregation: aggregation.strategy,
+          posts: [mockPost],
         });
       } catch (error) {
         console.error(`Unexpected error: ${(error as Error).message}`);
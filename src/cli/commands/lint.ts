@@ -0,0 +1,73 @@
+/**
+ * Lint command for the writeoff CLI
+ * Runs the deterministic style linter over markdown files, without calling any model
+ */
+
+import { Command } from 'commander';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { LINT_CRITERION, lintScore, lintText, summarizeFindings } from '../../core/lint.js';
+import type { LintFinding } from '../../types/index.js';
+
+interface LintCommandOptions {
+  json?: boolean;
+}
+
+interface FileReport {
+  file: string;
+  findings: LintFinding[];
+  score: number;
+}
+
+/**
+ * Create the lint command
+ */
+export function createLintCommand(): Command {
+  const command = new Command('lint')
+    .description('Check posts for mechanical AI-writing patterns (em dashes, emojis, clichés, reversals)')
+    .argument('<files...>', 'Markdown files to lint')
+    .option('--json', 'Print findings as JSON')
+    .action(async (files: string[], options: LintCommandOptions) => {
+      try {
+        const reports: FileReport[] = [];
+        for (const file of files) {
+          let content: string;
+          try {
+            content = await readFile(path.resolve(file), 'utf-8');
+          } catch (error) {
+            console.error(`Error reading file: ${(error as Error).message}`);
+            process.exit(1);
+          }
+          const findings = lintText(content);
+          reports.push({ file, findings, score: lintScore(findings) });
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(reports, null, 2));
+        } else {
+          for (const report of reports) {
+            console.log(`\n${report.file}`);
+            for (const f of report.findings) {
+              const position = `${f.line}:${f.column}`.padEnd(8);
+              console.log(`  ${position}${f.severity.padEnd(9)}${f.message}  (${f.rule})`);
+            }
+            console.log(`  ${summarizeFindings(report.findings)}`);
+            console.log(`  Style score (${LINT_CRITERION}): ${report.score}/100`);
+          }
+          console.log();
+        }
+
+        if (reports.some((r) => r.findings.some((f) => f.severity === 'error'))) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(`\nUnexpected error: ${(error as Error).message}`);
+        if (process.env.DEBUG) {
+          console.error((error as Error).stack);
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
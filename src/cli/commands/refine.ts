@@ -10,11 +10,27 @@ import fs from 'fs/promises';
 import path from 'path';
 
 import { loadEnv, getJudgeModels, validateApiKeys } from '../../config/env.js';
-import { parseModelList, parseModelString } from '../../config/models.js';
+import { disambiguateFriendlyNames, parseModelList, parseModelString } from '../../config/models.js';
 import { runFlywheel } from '../../core/flywheel.js';
+import { assertLintableRubric } from '../../core/lint.js';
+import { describeLimits, resolveReadabilityLimits } from '../../core/readability.js';
 import { createFlywheelProgress } from '../progress.js';
 import { unifiedDiff } from '../../utils/diff.js';
-import type { FlywheelSession, FlywheelIteration } from '../../types/index.js';
+import { formatCost } from '../../core/usage.js';
+import { formatUsageLine } from '../summary.js';
+import { installInterruptHandler } from '../interrupt.js';
+import { disableResponseCache } from '../../providers/cache.js';
+import { selectRubric } from '../../config/rubric.js';
+import { describeReferences, loadReferenceFiles } from '../../config/references.js';
+import { describeAggregation, resolveAggregation, warnUncalibratedJudges } from '../aggregation.js';
+import type {
+  AggregationSettings,
+  FlywheelSession,
+  FlywheelIteration,
+  ReadabilityLimits,
+  ReferenceDocument,
+  Rubric,
+} from '../../types/index.js';
 
 // =============================================================================
 // Constants
@@ -106,14 +122,49 @@ function printSummary(session: FlywheelSession, outputDir: string, keepBest: boo
   console.log(`Final Score:       ${session.finalScore.toFixed(1)}/100`);
   console.log(`Best Score:        ${session.bestScore.toFixed(1)}/100 (iter ${session.bestIteration})`);
   console.log(`Iterations:        ${session.iterations.length}`);
+  console.log(`Aggregation:       ${describeAggregation(session.aggregation)}`);
+  if (session.judgeSamples > 1) {
+    console.log(`Judge Samples:     ${session.judgeSamples} (per-judge ${session.aggregation.sampleStatistic})`);
+  }
 
   const reason =
     session.stoppedReason === 'threshold'
       ? 'Threshold reached'
       : session.stoppedReason === 'no_improvement'
         ? 'No improvement'
-        : 'Max iterations reached';
+        : session.stoppedReason === 'interrupted'
+          ? 'Interrupted (partial results)'
+          : 'Max iterations reached';
   console.log(`Stop Reason:       ${reason}`);
+  const finalIteration =
+    (keepBest && session.iterations.find((it) => it.iteration === session.bestIteration)) ||
+    session.iterations[session.iterations.length - 1];
+  const readability = finalIteration?.post.readability;
+  if (readability) {
+    console.log(
+      `Final Length:      ${readability.words} words, ${readability.readingMinutes.toFixed(1)} min read, ` +
+        `grade ${readability.fleschKincaidGrade.toFixed(1)}`
+    );
+  }
+  if (finalIteration?.post.disqualified) {
+    console.log(`Disqualified:      ${finalIteration.post.disqualified.join('; ')}`);
+  }
+  const styled = session.iterations.filter((it) => it.post.apStyle);
+  if (styled.length > 0) {
+    console.log(`AP Style:          ${styled.map((it) => `iter ${it.iteration}: ${it.post.apStyle!.total}`).join(', ')}`);
+    if (session.apStyleFix) {
+      const fixed = styled.reduce((sum, it) => sum + it.post.apStyle!.fixed, 0);
+      console.log(`AP Style Fixes:    ${fixed} rewritten`);
+    }
+  }
+  const checked = session.iterations.filter((it) => it.unsupportedClaims !== undefined);
+  if (checked.length > 0) {
+    console.log(`Unsupported:       ${checked.map((it) => `iter ${it.iteration}: ${it.unsupportedClaims}`).join(', ')}`);
+  }
+  console.log(
+    `Tokens:            ${session.usage.total.totalTokens.toLocaleString('en-US')} ` +
+      `(${formatCost(session.usage.total)})`
+  );
 
   if (keepBest && session.bestIteration > 0) {
     const lastIter = session.iterations[session.iterations.length - 1]?.iteration ?? 0;
@@ -122,6 +173,16 @@ function printSummary(session: FlywheelSession, outputDir: string, keepBest: boo
     }
   }
 
+  if (session.usage.total.calls > 0) {
+    console.log();
+    for (const [name, totals] of Object.entries(session.usage.byWriter)) {
+      console.log(formatUsageLine('Writer', name, totals));
+    }
+    for (const [name, totals] of Object.entries(session.usage.byJudge)) {
+      console.log(formatUsageLine('Judge', name, totals));
+    }
+  }
+
   console.log();
   console.log(`Results saved to:  ${outputDir}`);
   console.log('='.repeat(60));
@@ -143,12 +204,24 @@ export function createRefineCommand(): Command {
     .option('--no-keep-best', 'Use last iteration as final post')
     .option('--min-improvement <n>', 'Minimum score improvement to reset patience', '0')
     .option('--patience <n>', 'Stop after N non-improving iterations (0 disables)', '0')
+    .option('--judge-samples <n>', 'Times each judge scores each iteration', '1')
+    .option('--sample-statistic <stat>', 'Combine a judge\'s samples with: mean or median', 'mean')
+    .option('--aggregation <strategy>', 'Combine judges with: mean, median, trimmed or weighted (overrides WRITEOFF_AGGREGATION)')
+    .option('--calibration <file>', 'Correct judge scores with a file from writeoff calibrate (overrides WRITEOFF_CALIBRATION)')
+    .option('--lint', 'Add the style linter as a pseudo-judge scoring aiDetection')
+    .option('--fix', 'Rewrite unambiguous AP Style violations in each iteration before judging')
+    .option('--limits <limits>', 'Hard limits an iteration must meet to count, e.g. "maxReadingMinutes=8" (overrides WRITEOFF_LIMITS)')
+    .option('--references <files>', 'Comma-separated reference files (docs, notes, specs) that ground refinement and accuracy judging')
+    .option('--claims', 'Have judges list each iteration\'s factual claims and feed unsupported ones back to the writer')
     .option('--diff', 'Write unified diffs between iterations')
     .option('--diff-context <n>', 'Unified diff context lines', '3')
     .option('-o, --output <dir>', 'Output directory', DEFAULT_OUTPUT_DIR)
+    .option('--rubric <file>', 'Judging rubric JSON file (overrides WRITEOFF_RUBRIC)')
+    .option('--no-cache', 'Bypass the response cache for this run')
     .action(async (filePath: string, options) => {
       try {
         loadEnv();
+        if (options.cache === false) disableResponseCache();
         const keyValidation = validateApiKeys();
         if (!keyValidation.valid) {
           console.error('Error: No API keys configured. Please set at least one of:', keyValidation.missing.join(', '));
@@ -187,7 +260,7 @@ export function createRefineCommand(): Command {
 
         let judgeModels;
         try {
-          judgeModels = parseModelList(judgeModelStrings);
+          judgeModels = disambiguateFriendlyNames(parseModelList(judgeModelStrings));
         } catch (err) {
           console.error(`Error parsing judge models: ${err instanceof Error ? err.message : err}`);
           process.exit(1);
@@ -198,6 +271,14 @@ export function createRefineCommand(): Command {
           process.exit(1);
         }
 
+        let rubric: Rubric;
+        try {
+          rubric = selectRubric(options.rubric);
+        } catch (error) {
+          console.error(`Error loading rubric: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
         const maxIterations = parseInt(options.maxIterations, 10);
         if (isNaN(maxIterations) || maxIterations < 1) {
           console.error('Error: --max-iterations must be a positive integer');
@@ -222,6 +303,46 @@ export function createRefineCommand(): Command {
           process.exit(1);
         }
 
+        const judgeSamples = parseInt(options.judgeSamples, 10);
+        if (isNaN(judgeSamples) || judgeSamples < 1) {
+          console.error('Error: --judge-samples must be a positive integer');
+          process.exit(1);
+        }
+
+        let aggregation: AggregationSettings;
+        try {
+          aggregation = resolveAggregation(options, judgeModels, rubric);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+        warnUncalibratedJudges(aggregation, judgeModels);
+
+        if (options.lint) {
+          try {
+            assertLintableRubric(rubric);
+          } catch (error) {
+            console.error(`Error: ${(error as Error).message}`);
+            process.exit(1);
+          }
+        }
+
+        let limits: ReadabilityLimits;
+        try {
+          limits = resolveReadabilityLimits(options.limits);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        let references: ReferenceDocument[] | undefined;
+        try {
+          references = options.references ? loadReferenceFiles(options.references) : undefined;
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
         const diffContext = parseInt(options.diffContext, 10);
         if (isNaN(diffContext) || diffContext < 0 || diffContext > 20) {
           console.error('Error: --diff-context must be an integer between 0 and 20');
@@ -243,14 +364,27 @@ export function createRefineCommand(): Command {
         console.log(`  Writer:         ${writerModel.friendlyName} (${writerModel.provider})`);
         console.log(`  Mode:           ${refinementMode}`);
         console.log(`  Judges:         ${judgeModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`  Rubric:         ${rubric.name}`);
         console.log(`  Max Iterations: ${maxIterations}`);
         console.log(`  Threshold:      ${threshold}/100`);
         console.log(`  Keep Best:      ${keepBest ? 'yes' : 'no'}`);
         console.log(`  Patience:       ${patience} (min improvement: ${minImprovement})`);
+        console.log(`  Aggregation:    ${describeAggregation(aggregation)}`);
+        console.log(
+          `  Judge Samples:  ${judgeSamples}${judgeSamples > 1 ? ` (per-judge ${aggregation.sampleStatistic})` : ''}`
+        );
+        console.log(`  Style Linter:   ${options.lint ? 'on' : 'off'}`);
+        console.log(`  AP Style:       ${options.fix ? 'check and fix' : 'check'}`);
+        console.log(`  Limits:         ${describeLimits(limits)}`);
+        console.log(`  References:     ${describeReferences(references)}`);
+        console.log(`  Claim Check:    ${options.claims ? 'on' : 'off'}`);
         console.log(`  Diffs:          ${writeDiffs ? `yes (context=${diffContext})` : 'no'}`);
         console.log(`  Output:         ${options.output}`);
         console.log();
 
+        // Ctrl-C stops the loop, cancels in-flight calls and saves the iterations so far.
+        const interrupt = installInterruptHandler();
+
         const progress = createFlywheelProgress(maxIterations);
         let lastScore = 0;
         progress.start();
@@ -265,19 +399,37 @@ export function createRefineCommand(): Command {
           keepBest,
           minImprovement,
           patience,
+          rubric,
+          judgeSamples,
+          aggregation,
+          lint: Boolean(options.lint),
+          apStyleFix: Boolean(options.fix),
+          limits,
+          references,
+          claims: Boolean(options.claims),
+          signal: interrupt.signal,
           onIteration: (iteration: FlywheelIteration) => {
             const improvement = iteration.averageScore - lastScore;
             const improvementStr =
               lastScore > 0 ? ` (${improvement >= 0 ? '+' : ''}${improvement.toFixed(1)})` : '';
             lastScore = iteration.averageScore;
 
+            const noiseSuffix = iteration.noise ? ` ±${iteration.noise.standardError.toFixed(1)}` : '';
+            const apStyleSuffix = iteration.post.apStyle ? ` | AP ${iteration.post.apStyle.total}` : '';
+            const readability = iteration.post.readability;
+            const readabilitySuffix = readability
+              ? ` | ${readability.readingMinutes.toFixed(1)} min, grade ${readability.fleschKincaidGrade.toFixed(1)}`
+              : '';
+            const claimsSuffix =
+              iteration.unsupportedClaims !== undefined ? ` | ${iteration.unsupportedClaims} unsupported` : '';
+            const disqualifiedSuffix = iteration.post.disqualified ? ' | DQ' : '';
             const failuresSuffix = iteration.judgeFailures.length
               ? ` | ${iteration.judgeFailures.length} judge failure(s)`
               : '';
 
             progress.update(
               iteration.iteration,
-              `Score: ${iteration.averageScore.toFixed(1)}${improvementStr}${failuresSuffix}`
+              `Score: ${iteration.averageScore.toFixed(1)}${noiseSuffix}${improvementStr}${readabilitySuffix}${apStyleSuffix}${claimsSuffix}${disqualifiedSuffix}${failuresSuffix}`
             );
           },
         });
@@ -285,7 +437,12 @@ export function createRefineCommand(): Command {
         progress.stop();
 
         const outputDir = await saveOutputs(session, options.output, { writeDiffs, diffContext });
+        interrupt.dispose();
         printSummary(session, outputDir, keepBest);
+
+        if (session.stoppedReason === 'interrupted') {
+          process.exit(130);
+        }
       } catch (err) {
         console.error('\nError during refinement:');
         if (err instanceof Error) {
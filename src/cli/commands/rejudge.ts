@@ -0,0 +1,248 @@
+/**
+ * Rejudge command for the writeoff CLI
+ * Re-runs judging on a saved session's posts with a new judge panel
+ */
+
+import { Command } from 'commander';
+import path from 'path';
+import { loadEnv, getJudgeModels, validateApiKeys } from '../../config/env.js';
+import { disambiguateFriendlyNames, parseModelList } from '../../config/models.js';
+import { buildJudgePairs, judgePairs } from '../../core/judge.js';
+import type { JudgePair } from '../../core/judge.js';
+import { blindPosts, blindJudgePairs, unblindText, unblindJudgment, unblindJudgeFailure } from '../../core/blind.js';
+import { lintJudgment } from '../../core/lint.js';
+import { createJudgeProgress } from '../progress.js';
+import { printSummary } from '../summary.js';
+import { describeAggregation, resolveJudgeWeights, warnUncalibratedJudges } from '../aggregation.js';
+import { installInterruptHandler } from '../interrupt.js';
+import { disableResponseCache } from '../../providers/cache.js';
+import { applyRejudge, loadSessionSummary, saveSessionOutputs, syncSessionCheckpoint } from '../session.js';
+import { selectRubric } from '../../config/rubric.js';
+import { describeReferences } from '../../config/references.js';
+import type { ModelConfig, Rubric, WriteoffSession } from '../../types/index.js';
+
+interface RejudgeCommandOptions {
+  judges?: string;
+  replace?: boolean;
+  rubric?: string;
+  cache: boolean;
+}
+
+/**
+ * Create the rejudge command
+ */
+export function createRejudgeCommand(): Command {
+  const command = new Command('rejudge')
+    .description('Judge the posts of a saved session with a new judge panel')
+    .argument('<session-dir>', 'Path to a session directory created by generate')
+    .option('--judges <models>', 'Comma-separated judge models (overrides JUDGE_MODELS env)')
+    .option('--replace', 'Drop all previous judges instead of merging per judge')
+    .option('--rubric <file>', 'Judge against a different rubric (requires --replace)')
+    .option('--no-cache', 'Bypass the response cache for this run')
+    .action(async (sessionDirArg: string, options: RejudgeCommandOptions) => {
+      try {
+        loadEnv();
+        if (options.cache === false) disableResponseCache();
+        const validation = validateApiKeys();
+
+        if (!validation.valid) {
+          console.error('Error: No API keys configured.');
+          console.error('Please set at least one of the following environment variables:');
+          for (const key of validation.missing) {
+            console.error(`  - ${key}`);
+          }
+          process.exit(1);
+        }
+
+        const sessionDir = path.resolve(sessionDirArg);
+        let session: WriteoffSession;
+        try {
+          session = await loadSessionSummary(sessionDir);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        if (session.judgingMode === 'pairwise') {
+          console.error('Error: rejudge only supports sessions judged with absolute scores.');
+          process.exit(1);
+        }
+
+        if (session.posts.length === 0) {
+          console.error('Error: The session has no posts to judge.');
+          process.exit(1);
+        }
+
+        const judgeModelStrings = options.judges
+          ? options.judges.split(',').map((m) => m.trim())
+          : getJudgeModels();
+
+        let judgeModels: ModelConfig[];
+        try {
+          judgeModels = disambiguateFriendlyNames(parseModelList(judgeModelStrings));
+        } catch (error) {
+          console.error(`Error parsing judge models: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        if (judgeModels.length === 0) {
+          console.error('Error: No judge models configured.');
+          console.error('Set JUDGE_MODELS in .env or use --judges option.');
+          process.exit(1);
+        }
+
+        // A different rubric changes the criteria, so earlier judgments can't be merged with new ones.
+        if (options.rubric && !options.replace) {
+          console.error('Error: --rubric requires --replace.');
+          process.exit(1);
+        }
+
+        let rubric: Rubric;
+        try {
+          rubric = options.rubric ? selectRubric(options.rubric) : session.rubric;
+        } catch (error) {
+          console.error(`Error loading rubric: ${(error as Error).message}`);
+          process.exit(1);
+        }
+
+        console.log(`\nRejudging Writeoff Session ${session.id}`);
+        console.log(`==================================`);
+        console.log(`Posts: ${session.posts.map((p) => p.friendlyName).join(', ')}`);
+        console.log(`New judges: ${judgeModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`Rubric: ${rubric.name}`);
+        console.log(`Aggregation: ${describeAggregation(session.aggregation)}`);
+        warnUncalibratedJudges(session.aggregation, judgeModels);
+        console.log(`Judge samples: ${session.judgeSamples}`);
+        console.log(`References: ${describeReferences(session.references)}`);
+        console.log(`Mode: ${options.replace ? 'replace previous panel' : 'merge per judge'}`);
+        console.log();
+
+        // Ctrl-C cancels the rejudge; the saved session is left untouched.
+        const interrupt = installInterruptHandler();
+        const { signal } = interrupt;
+
+        const pairs: JudgePair[] = buildJudgePairs(
+          judgeModels,
+          session.posts,
+          session.selfJudging,
+          session.judgeSamples
+        );
+        const totalJudgments = pairs.length;
+        const judgeProgress = createJudgeProgress(totalJudgments);
+        judgeProgress.start();
+
+        // A session judged blind is rejudged blind with the same seed and formatting, so labels stay the same.
+        const blinding = session.blinding
+          ? blindPosts(
+              session.writerModels,
+              session.posts,
+              judgeModels,
+              'absolute',
+              session.blinding.seed,
+              session.blinding.normalizedFormatting
+            )
+          : undefined;
+        const record = blinding?.record;
+
+        const judgedRaw = await judgePairs(
+          blinding ? blindJudgePairs(pairs, blinding) : pairs,
+          (judge: string, label: string, status: 'start' | 'done' | 'error') => {
+            const post = record ? unblindText(label, record) : label;
+            if (status === 'done') {
+              judgeProgress.increment(`${judge} -> ${post}`);
+            } else if (status === 'error') {
+              judgeProgress.increment(`${judge} -> ${post} (failed)`);
+            }
+          },
+          { signal, rubric, references: session.references, claims: session.claims }
+        );
+        const judged = record
+          ? {
+              judgments: judgedRaw.judgments.map((j) => unblindJudgment(j, record, session.posts)),
+              failures: judgedRaw.failures.map((f) => unblindJudgeFailure(f, record)),
+            }
+          : judgedRaw;
+
+        judgeProgress.stop();
+        interrupt.dispose();
+
+        if (signal.aborted) {
+          console.error('Rejudge interrupted; the saved session was not modified.');
+          process.exit(130);
+        }
+
+        console.log(
+          `Completed ${judged.judgments.length}/${totalJudgments} judgments (${judged.failures.length} failed).\n`
+        );
+
+        if (judged.judgments.length === 0) {
+          console.error('Error: No judgments were completed; the saved session was not modified.');
+          process.exit(1);
+        }
+
+        // New judges get their configured trust weights; kept judges keep the weights they were judged with.
+        let aggregation =
+          session.aggregation.strategy === 'weighted'
+            ? {
+                ...session.aggregation,
+                judgeWeights: { ...session.aggregation.judgeWeights, ...resolveJudgeWeights(judgeModels) },
+              }
+            : session.aggregation;
+        // Corrections are per criterion, so they don't carry over to a different rubric.
+        if (aggregation.calibration && aggregation.calibration.rubric !== rubric.name) {
+          console.warn(
+            `Warning: the session's calibration was fitted for the "${aggregation.calibration.rubric}" rubric; dropping it.`
+          );
+          aggregation = { ...aggregation, calibration: undefined };
+        }
+        // Merging keeps the linter's judgments; replacing drops them with the old panel, so lint again.
+        let lint = session.lint;
+        if (lint && options.replace) {
+          try {
+            judged.judgments.push(...session.posts.map((post) => lintJudgment(post, rubric)));
+          } catch (error) {
+            console.warn(`Warning: ${(error as Error).message}; dropping the style linter.`);
+            lint = undefined;
+          }
+        }
+        const updated = applyRejudge(
+          { ...session, aggregation, lint },
+          judgeModels,
+          judged,
+          options.replace === true,
+          rubric
+        );
+        if (record) {
+          // Keep the recorded order of judges that survive the rejudge alongside the new ones.
+          const kept = new Set(updated.judgeModels.map((j) => j.friendlyName));
+          const previousOrder = Object.entries(session.blinding?.judgeOrder ?? {}).filter(([judge]) => kept.has(judge));
+          updated.blinding = { ...record, judgeOrder: { ...Object.fromEntries(previousOrder), ...record.judgeOrder } };
+        }
+        await saveSessionOutputs(updated, sessionDir);
+        await syncSessionCheckpoint(sessionDir, updated);
+        console.log(`Results saved to: ${sessionDir}`);
+        console.log(`Previous judging rounds kept in summary.json (judgingHistory: ${updated.judgingHistory?.length ?? 0})\n`);
+
+        printSummary({
+          prompt: updated.prompt,
+          results: updated.results,
+          winner: updated.winner,
+          outputDir: sessionDir,
+          usage: updated.usage,
+          rubric,
+          verdict: updated.verdict,
+          selfPreference: updated.selfPreference,
+          aggregation: updated.aggregation.strategy,
+          posts: updated.posts,
+        });
+      } catch (error) {
+        console.error(`\nUnexpected error: ${(error as Error).message}`);
+        if (process.env.DEBUG) {
+          console.error((error as Error).stack);
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,91 @@
+/**
+ * Resume command for the writeoff CLI
+ * Finishes an interrupted or partially failed generate session from its checkpoints
+ */
+
+import { Command } from 'commander';
+import path from 'path';
+import { loadEnv, validateApiKeys } from '../../config/env.js';
+import { describeReferences } from '../../config/references.js';
+import { disableResponseCache } from '../../providers/cache.js';
+import { loadSessionCheckpoint } from '../session.js';
+import type { SessionCheckpoint } from '../session.js';
+import { findMissingJudgePairs, findMissingMatchups, runSession } from '../run-session.js';
+import { describeAggregation } from '../aggregation.js';
+import { DEFAULT_AGGREGATION } from '../../core/judge.js';
+import { describeLimits } from '../../core/readability.js';
+import { describeBlinding } from '../../core/blind.js';
+
+/**
+ * Create the resume command
+ */
+export function createResumeCommand(): Command {
+  const command = new Command('resume')
+    .description('Resume a generate session: run missing posts and judgments, retry failures, re-aggregate')
+    .argument('<session-dir>', 'Path to a session directory created by generate')
+    .option('--no-cache', 'Bypass the response cache for this run')
+    .action(async (sessionDirArg: string, options: { cache: boolean }) => {
+      try {
+        loadEnv();
+        if (options.cache === false) disableResponseCache();
+        const validation = validateApiKeys();
+
+        if (!validation.valid) {
+          console.error('Error: No API keys configured.');
+          console.error('Please set at least one of the following environment variables:');
+          for (const key of validation.missing) {
+            console.error(`  - ${key}`);
+          }
+          process.exit(1);
+        }
+
+        const sessionDir = path.resolve(sessionDirArg);
+        let checkpoint: SessionCheckpoint;
+        try {
+          checkpoint = await loadSessionCheckpoint(sessionDir);
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          console.error('Only sessions created by generate with checkpointing can be resumed.');
+          process.exit(1);
+        }
+
+        const { manifest } = checkpoint;
+        const missingPosts = manifest.writerModels.length - checkpoint.posts.length;
+        const pairwise = manifest.judgingMode === 'pairwise';
+        const missingJudgments = pairwise
+          ? findMissingMatchups(checkpoint, checkpoint.posts).length
+          : findMissingJudgePairs(checkpoint, checkpoint.posts).length;
+        const unit = pairwise ? 'comparison(s)' : 'judgment(s)';
+        const done = pairwise ? checkpoint.pairwiseJudgments.length : checkpoint.judgments.length;
+
+        console.log(`\nResuming Writeoff Session ${manifest.id}`);
+        console.log(`=================================`);
+        console.log(`Writers: ${manifest.writerModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`Judges: ${manifest.judgeModels.map((m) => m.friendlyName).join(', ')}`);
+        console.log(`Aggregation: ${describeAggregation({ ...DEFAULT_AGGREGATION, ...manifest.aggregation })}`);
+        console.log(`Judge samples: ${manifest.judgeSamples ?? 1}`);
+        if (manifest.lint) console.log(`Style linter: on`);
+        if (manifest.claims) console.log(`Claim check: on`);
+        console.log(`AP Style: ${manifest.apStyleFix ? 'check and fix' : 'check'}`);
+        console.log(`Limits: ${describeLimits(manifest.limits ?? {})}`);
+        console.log(`References: ${describeReferences(manifest.references)}`);
+        console.log(`Blind judging: ${describeBlinding(manifest.blindSeed, manifest.normalizeFormatting)}`);
+        console.log(`Checkpointed: ${checkpoint.posts.length} post(s), ${done} ${unit}`);
+        console.log(
+          `Remaining: ${missingPosts} post(s), ${missingJudgments} ${unit} for existing posts ` +
+            '(plus any involving newly generated posts)'
+        );
+        console.log();
+
+        await runSession(checkpoint, sessionDir);
+      } catch (error) {
+        console.error(`\nUnexpected error: ${(error as Error).message}`);
+        if (process.env.DEBUG) {
+          console.error((error as Error).stack);
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,36 @@
+/**
+ * Ctrl-C handling for long-running commands.
+ *
+ * The first SIGINT aborts the returned signal so commands stop scheduling work,
+ * cancel in-flight requests and save partial results. A second SIGINT exits immediately.
+ */
+
+export interface InterruptHandle {
+  signal: AbortSignal;
+  /** Remove the SIGINT listener (restores default Ctrl-C behavior) */
+  dispose: () => void;
+}
+
+export function installInterruptHandler(onInterrupt?: () => void): InterruptHandle {
+  const controller = new AbortController();
+
+  const handler = () => {
+    if (controller.signal.aborted) {
+      console.error('\nForce quitting without saving.');
+      process.exit(130);
+    }
+
+    onInterrupt?.();
+    console.error('\nInterrupted: cancelling in-flight requests and saving partial results (Ctrl-C again to force quit)...');
+    controller.abort();
+  };
+
+  process.on('SIGINT', handler);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.off('SIGINT', handler);
+    },
+  };
+}
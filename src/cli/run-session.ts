@@ -0,0 +1,391 @@
+/**
+ * Shared generate/judge/aggregate pipeline for the generate and resume commands.
+ * Only work missing from the checkpoint is run, so a fresh session and a resumed one
+ * follow the same path.
+ */
+
+import { getContestantId } from '../config/models.js';
+import { DEFAULT_RUBRIC } from '../config/rubric.js';
+import { generatePostsFromModels } from '../core/writer.js';
+import {
+  DEFAULT_AGGREGATION,
+  judgePairs,
+  buildJudgePairs,
+  aggregateResults,
+  computeSelfPreference,
+  determineWinner,
+} from '../core/judge.js';
+import type { JudgePair } from '../core/judge.js';
+import {
+  buildPairwiseMatchups,
+  computePairwiseSelfPreference,
+  judgeMatchups,
+  rankPairwise,
+} from '../core/pairwise.js';
+import type { PairwiseMatchup } from '../core/pairwise.js';
+import {
+  blindPosts,
+  blindJudgePairs,
+  blindMatchups,
+  unblindText,
+  unblindJudgment,
+  unblindJudgeFailure,
+  unblindPairwiseJudgment,
+  unblindPairwiseFailure,
+} from '../core/blind.js';
+import type { Blinding } from '../core/blind.js';
+import { bootstrapAbsolute, bootstrapPairwise } from '../core/bootstrap.js';
+import { lintJudgment } from '../core/lint.js';
+import { applyApStyle } from '../core/ap-style.js';
+import { applyReadability, rankQualified } from '../core/readability.js';
+import { buildUsageReport } from '../core/usage.js';
+import { createWriterProgress, createJudgeProgress } from './progress.js';
+import { printSummary } from './summary.js';
+import { installInterruptHandler } from './interrupt.js';
+import {
+  checkpointPost,
+  checkpointJudgment,
+  checkpointPairwiseJudgment,
+  judgmentCheckpointKey,
+  pairwiseCheckpointKey,
+  saveSessionOutputs,
+} from './session.js';
+import type { SessionCheckpoint } from './session.js';
+import type {
+  WriterResult,
+  JudgmentResult,
+  JudgeFailure,
+  PairwiseJudgment,
+  PairwiseFailure,
+  AggregatedResult,
+  WriteoffSession,
+} from '../types/index.js';
+
+/**
+ * Judge/post pairs (one per sample) that have no checkpointed judgment yet (including previously
+ * failed ones). Self-judgments are not scheduled when the session excludes them.
+ */
+export function findMissingJudgePairs(checkpoint: SessionCheckpoint, posts: WriterResult[]): JudgePair[] {
+  const done = new Set(
+    checkpoint.judgments.map((j) => judgmentCheckpointKey(j.judgeFriendlyName, j.postContestantId, j.sample))
+  );
+
+  const { judgeModels, selfJudging, judgeSamples } = checkpoint.manifest;
+  return buildJudgePairs(judgeModels, posts, selfJudging, judgeSamples).filter(
+    ({ judge, post, sample }) => !done.has(judgmentCheckpointKey(judge.friendlyName, post.contestantId, sample))
+  );
+}
+
+/**
+ * Ordered comparisons that have no checkpointed result yet (including previously failed ones).
+ */
+export function findMissingMatchups(checkpoint: SessionCheckpoint, posts: WriterResult[]): PairwiseMatchup[] {
+  const done = new Set(
+    checkpoint.pairwiseJudgments.map((j) =>
+      pairwiseCheckpointKey(j.judgeFriendlyName, j.firstContestantId, j.secondContestantId)
+    )
+  );
+
+  const { judgeModels, selfJudging } = checkpoint.manifest;
+  return buildPairwiseMatchups(judgeModels, posts, selfJudging).filter(
+    (m) => !done.has(pairwiseCheckpointKey(m.judge.friendlyName, m.first.contestantId, m.second.contestantId))
+  );
+}
+
+interface JudgingPhaseResult {
+  judgments: JudgmentResult[];
+  judgeFailures: JudgeFailure[];
+  pairwiseJudgments: PairwiseJudgment[];
+  pairwiseFailures: PairwiseFailure[];
+  /** Judgments or comparisons available for aggregation (checkpointed + new) */
+  completed: number;
+}
+
+async function runAbsolutePhase(
+  checkpoint: SessionCheckpoint,
+  posts: WriterResult[],
+  sessionDir: string,
+  signal: AbortSignal,
+  blinding?: Blinding
+): Promise<JudgingPhaseResult> {
+  const rubric = checkpoint.manifest.rubric ?? DEFAULT_RUBRIC;
+  const contestants = new Set(posts.map((p) => p.contestantId));
+  const judgments = checkpoint.judgments.filter((j) => contestants.has(j.postContestantId));
+  const pairs = findMissingJudgePairs(checkpoint, posts);
+  const judgeFailures: JudgeFailure[] = [];
+
+  if (!signal.aborted && pairs.length > 0) {
+    console.log('Phase 2: Judging posts...');
+    const judgeProgress = createJudgeProgress(pairs.length);
+    judgeProgress.start();
+
+    // Blinded runs judge anonymized copies under opaque labels; results are mapped back right away.
+    const record = blinding?.record;
+    const reveal = (judgment: JudgmentResult) => (record ? unblindJudgment(judgment, record, posts) : judgment);
+
+    const judged = await judgePairs(
+      blinding ? blindJudgePairs(pairs, blinding) : pairs,
+      (judge: string, label: string, status: 'start' | 'done' | 'error') => {
+        const post = record ? unblindText(label, record) : label;
+        if (status === 'done') {
+          judgeProgress.increment(`${judge} -> ${post}`);
+        } else if (status === 'error') {
+          judgeProgress.increment(`${judge} -> ${post} (failed)`);
+        }
+      },
+      {
+        signal,
+        rubric,
+        references: checkpoint.manifest.references,
+        claims: checkpoint.manifest.claims,
+        onResult: (judgment) => checkpointJudgment(sessionDir, reveal(judgment)),
+      }
+    );
+
+    judgments.push(...judged.judgments.map(reveal));
+    judgeFailures.push(...judged.failures.map((f) => (record ? unblindJudgeFailure(f, record) : f)));
+
+    judgeProgress.stop();
+  } else if (pairs.length === 0) {
+    console.log('Phase 2: All judgments already completed.');
+  }
+
+  const { judgeModels, selfJudging, judgeSamples } = checkpoint.manifest;
+  const total = buildJudgePairs(judgeModels, posts, selfJudging, judgeSamples).length;
+  console.log(`Completed ${judgments.length}/${total} judgments (${judgeFailures.length} failed).\n`);
+  const completed = judgments.length;
+
+  // The linter is deterministic and instant, so it is rerun rather than checkpointed.
+  if (checkpoint.manifest.lint) {
+    judgments.push(...posts.map((post) => lintJudgment(post, rubric)));
+  }
+
+  return { judgments, judgeFailures, pairwiseJudgments: [], pairwiseFailures: [], completed };
+}
+
+async function runPairwisePhase(
+  checkpoint: SessionCheckpoint,
+  posts: WriterResult[],
+  sessionDir: string,
+  signal: AbortSignal,
+  blinding?: Blinding
+): Promise<JudgingPhaseResult> {
+  const rubric = checkpoint.manifest.rubric ?? DEFAULT_RUBRIC;
+
+  if (posts.length < 2 && !signal.aborted) {
+    console.error('Error: Pairwise judging needs at least two posts.');
+    process.exit(1);
+  }
+
+  const contestants = new Set(posts.map((p) => p.contestantId));
+  const pairwiseJudgments = checkpoint.pairwiseJudgments.filter(
+    (j) => contestants.has(j.firstContestantId) && contestants.has(j.secondContestantId)
+  );
+  const matchups = findMissingMatchups(checkpoint, posts);
+  const pairwiseFailures: PairwiseFailure[] = [];
+
+  if (!signal.aborted && matchups.length > 0) {
+    console.log('Phase 2: Comparing posts pairwise (both orders)...');
+    const judgeProgress = createJudgeProgress(matchups.length);
+    judgeProgress.start();
+
+    const record = blinding?.record;
+    const reveal = (judgment: PairwiseJudgment) => (record ? unblindPairwiseJudgment(judgment, record) : judgment);
+
+    const judged = await judgeMatchups(
+      blinding ? blindMatchups(matchups, blinding) : matchups,
+      (judge: string, labels: string, status: 'start' | 'done' | 'error') => {
+        const pair = record ? unblindText(labels, record) : labels;
+        if (status === 'done') {
+          judgeProgress.increment(`${judge} -> ${pair}`);
+        } else if (status === 'error') {
+          judgeProgress.increment(`${judge} -> ${pair} (failed)`);
+        }
+      },
+      {
+        signal,
+        rubric,
+        references: checkpoint.manifest.references,
+        onResult: (judgment) => checkpointPairwiseJudgment(sessionDir, reveal(judgment)),
+      }
+    );
+
+    pairwiseJudgments.push(...judged.judgments.map(reveal));
+    pairwiseFailures.push(...judged.failures.map((f) => (record ? unblindPairwiseFailure(f, record) : f)));
+
+    judgeProgress.stop();
+  } else if (matchups.length === 0) {
+    console.log('Phase 2: All comparisons already completed.');
+  }
+
+  const { judgeModels, selfJudging } = checkpoint.manifest;
+  const total = buildPairwiseMatchups(judgeModels, posts, selfJudging).length;
+  console.log(
+    `Completed ${pairwiseJudgments.length}/${total} comparisons (${pairwiseFailures.length} failed).\n`
+  );
+
+  return {
+    judgments: [],
+    judgeFailures: [],
+    pairwiseJudgments,
+    pairwiseFailures,
+    completed: pairwiseJudgments.length,
+  };
+}
+
+/**
+ * Run every missing phase of a session, checkpointing results as they complete,
+ * then save outputs and print the summary. Exits the process on fatal errors or interrupt.
+ */
+export async function runSession(checkpoint: SessionCheckpoint, sessionDir: string): Promise<void> {
+  const { manifest } = checkpoint;
+  const { writerModels, judgeModels } = manifest;
+  const rubric = manifest.rubric ?? DEFAULT_RUBRIC;
+  const aggregation = { ...DEFAULT_AGGREGATION, ...manifest.aggregation };
+
+  // Ctrl-C stops scheduling work, cancels in-flight calls and saves partial results.
+  const interrupt = installInterruptHandler();
+  const { signal } = interrupt;
+
+  // Phase 1: Generate posts that are not checkpointed yet
+  const havePost = new Set(checkpoint.posts.map((p) => p.contestantId));
+  const missingWriters = writerModels.filter((m) => !havePost.has(getContestantId(m)));
+  let newPosts: WriterResult[] = [];
+
+  if (missingWriters.length > 0) {
+    console.log('Phase 1: Generating posts...');
+    const writerProgress = createWriterProgress(missingWriters.length);
+    writerProgress.start();
+
+    newPosts = await generatePostsFromModels(
+      missingWriters,
+      manifest.prompt,
+      manifest.existingContent,
+      (model, status) => {
+        if (status === 'done') {
+          writerProgress.increment(model);
+        } else if (status === 'error') {
+          writerProgress.increment(`${model} (failed)`);
+        }
+      },
+      { signal, references: manifest.references, onResult: (post) => checkpointPost(sessionDir, post) }
+    );
+
+    writerProgress.stop();
+  } else {
+    console.log('Phase 1: All posts already generated.');
+  }
+
+  // Keep posts in writer order regardless of which run produced them
+  const byContestant = new Map([...checkpoint.posts, ...newPosts].map((p) => [p.contestantId, p]));
+  // Checkpoints keep posts as written; the AP Style check (and --fix) and metrics are rerun each time.
+  const posts = writerModels
+    .map((m) => byContestant.get(getContestantId(m)))
+    .filter((p): p is WriterResult => p !== undefined)
+    .map((p) => applyReadability(applyApStyle(p, manifest.apStyleFix), manifest.limits));
+  console.log(`Generated ${posts.length}/${writerModels.length} posts successfully.\n`);
+
+  if (posts.length === 0) {
+    if (signal.aborted) {
+      console.error('Interrupted before any post was generated; nothing to save.');
+      process.exit(130);
+    }
+    console.error('Error: No posts were generated. Check your API keys and model configurations.');
+    process.exit(1);
+  }
+
+  // Phase 2: Judge whatever has no checkpointed result yet (skipped if interrupted during Phase 1)
+  const mode = manifest.judgingMode ?? 'absolute';
+  const blinding =
+    manifest.blindSeed !== undefined
+      ? blindPosts(writerModels, posts, judgeModels, mode, manifest.blindSeed, manifest.normalizeFormatting)
+      : undefined;
+  const judging =
+    mode === 'pairwise'
+      ? await runPairwisePhase(checkpoint, posts, sessionDir, signal, blinding)
+      : await runAbsolutePhase(checkpoint, posts, sessionDir, signal, blinding);
+
+  if (judging.completed === 0 && !signal.aborted) {
+    console.error('Error: No judgments were completed. Check your API keys and model configurations.');
+    process.exit(1);
+  }
+
+  // Phase 3: Aggregate results (a Bradley-Terry fit in pairwise mode)
+  console.log('Phase 3: Aggregating results...');
+  // Posts over a hard limit keep their scores but rank last and cannot win.
+  const ranked: AggregatedResult[] = rankQualified(
+    mode === 'pairwise'
+      ? rankPairwise(posts, judging.pairwiseJudgments, rubric)
+      : aggregateResults(posts, judging.judgments, rubric, aggregation),
+    posts
+  );
+  // Resample judges for score intervals and how clearly the leader beats each runner-up
+  const { results, verdict } =
+    mode === 'pairwise'
+      ? bootstrapPairwise(ranked, posts, judging.pairwiseJudgments, rubric)
+      : bootstrapAbsolute(ranked, judging.judgments, rubric, { aggregation });
+  // An interrupted run may have posts but no judgments; nothing can win then.
+  const winner = judging.completed > 0 ? determineWinner(results) : null;
+  const selfJudging = manifest.selfJudging ?? 'include';
+  const selfPreference =
+    selfJudging !== 'report'
+      ? undefined
+      : mode === 'pairwise'
+        ? computePairwiseSelfPreference(posts, judging.pairwiseJudgments, rubric)
+        : computeSelfPreference(judging.judgments, rubric, aggregation);
+
+  const session: WriteoffSession = {
+    id: manifest.id,
+    prompt: manifest.prompt,
+    inputFile: manifest.inputFile,
+    writerModels,
+    judgeModels,
+    rubric,
+    judgingMode: mode,
+    selfJudging,
+    judgeSamples: manifest.judgeSamples ?? 1,
+    aggregation,
+    lint: manifest.lint,
+    apStyleFix: manifest.apStyleFix,
+    limits: manifest.limits,
+    claims: manifest.claims,
+    references: manifest.references,
+    posts,
+    judgments: judging.judgments,
+    judgeFailures: judging.judgeFailures,
+    pairwiseJudgments: mode === 'pairwise' ? judging.pairwiseJudgments : undefined,
+    pairwiseFailures: mode === 'pairwise' ? judging.pairwiseFailures : undefined,
+    blinding: blinding?.record,
+    results,
+    winner,
+    verdict: winner ? verdict : undefined,
+    selfPreference,
+    usage: buildUsageReport(posts, [...judging.judgments, ...judging.pairwiseJudgments]),
+    interrupted: signal.aborted,
+    createdAt: manifest.createdAt,
+  };
+
+  await saveSessionOutputs(session, sessionDir);
+  interrupt.dispose();
+  console.log(`${session.interrupted ? 'Partial results' : 'Results'} saved to: ${sessionDir}\n`);
+
+  printSummary({
+    prompt: session.prompt,
+    results: session.results,
+    winner: session.winner,
+    outputDir: sessionDir,
+    usage: session.usage,
+    interrupted: session.interrupted,
+    rubric,
+    judgingMode: mode,
+    verdict: session.verdict,
+    selfPreference,
+    aggregation: aggregation.strategy,
+    posts,
+  });
+
+  if (session.interrupted) {
+    console.log(`Resume with: writeoff resume ${sessionDir}\n`);
+    process.exit(130);
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Generate session storage
+ *
+ * A session directory holds a manifest (session.json) written before any work starts,
+ * per-result checkpoints written as each post or judgment completes, and the final
+ * outputs (posts/, judgments/, summary.json). The manifest and checkpoints are enough
+ * to resume an interrupted or partially failed session.
+ */
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { slugify } from '../config/models.js';
+import { DEFAULT_RUBRIC } from '../config/rubric.js';
+import { DEFAULT_AGGREGATION, aggregateResults, computeSelfPreference, determineWinner } from '../core/judge.js';
+import type { JudgeRunResult } from '../core/judge.js';
+import { bootstrapAbsolute } from '../core/bootstrap.js';
+import { isLintJudgment } from '../core/lint.js';
+import { rankQualified } from '../core/readability.js';
+import { buildUsageReport } from '../core/usage.js';
+import type {
+  ModelConfig,
+  WriterResult,
+  JudgmentResult,
+  JudgingMode,
+  PairwiseJudgment,
+  WriteoffSession,
+  Rubric,
+  SelfJudgingPolicy,
+  AggregationSettings,
+  ReadabilityLimits,
+  ReferenceDocument,
+} from '../types/index.js';
+
+/**
+ * Everything needed to (re)run a generate session, saved before any model is called.
+ */
+export interface SessionManifest {
+  id: string;
+  prompt: string;
+  existingContent?: string;
+  inputFile?: string;
+  writerModels: ModelConfig[];
+  judgeModels: ModelConfig[];
+  /** Absent in manifests written before rubrics were configurable (the default rubric applies) */
+  rubric?: Rubric;
+  /** Absent in manifests written before pairwise judging existed (absolute scoring applies) */
+  judgingMode?: JudgingMode;
+  /** Absent in manifests written before the policy existed (self-judgments are included) */
+  selfJudging?: SelfJudgingPolicy;
+  /** Seed for blind judging; absent when posts were judged with their content untouched */
+  blindSeed?: number;
+  /** Whether blinded posts have their markdown habits normalized; absent when they keep their formatting */
+  normalizeFormatting?: boolean;
+  /** Times each judge scores each post; absent in manifests written before sampling existed (1 applies) */
+  judgeSamples?: number;
+  /** Absent (or partial) in manifests written before aggregation was configurable; defaults fill the gaps */
+  aggregation?: Partial<AggregationSettings>;
+  /** Whether the style linter judges alongside the panel; absent when it does not */
+  lint?: boolean;
+  /** Whether fixable AP Style violations are rewritten before judging; absent when they are not */
+  apStyleFix?: boolean;
+  /** Hard readability limits; absent when none were set */
+  limits?: ReadabilityLimits;
+  /** Whether judges also list the posts' factual claims; absent when they do not */
+  claims?: boolean;
+  /** Reference documents given to writers and judges; absent when none were given */
+  references?: ReferenceDocument[];
+  createdAt: Date;
+}
+
+/**
+ * A session reloaded from disk: its manifest plus every checkpointed result.
+ */
+export interface SessionCheckpoint {
+  manifest: SessionManifest;
+  posts: WriterResult[];
+  judgments: JudgmentResult[];
+  pairwiseJudgments: PairwiseJudgment[];
+}
+
+const MANIFEST_FILE = 'session.json';
+const CHECKPOINT_DIR = 'checkpoints';
+
+/**
+ * Generate a timestamp-based session ID
+ */
+export function generateSessionId(): string {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  const hour = String(now.getHours()).padStart(2, '0');
+  const minute = String(now.getMinutes()).padStart(2, '0');
+  const second = String(now.getSeconds()).padStart(2, '0');
+  return `${year}${month}${day}-${hour}${minute}${second}`;
+}
+
+/**
+ * Checkpoint key for a judgment: one file per (judge, contestant) pair, and per sample when
+ * the judge scores the post more than once.
+ */
+export function judgmentCheckpointKey(judgeFriendlyName: string, postContestantId: string, sample?: number): string {
+  const key = `${slugify(judgeFriendlyName)}--${postContestantId}`;
+  return sample !== undefined ? `${key}--s${sample}` : key;
+}
+
+/**
+ * Checkpoint key for a pairwise comparison: one file per (judge, ordered pair).
+ */
+export function pairwiseCheckpointKey(
+  judgeFriendlyName: string,
+  firstContestantId: string,
+  secondContestantId: string
+): string {
+  return `${slugify(judgeFriendlyName)}--${firstContestantId}--${secondContestantId}`;
+}
+
+async function writeJsonAtomic(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await writeFile(tmp, JSON.stringify(value, null, 2), 'utf-8');
+  await rename(tmp, file);
+}
+
+export async function writeSessionManifest(sessionDir: string, manifest: SessionManifest): Promise<void> {
+  await writeJsonAtomic(path.join(sessionDir, MANIFEST_FILE), manifest);
+}
+
+/**
+ * Persist a completed post right away. Failures are reported but never abort the run.
+ */
+export async function checkpointPost(sessionDir: string, post: WriterResult): Promise<void> {
+  try {
+    await writeJsonAtomic(path.join(sessionDir, CHECKPOINT_DIR, 'posts', `${post.contestantId}.json`), post);
+  } catch (err) {
+    console.error(`Warning: failed to checkpoint post ${post.friendlyName}: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Persist a completed judgment right away. Failures are reported but never abort the run.
+ */
+export async function checkpointJudgment(sessionDir: string, judgment: JudgmentResult): Promise<void> {
+  const key = judgmentCheckpointKey(judgment.judgeFriendlyName, judgment.postContestantId, judgment.sample);
+  try {
+    await writeJsonAtomic(path.join(sessionDir, CHECKPOINT_DIR, 'judgments', `${key}.json`), judgment);
+  } catch (err) {
+    console.error(
+      `Warning: failed to checkpoint judgment ${judgment.judgeFriendlyName} -> ${judgment.postContestantId}: ${(err as Error).message}`
+    );
+  }
+}
+
+/**
+ * Persist a completed pairwise comparison right away. Failures are reported but never abort the run.
+ */
+export async function checkpointPairwiseJudgment(sessionDir: string, judgment: PairwiseJudgment): Promise<void> {
+  const key = pairwiseCheckpointKey(judgment.judgeFriendlyName, judgment.firstContestantId, judgment.secondContestantId);
+  try {
+    await writeJsonAtomic(path.join(sessionDir, CHECKPOINT_DIR, 'pairwise', `${key}.json`), judgment);
+  } catch (err) {
+    console.error(
+      `Warning: failed to checkpoint comparison ${judgment.judgeFriendlyName} -> ${judgment.firstContestantId} vs ${judgment.secondContestantId}: ${(err as Error).message}`
+    );
+  }
+}
+
+async function readJsonDir<T>(dir: string): Promise<T[]> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((f) => f.endsWith('.json')).sort();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+
+  const items: T[] = [];
+  for (const file of files) {
+    items.push(JSON.parse(await readFile(path.join(dir, file), 'utf-8')) as T);
+  }
+  return items;
+}
+
+/**
+ * Load a session's manifest and checkpoints, reviving date fields.
+ * @throws Error if the directory has no readable session manifest
+ */
+export async function loadSessionCheckpoint(sessionDir: string): Promise<SessionCheckpoint> {
+  const manifestPath = path.join(sessionDir, MANIFEST_FILE);
+  let manifest: SessionManifest;
+  try {
+    manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as SessionManifest;
+  } catch (err) {
+    throw new Error(`Unable to load session manifest ${manifestPath}: ${(err as Error).message}`);
+  }
+  manifest.createdAt = new Date(manifest.createdAt);
+
+  const posts = (await readJsonDir<WriterResult>(path.join(sessionDir, CHECKPOINT_DIR, 'posts'))).map((p) => ({
+    ...p,
+    generatedAt: new Date(p.generatedAt),
+  }));
+  const judgments = (await readJsonDir<JudgmentResult>(path.join(sessionDir, CHECKPOINT_DIR, 'judgments'))).map(
+    (j) => ({ ...j, judgedAt: new Date(j.judgedAt) })
+  );
+  const pairwiseJudgments = (
+    await readJsonDir<PairwiseJudgment>(path.join(sessionDir, CHECKPOINT_DIR, 'pairwise'))
+  ).map((j) => ({ ...j, judgedAt: new Date(j.judgedAt) }));
+
+  return { manifest, posts, judgments, pairwiseJudgments };
+}
+
+/**
+ * Fill in the contestant IDs that sessions saved before contestants existed lack: posts take the
+ * slugified friendly name (as writer models do, and as their post files were named), and
+ * judgments are matched to their post by model ID.
+ * @throws Error if a judgment cannot be matched to exactly one post
+ */
+function assignLegacyContestantIds(session: WriteoffSession, summaryPath: string): void {
+  if (session.posts.every((p) => p.contestantId !== undefined)) return;
+
+  session.posts = session.posts.map((post) => ({ ...post, contestantId: post.contestantId ?? slugify(post.friendlyName) }));
+  const ids = session.posts.map((p) => p.contestantId);
+  if (new Set(ids).size !== ids.length) {
+    throw new Error(`Unable to load session summary ${summaryPath}: posts cannot be told apart (${ids.join(', ')})`);
+  }
+
+  const contestantFor = (postModelId: string): string => {
+    const matches = session.posts.filter((p) => p.modelId === postModelId);
+    if (matches.length !== 1) {
+      const problem = matches.length === 0 ? 'matches no post' : 'matches several posts';
+      throw new Error(`Unable to load session summary ${summaryPath}: judged model "${postModelId}" ${problem}`);
+    }
+    return matches[0].contestantId;
+  };
+  const assign = <T extends { postModelId: string; postContestantId: string }>(item: T): T => ({
+    ...item,
+    postContestantId: item.postContestantId ?? contestantFor(item.postModelId),
+  });
+
+  session.judgments = session.judgments.map(assign);
+  session.judgeFailures = session.judgeFailures.map(assign);
+  session.judgingHistory = session.judgingHistory?.map((round) => ({
+    ...round,
+    judgments: round.judgments.map(assign),
+    judgeFailures: round.judgeFailures.map(assign),
+  }));
+}
+
+/**
+ * Load a finished session from its summary.json, reviving date fields.
+ * Post content is read from posts/<contestant>.md (posts/<slugified name>.md in sessions saved
+ * before contestants existed) so hand edits to the saved posts are respected.
+ * @throws Error if summary.json is missing or unreadable, or its judgments cannot be matched to posts
+ */
+export async function loadSessionSummary(sessionDir: string): Promise<WriteoffSession> {
+  const summaryPath = path.join(sessionDir, 'summary.json');
+  let session: WriteoffSession;
+  try {
+    session = JSON.parse(await readFile(summaryPath, 'utf-8')) as WriteoffSession;
+  } catch (err) {
+    throw new Error(`Unable to load session summary ${summaryPath}: ${(err as Error).message}`);
+  }
+
+  const reviveJudgment = (j: JudgmentResult): JudgmentResult => ({ ...j, judgedAt: new Date(j.judgedAt) });
+
+  session.createdAt = new Date(session.createdAt);
+  // Sessions saved before rubrics were configurable were judged with the default rubric
+  session.rubric ??= DEFAULT_RUBRIC;
+  session.judgingMode ??= 'absolute';
+  session.selfJudging ??= 'include';
+  session.judgeSamples ??= 1;
+  session.aggregation = { ...DEFAULT_AGGREGATION, ...session.aggregation };
+  session.judgments = session.judgments.map(reviveJudgment);
+  session.judgeFailures = (session.judgeFailures ?? []).map((f) => ({ ...f, failedAt: new Date(f.failedAt) }));
+  session.judgingHistory = session.judgingHistory?.map((round) => ({
+    ...round,
+    judgments: round.judgments.map(reviveJudgment),
+    supersededAt: new Date(round.supersededAt),
+  }));
+  // Sessions saved before contestants existed identify posts by model ID only
+  assignLegacyContestantIds(session, summaryPath);
+
+  session.posts = await Promise.all(
+    session.posts.map(async (post) => {
+      let content = post.content;
+      try {
+        content = await readFile(path.join(sessionDir, 'posts', `${post.contestantId}.md`), 'utf-8');
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      }
+      return { ...post, content, generatedAt: new Date(post.generatedAt) };
+    })
+  );
+
+  return session;
+}
+
+/**
+ * Fold a rejudge run into a session. Judges in the new panel replace their own earlier
+ * judgments (merge), or the whole previous panel is dropped (replaceAll). The previous
+ * judging state is appended to judgingHistory, then results and winner are recomputed.
+ */
+export function applyRejudge(
+  session: WriteoffSession,
+  newJudges: ModelConfig[],
+  run: JudgeRunResult,
+  replaceAll: boolean,
+  rubric: Rubric = session.rubric
+): WriteoffSession {
+  const rejudged = new Set(newJudges.map((j) => j.friendlyName));
+  const kept = (name: string) => !replaceAll && !rejudged.has(name);
+
+  const judgeModels = [...session.judgeModels.filter((j) => kept(j.friendlyName)), ...newJudges];
+  const judgments = [...session.judgments.filter((j) => kept(j.judgeFriendlyName)), ...run.judgments];
+  const judgeFailures = [...session.judgeFailures.filter((f) => kept(f.judgeFriendlyName)), ...run.failures];
+  const { aggregation } = session;
+  const { results, verdict } = bootstrapAbsolute(
+    rankQualified(aggregateResults(session.posts, judgments, rubric, aggregation), session.posts),
+    judgments,
+    rubric,
+    { aggregation }
+  );
+
+  return {
+    ...session,
+    judgeModels,
+    rubric,
+    judgments,
+    judgeFailures,
+    results,
+    winner: judgments.length > 0 ? determineWinner(results) : null,
+    verdict: judgments.length > 0 ? verdict : undefined,
+    selfPreference: session.selfJudging === 'report' ? computeSelfPreference(judgments, rubric, aggregation) : undefined,
+    usage: buildUsageReport(session.posts, judgments),
+    judgingHistory: [
+      ...(session.judgingHistory ?? []),
+      {
+        judgeModels: session.judgeModels,
+        rubric: session.rubric,
+        judgments: session.judgments,
+        judgeFailures: session.judgeFailures,
+        results: session.results,
+        winner: session.winner,
+        verdict: session.verdict,
+        usage: session.usage,
+        supersededAt: new Date(),
+      },
+    ],
+  };
+}
+
+/**
+ * Keep a resumable session's manifest and judgment checkpoints in sync after a rejudge.
+ * Does nothing for sessions created before checkpointing existed.
+ */
+export async function syncSessionCheckpoint(sessionDir: string, session: WriteoffSession): Promise<void> {
+  let manifest: SessionManifest;
+  try {
+    manifest = (await loadSessionCheckpoint(sessionDir)).manifest;
+  } catch {
+    return;
+  }
+
+  await writeSessionManifest(sessionDir, {
+    ...manifest,
+    judgeModels: session.judgeModels,
+    rubric: session.rubric,
+    lint: session.lint,
+  });
+  await rm(path.join(sessionDir, CHECKPOINT_DIR, 'judgments'), { recursive: true, force: true });
+  // Lint judgments are recomputed on resume, so only LLM judgments are checkpointed.
+  for (const judgment of session.judgments.filter((j) => !isLintJudgment(j))) {
+    await checkpointJudgment(sessionDir, judgment);
+  }
+}
+
+/**
+ * Save all session outputs to the session directory
+ */
+export async function saveSessionOutputs(session: WriteoffSession, sessionDir: string): Promise<string> {
+  // Create directory structure (judgments/ is rebuilt so judges dropped by a rejudge disappear)
+  await mkdir(sessionDir, { recursive: true });
+  await mkdir(path.join(sessionDir, 'posts'), { recursive: true });
+  await rm(path.join(sessionDir, 'judgments'), { recursive: true, force: true });
+  await mkdir(path.join(sessionDir, 'judgments'), { recursive: true });
+
+  // Save prompt
+  await writeFile(path.join(sessionDir, 'prompt.md'), session.prompt, 'utf-8');
+
+  // Save each post (named by contestant so repeated models don't overwrite each other)
+  for (const post of session.posts) {
+    const filename = `${post.contestantId}.md`;
+    await writeFile(path.join(sessionDir, 'posts', filename), post.content, 'utf-8');
+  }
+
+  // Group judgments (or pairwise comparisons) by judge
+  const judgmentsByJudge = new Map<string, Array<JudgmentResult | PairwiseJudgment>>();
+  for (const judgment of [...session.judgments, ...(session.pairwiseJudgments ?? [])]) {
+    const judgeKey = slugify(judgment.judgeFriendlyName);
+    if (!judgmentsByJudge.has(judgeKey)) {
+      judgmentsByJudge.set(judgeKey, []);
+    }
+    judgmentsByJudge.get(judgeKey)!.push(judgment);
+  }
+
+  // Save judgments by judge
+  for (const [judgeKey, judgments] of judgmentsByJudge) {
+    const filename = `${judgeKey}.json`;
+    await writeFile(
+      path.join(sessionDir, 'judgments', filename),
+      JSON.stringify(judgments, null, 2),
+      'utf-8'
+    );
+  }
+
+  // Remove a stale failures file when a resumed run has retried every failure successfully
+  const failuresPath = path.join(sessionDir, 'judge-failures.json');
+  const failures = [...session.judgeFailures, ...(session.pairwiseFailures ?? [])];
+  if (failures.length > 0) {
+    await writeFile(failuresPath, JSON.stringify(failures, null, 2), 'utf-8');
+  } else {
+    await rm(failuresPath, { force: true });
+  }
+
+  // Save full session summary
+  await writeFile(
+    path.join(sessionDir, 'summary.json'),
+    JSON.stringify(session, null, 2),
+    'utf-8'
+  );
+
+  return sessionDir;
+}
@@ -2,10 +2,22 @@
  * ASCII summary output rendering for writeoff CLI
  */
 
-import type { AggregatedResult, JudgingCriteria } from '../types/index.js';
-import { CRITERIA_WEIGHTS } from '../types/index.js';
-
-const WEIGHTS: Readonly<JudgingCriteria> = CRITERIA_WEIGHTS;
+import type {
+  AggregatedResult,
+  AggregationStrategy,
+  JudgingMode,
+  Rubric,
+  SelfPreference,
+  UsageReport,
+  UsageTotals,
+  WinnerVerdict,
+  WriterResult,
+} from '../types/index.js';
+import { formatCost } from '../core/usage.js';
+import { describeApStyle } from '../core/ap-style.js';
+import { countCitations } from '../core/citations.js';
+import { getActiveRubric } from '../config/rubric.js';
+import { getDisagreementStdDev } from '../config/env.js';
 
 // Box drawing characters
 const BOX_DOUBLE_HORIZONTAL = '=';
@@ -93,32 +105,50 @@ function emptyLine(width: number): string {
   return contentLine('', width);
 }
 
-/**
- * Format criterion name for display
- */
-function formatCriterionName(criterion: keyof JudgingCriteria): string {
-  const names: Record<keyof JudgingCriteria, string> = {
-    narrative: 'Narrative',
-    structure: 'Structure',
-    audienceFit: 'Audience',
-    accuracy: 'Accuracy',
-    aiDetection: 'AI Detection',
-  };
-  return names[criterion];
-}
-
 interface RenderSummaryOptions {
   prompt: string;
   results: AggregatedResult[];
   winner: AggregatedResult | null;
   outputDir: string;
+  usage?: UsageReport;
+  /** Marks the results as partial (run cancelled with Ctrl-C) */
+  interrupted?: boolean;
+  /** Rubric for the breakdown (defaults to the active rubric) */
+  rubric?: Rubric;
+  /** In pairwise mode scores are Bradley-Terry and per-criterion win rates */
+  judgingMode?: JudgingMode;
+  /** Bootstrap verdict on whether the leader is a meaningful winner */
+  verdict?: WinnerVerdict;
+  /** Self-preference deltas to list (selfJudging "report") */
+  selfPreference?: SelfPreference[];
+  /** How judges were combined; noted in the rankings header unless it is the plain mean */
+  aggregation?: AggregationStrategy;
+  /** Posts whose AP Style reports to list */
+  posts?: WriterResult[];
+}
+
+const AGGREGATION_NOTES: Record<AggregationStrategy, string> = {
+  mean: '',
+  median: 'median of judges',
+  trimmed: 'trimmed mean',
+  weighted: 'weighted judges',
+};
+
+/**
+ * Format one usage row: role, name, tokens and cost
+ */
+export function formatUsageLine(role: string, name: string, totals: UsageTotals): string {
+  const tokens = `${totals.totalTokens.toLocaleString('en-US')} tok`.padStart(14);
+  const cost = formatCost(totals).padStart(10);
+  return `${padRight(role, 8)}${padRight(name, 18)}${tokens}  ${cost}`;
 }
 
 /**
  * Render the full ASCII box summary
  */
 export function renderSummary(options: RenderSummaryOptions): string {
-  const { prompt, results, winner, outputDir } = options;
+  const { prompt, results, winner, outputDir, usage, interrupted, rubric = getActiveRubric() } = options;
+  const pairwise = options.judgingMode === 'pairwise';
   const width = 64; // Total box width
   const innerWidth = width - 4;
   
@@ -128,7 +158,8 @@ export function renderSummary(options: RenderSummaryOptions): string {
   lines.push(horizontalLine(BOX_DOUBLE_HORIZONTAL, width));
   
   // Title
-  lines.push(contentLine(padCenter('WRITEOFF RESULTS', innerWidth), width));
+  const title = interrupted ? 'WRITEOFF RESULTS (INTERRUPTED - PARTIAL)' : 'WRITEOFF RESULTS';
+  lines.push(contentLine(padCenter(title, innerWidth), width));
   
   // Title separator
   lines.push(horizontalLine(BOX_DOUBLE_HORIZONTAL, width));
@@ -143,41 +174,182 @@ export function renderSummary(options: RenderSummaryOptions): string {
   // Empty line
   lines.push(emptyLine(width));
   
-  // Rankings header
-  lines.push(contentLine('RANKINGS', width));
+  // Rankings header (intervals make room by shortening the bar)
+  const intervalLevel = results.find((r) => r.confidence)?.confidence?.level;
+  const rankingNotes = [
+    pairwise ? 'pairwise: Bradley-Terry win %' : AGGREGATION_NOTES[options.aggregation ?? 'mean'],
+    intervalLevel !== undefined ? `${Math.round(intervalLevel * 100)}% CI` : '',
+  ].filter(Boolean);
+  lines.push(contentLine(rankingNotes.length ? `RANKINGS (${rankingNotes.join(', ')})` : 'RANKINGS', width));
   lines.push(contentLine('-'.repeat(innerWidth - 2), width));
   
-  // Sort results by overall average (descending)
-  const sortedResults = [...results].sort((a, b) => b.overallAverage - a.overallAverage);
+  // Sort results by overall average (descending), disqualified posts last
+  const sortedResults = [...results].sort(
+    (a, b) => Number(!!a.disqualified) - Number(!!b.disqualified) || b.overallAverage - a.overallAverage
+  );
   
   // Render each ranking
   sortedResults.forEach((result, index) => {
     const rank = `#${index + 1}`;
     const name = padRight(result.postFriendlyName, 18);
     const score = result.overallAverage.toFixed(1).padStart(5);
-    const bar = renderScoreBar(result.overallAverage, 23);
-    const line = `${rank}  ${name} ${score}  ${bar}`;
+    const flag = `${result.agreement?.strongDisagreement ? ' !' : ''}${result.disqualified ? ' DQ' : ''}`;
+    let line: string;
+    if (intervalLevel !== undefined) {
+      const ci = result.confidence
+        ? `[${result.confidence.lower.toFixed(1)}-${result.confidence.upper.toFixed(1)}]`
+        : '';
+      line = `${rank}  ${name} ${score} ${ci.padEnd(13)} ${renderScoreBar(result.overallAverage, 12)}${flag}`;
+    } else {
+      line = `${rank}  ${name} ${score}  ${renderScoreBar(result.overallAverage, 23)}${flag}`;
+    }
     lines.push(contentLine(line, width));
   });
+
+  // Criteria on which a post's judges split widely ("!" in the rankings)
+  const split = sortedResults.filter((r) => r.agreement?.strongDisagreement);
+  if (split.length > 0) {
+    lines.push(emptyLine(width));
+    lines.push(contentLine(`! JUDGES DISAGREE (criterion std dev >= ${getDisagreementStdDev()})`, width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const result of split) {
+      const agreement = result.agreement!;
+      lines.push(contentLine(`${result.postFriendlyName} (alpha ${agreement.alpha.toFixed(2)})`, width));
+      for (const criterion of rubric.criteria) {
+        const stats = agreement.criteria[criterion.key];
+        if (!stats || stats.stdDev < getDisagreementStdDev()) continue;
+        const range = `${Math.round(stats.min)}-${Math.round(stats.max)}`;
+        lines.push(contentLine(`  ${padRight(criterion.name, 16)}${range.padStart(7)}  sd ${stats.stdDev.toFixed(1)}`, width));
+      }
+    }
+  }
   
+  // Run-to-run noise of judges that scored each post more than once
+  const sampled = sortedResults.filter((r) => r.noise);
+  if (sampled.length > 0) {
+    const samples = Math.max(...sampled.map((r) => r.noise!.samplesPerJudge));
+    lines.push(emptyLine(width));
+    lines.push(contentLine(`JUDGE NOISE (score variance, ${samples} samples per judge)`, width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const result of sampled) {
+      const noise = result.noise!;
+      const between = noise.betweenJudgeVariance !== undefined ? noise.betweenJudgeVariance.toFixed(1) : '-';
+      lines.push(
+        contentLine(
+          `${padRight(result.postFriendlyName, 18)}within ${noise.withinJudgeVariance.toFixed(1).padStart(6)}` +
+            `  between ${between.padStart(6)}`,
+          width
+        )
+      );
+    }
+  }
+
+  // Judges whose cited quotes could not be found in the post they judged
+  const citations = countCitations(sortedResults.flatMap((r) => r.judgments));
+  if (citations.length > 0) {
+    lines.push(emptyLine(width));
+    lines.push(contentLine('QUOTE CHECK (cited passages found in the post)', width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const { judgeFriendlyName, verified, total } of citations) {
+      const missing = total - verified;
+      const note = missing > 0 ? `  ${missing} not found` : '';
+      lines.push(contentLine(`${padRight(judgeFriendlyName, 24)}${`${verified}/${total}`.padStart(7)}${note}`, width));
+    }
+  }
+
+  // Factual claims stated without support, per post
+  const checked = sortedResults.filter((r) => r.unsupportedClaims !== undefined);
+  if (checked.length > 0) {
+    lines.push(emptyLine(width));
+    lines.push(contentLine('CLAIM CHECK (unsupported claims, median per judgment)', width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const result of checked) {
+      const count = result.unsupportedClaims!;
+      const judged = result.judgments.filter((j) => j.claims).length;
+      lines.push(
+        contentLine(
+          `${padRight(result.postFriendlyName, 18)}${(Number.isInteger(count) ? String(count) : count.toFixed(1)).padStart(6)}` +
+            `   (${judged} judgment${judged === 1 ? '' : 's'})`,
+          width
+        )
+      );
+    }
+  }
+
+  // How closely each writer followed the house AP Style rules
+  const styled = (options.posts ?? []).filter((p) => p.apStyle);
+  if (styled.length > 0) {
+    lines.push(emptyLine(width));
+    lines.push(contentLine('AP STYLE (violations as written)', width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const post of styled) {
+      lines.push(contentLine(`${padRight(post.friendlyName, 18)}${describeApStyle(post.apStyle!)}`, width));
+    }
+  }
+
+  // Length and readability, and the hard limits that disqualified a post
+  const measured = (options.posts ?? []).filter((p) => p.readability);
+  if (measured.length > 0) {
+    lines.push(emptyLine(width));
+    lines.push(contentLine('READABILITY (words, read time, FK grade, sentence var)', width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const post of measured) {
+      const r = post.readability!;
+      lines.push(
+        contentLine(
+          `${padRight(post.friendlyName, 18)}${String(r.words).padStart(6)} w  ${r.readingMinutes.toFixed(1).padStart(4)} min` +
+            `  grade ${r.fleschKincaidGrade.toFixed(1).padStart(4)}  var ${r.sentenceLengthVariance.toFixed(1).padStart(5)}`,
+          width
+        )
+      );
+      for (const reason of post.disqualified ?? []) {
+        lines.push(contentLine(`  DQ: ${reason}`, width));
+      }
+    }
+  }
+
   // Empty line
   lines.push(emptyLine(width));
   
+  // Whether the leader beats each runner-up with the required probability
+  const { verdict } = options;
+  if (winner && verdict) {
+    lines.push(contentLine(`WINNER CONFIDENCE (outright win needs P >= ${verdict.level})`, width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const comparison of verdict.comparisons) {
+      const label = padRight(`P(beats ${comparison.postFriendlyName})`, 32);
+      const tie = verdict.tiedWith.includes(comparison.postContestantId) ? '  tie' : '';
+      lines.push(contentLine(`${label}${comparison.probability.toFixed(2).padStart(5)}${tie}`, width));
+    }
+    if (verdict.statisticalTie) {
+      const tied = sortedResults.filter(
+        (r) => r.postContestantId === verdict.leaderContestantId || verdict.tiedWith.includes(r.postContestantId)
+      );
+      lines.push(contentLine(`Statistical tie: ${tied.map((r) => r.postFriendlyName).join(', ')}`, width));
+    } else {
+      lines.push(contentLine(`Clear winner: ${winner.postFriendlyName}`, width));
+    }
+    lines.push(emptyLine(width));
+  }
+
   // Winner breakdown
   if (winner) {
-    lines.push(contentLine(`BREAKDOWN (Winner: ${winner.postFriendlyName})`, width));
+    const heading = verdict?.statisticalTie
+      ? `BREAKDOWN (Leader: ${winner.postFriendlyName}, statistical tie)`
+      : `BREAKDOWN (Winner: ${winner.postFriendlyName})`;
+    lines.push(contentLine(heading, width));
     lines.push(contentLine('-'.repeat(innerWidth - 2), width));
     
     // Show each criterion with weight and score
-    const criteria: (keyof JudgingCriteria)[] = ['narrative', 'structure', 'audienceFit', 'accuracy', 'aiDetection'];
-    
-    for (const criterion of criteria) {
-      const weight = WEIGHTS[criterion];
-      const score = Math.round(winner.averageScores[criterion]);
-      const name = formatCriterionName(criterion);
-      const line = `${padRight(name, 14)} (${weight}%)`.padEnd(22) + `${score}/100`;
+    for (const criterion of rubric.criteria) {
+      const score = Math.round(winner.averageScores[criterion.key] ?? 0);
+      const line =
+        `${padRight(criterion.name, 14)} (${criterion.weight}%)`.padEnd(22) +
+        (pairwise ? `${score}% won` : `${score}/100`);
       lines.push(contentLine(line, width));
     }
+  } else if (results.length > 0 && results.every((r) => r.disqualified)) {
+    lines.push(contentLine('No winner: every post broke a hard limit', width));
   } else {
     lines.push(contentLine('No results to display', width));
   }
@@ -185,6 +357,35 @@ export function renderSummary(options: RenderSummaryOptions): string {
   // Empty line
   lines.push(emptyLine(width));
   
+  // Self-preference: how each judge scored its own model's posts relative to the other judges
+  if (options.selfPreference) {
+    lines.push(contentLine(`SELF-PREFERENCE (own score vs other judges${pairwise ? ', win %' : ''})`, width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    if (options.selfPreference.length === 0) {
+      lines.push(contentLine('No judge scored its own model alongside others', width));
+    }
+    for (const entry of options.selfPreference) {
+      const delta = `${entry.delta >= 0 ? '+' : ''}${entry.delta.toFixed(1)}`.padStart(6);
+      const detail = entry.posts.map((p) => `${p.selfScore.toFixed(0)} vs ${p.otherJudgesScore.toFixed(0)}`).join(', ');
+      lines.push(contentLine(`${padRight(entry.judgeFriendlyName, 18)}${delta}  (${detail})`, width));
+    }
+    lines.push(emptyLine(width));
+  }
+
+  // Cost breakdown
+  if (usage && usage.total.calls > 0) {
+    lines.push(contentLine('COST', width));
+    lines.push(contentLine('-'.repeat(innerWidth - 2), width));
+    for (const [name, totals] of Object.entries(usage.byWriter)) {
+      lines.push(contentLine(formatUsageLine('Writer', name, totals), width));
+    }
+    for (const [name, totals] of Object.entries(usage.byJudge)) {
+      lines.push(contentLine(formatUsageLine('Judge', name, totals), width));
+    }
+    lines.push(contentLine(formatUsageLine('Total', '', usage.total), width));
+    lines.push(emptyLine(width));
+  }
+  
   // Output directory
   lines.push(contentLine(`Output: ${outputDir}`, width));
   
@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import type { AnchorPost, Calibration, CriterionCorrection, JudgeCalibration, Rubric } from '../types/index.js';
+
+// =============================================================================
+// Anchor Files
+// =============================================================================
+
+function validateAnchor(raw: unknown, index: number, rubric: Rubric, baseDir: string, source: string): AnchorPost {
+  const where = `anchor ${index + 1} in ${source}`;
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error(`Invalid ${where}: must be an object`);
+  }
+
+  const { id, file, content, scores } = raw as Record<string, unknown>;
+  if (typeof id !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(id)) {
+    throw new Error(`Invalid ${where}: "id" must be a slug such as "strong-essay"`);
+  }
+  if ((file === undefined) === (content === undefined)) {
+    throw new Error(`Invalid ${where}: set exactly one of "file" or "content"`);
+  }
+  if (file !== undefined && typeof file !== 'string') {
+    throw new Error(`Invalid ${where}: "file" must be a path relative to the anchors file`);
+  }
+  if (content !== undefined && (typeof content !== 'string' || content.trim().length === 0)) {
+    throw new Error(`Invalid ${where}: "content" must be a non-empty string`);
+  }
+  if (typeof scores !== 'object' || scores === null || Array.isArray(scores)) {
+    throw new Error(`Invalid ${where}: "scores" must map criterion keys to reference scores`);
+  }
+
+  const keys = new Set(rubric.criteria.map((c) => c.key));
+  const entries = Object.entries(scores as Record<string, unknown>);
+  if (entries.length === 0) {
+    throw new Error(`Invalid ${where}: "scores" needs at least one criterion`);
+  }
+  for (const [criterion, score] of entries) {
+    if (!keys.has(criterion)) {
+      throw new Error(`Invalid ${where}: "${criterion}" is not a criterion of the ${rubric.name} rubric`);
+    }
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 1 || score > 100) {
+      throw new Error(`Invalid ${where}: score for "${criterion}" must be between 1 and 100`);
+    }
+  }
+
+  let text = content as string | undefined;
+  if (typeof file === 'string') {
+    const resolved = path.resolve(baseDir, file);
+    try {
+      text = readFileSync(resolved, 'utf-8');
+    } catch (err) {
+      throw new Error(`Unable to read ${where} (${resolved}): ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return { id, content: text!, scores: Object.fromEntries(entries) as Record<string, number> };
+}
+
+/**
+ * Load an anchor library: `{ "anchors": [{ "id", "file" | "content", "scores": { criterion: 1-100 } }] }`.
+ * Anchor files are resolved relative to the JSON file; score keys must be criteria of the rubric.
+ * @throws Error if the file cannot be read or an anchor is invalid
+ */
+export function loadAnchorsFile(file: string, rubric: Rubric): AnchorPost[] {
+  const resolved = path.resolve(file);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Unable to load anchors ${resolved}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const anchors = (parsed as Record<string, unknown> | null)?.anchors;
+  if (!Array.isArray(anchors) || anchors.length === 0) {
+    throw new Error(`Invalid anchors ${resolved}: "anchors" must be a non-empty array`);
+  }
+
+  const validated = anchors.map((a, i) => validateAnchor(a, i, rubric, path.dirname(resolved), resolved));
+  const seen = new Set<string>();
+  for (const anchor of validated) {
+    if (seen.has(anchor.id)) {
+      throw new Error(`Invalid anchors ${resolved}: duplicate id "${anchor.id}"`);
+    }
+    seen.add(anchor.id);
+  }
+  return validated;
+}
+
+// =============================================================================
+// Calibration Files
+// =============================================================================
+
+function validateCorrection(raw: unknown, where: string): CriterionCorrection {
+  const { slope, intercept, anchors } = (raw ?? {}) as Record<string, unknown>;
+  if (typeof slope !== 'number' || !Number.isFinite(slope) || slope <= 0) {
+    throw new Error(`Invalid ${where}: "slope" must be a positive number`);
+  }
+  if (typeof intercept !== 'number' || !Number.isFinite(intercept)) {
+    throw new Error(`Invalid ${where}: "intercept" must be a number`);
+  }
+  if (typeof anchors !== 'number' || !Number.isInteger(anchors) || anchors < 1) {
+    throw new Error(`Invalid ${where}: "anchors" must be a positive integer`);
+  }
+  return { slope, intercept, anchors };
+}
+
+function validateJudge(raw: unknown, index: number, source: string): JudgeCalibration {
+  const where = `judge ${index + 1} in ${source}`;
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error(`Invalid ${where}: must be an object`);
+  }
+
+  const { modelId, friendlyName, params, criteria } = raw as Record<string, unknown>;
+  if (typeof modelId !== 'string' || modelId.length === 0) {
+    throw new Error(`Invalid ${where}: "modelId" must be a non-empty string`);
+  }
+  if (typeof friendlyName !== 'string') {
+    throw new Error(`Invalid ${where}: "friendlyName" must be a string`);
+  }
+  if (params !== undefined && (typeof params !== 'object' || params === null)) {
+    throw new Error(`Invalid ${where}: "params" must be an object`);
+  }
+  if (typeof criteria !== 'object' || criteria === null || Array.isArray(criteria)) {
+    throw new Error(`Invalid ${where}: "criteria" must map criterion keys to corrections`);
+  }
+
+  return {
+    modelId,
+    friendlyName,
+    ...(params ? { params: params as JudgeCalibration['params'] } : {}),
+    criteria: Object.fromEntries(
+      Object.entries(criteria).map(([key, c]) => [key, validateCorrection(c, `"${key}" of ${where}`)])
+    ),
+  };
+}
+
+/**
+ * Validate a parsed calibration file.
+ * @throws Error on a missing version, rubric or judge list, or a non-positive slope
+ */
+export function validateCalibration(raw: unknown, source: string): Calibration {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid calibration ${source}: root must be an object`);
+  }
+
+  const { version, rubric, anchors, judges, createdAt } = raw as Record<string, unknown>;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid calibration ${source}: "version" must be a positive integer`);
+  }
+  if (typeof rubric !== 'string' || rubric.length === 0) {
+    throw new Error(`Invalid calibration ${source}: "rubric" must name the rubric the anchors were scored against`);
+  }
+  if (!Array.isArray(anchors) || anchors.some((a) => typeof a !== 'string')) {
+    throw new Error(`Invalid calibration ${source}: "anchors" must be an array of anchor IDs`);
+  }
+  if (!Array.isArray(judges)) {
+    throw new Error(`Invalid calibration ${source}: "judges" must be an array`);
+  }
+
+  return {
+    version,
+    rubric,
+    anchors: anchors as string[],
+    judges: judges.map((j, i) => validateJudge(j, i, source)),
+    createdAt: new Date(typeof createdAt === 'string' ? createdAt : 0),
+  };
+}
+
+/**
+ * Load and validate a calibration file written by `writeoff calibrate`, recording where it came from.
+ * @throws Error if the file cannot be read or is not a valid calibration
+ */
+export function loadCalibrationFile(file: string): Calibration {
+  const resolved = path.resolve(file);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Unable to load calibration ${resolved}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { ...validateCalibration(parsed, resolved), file: resolved };
+}
+
+/**
+ * Version for a calibration about to be written to `file`: one past the version already there, else 1.
+ * @throws Error if a file exists but is not a valid calibration (so it is never silently overwritten)
+ */
+export function nextCalibrationVersion(file: string): number {
+  try {
+    readFileSync(path.resolve(file));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 1;
+    throw err;
+  }
+  return loadCalibrationFile(file).version + 1;
+}
+
+/**
+ * Write a calibration as pretty-printed JSON (without the load-time `file` field).
+ */
+export async function saveCalibrationFile(file: string, calibration: Calibration): Promise<void> {
+  const { file: _file, ...rest } = calibration;
+  await writeFile(path.resolve(file), `${JSON.stringify(rest, null, 2)}\n`, 'utf-8');
+}
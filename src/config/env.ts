@@ -51,6 +51,22 @@ export function getAnthropicApiKey(): string | undefined {
   return process.env.ANTHROPIC_API_KEY;
 }
 
+/**
+ * Get the base URL for the OpenAI-compatible provider (vLLM, llama.cpp server, Ollama, LM Studio).
+ * Example: "http://localhost:11434/v1"
+ */
+export function getOpenAICompatibleBaseUrl(): string | undefined {
+  return process.env.OPENAI_COMPATIBLE_BASE_URL;
+}
+
+/**
+ * Get the optional API key for the OpenAI-compatible provider.
+ * Most self-hosted servers ignore it.
+ */
+export function getOpenAICompatibleApiKey(): string | undefined {
+  return process.env.OPENAI_COMPATIBLE_API_KEY;
+}
+
 function parsePositiveIntEnv(name: string, defaultValue: number): number {
   const raw = process.env[name];
   if (!raw) return defaultValue;
@@ -80,6 +96,154 @@ export function getRetryMaxMs(): number {
   return parsePositiveIntEnv('WRITEOFF_RETRY_MAX_MS', 8000);
 }
 
+/**
+ * Record/replay mode for LLM calls: "off" (default), "record" or "replay".
+ */
+export function getCassetteMode(): 'off' | 'record' | 'replay' {
+  const raw = (process.env.WRITEOFF_CASSETTE_MODE ?? '').trim().toLowerCase();
+  if (raw === '' || raw === 'off') return 'off';
+  if (raw === 'record' || raw === 'replay') return raw;
+  throw new Error(`Invalid WRITEOFF_CASSETTE_MODE "${raw}". Expected off, record or replay.`);
+}
+
+/**
+ * Path of the cassette file used by record/replay mode.
+ */
+export function getCassetteFile(): string {
+  return process.env.WRITEOFF_CASSETTE_FILE || './writeoff-cassette.json';
+}
+
+/**
+ * Whether the on-disk response cache is enabled (opt-in via WRITEOFF_CACHE=1).
+ */
+export function isResponseCacheEnabled(): boolean {
+  const raw = (process.env.WRITEOFF_CACHE ?? '').trim().toLowerCase();
+  return raw === '1' || raw === 'true' || raw === 'yes';
+}
+
+/**
+ * Directory for cached responses.
+ */
+export function getResponseCacheDir(): string {
+  return process.env.WRITEOFF_CACHE_DIR || './.writeoff-cache';
+}
+
+/**
+ * Time-to-live for cached responses in milliseconds (WRITEOFF_CACHE_TTL_HOURS, default 168).
+ */
+export function getResponseCacheTtlMs(): number {
+  return parsePositiveIntEnv('WRITEOFF_CACHE_TTL_HOURS', 168) * 60 * 60 * 1000;
+}
+
+/**
+ * Optional JSON file with per-model price overrides (USD per 1M tokens).
+ */
+export function getPricesFile(): string | undefined {
+  return process.env.WRITEOFF_PRICES_FILE || undefined;
+}
+
+/**
+ * Optional JSON rubric file used when --rubric is not given (defaults to the built-in blog rubric).
+ */
+export function getRubricFile(): string | undefined {
+  return process.env.WRITEOFF_RUBRIC || undefined;
+}
+
+/**
+ * Criterion standard deviation across judges at which a post is flagged for strong disagreement.
+ */
+export function getDisagreementStdDev(): number {
+  return parsePositiveIntEnv('WRITEOFF_DISAGREEMENT_STDDEV', 15);
+}
+
+/**
+ * Number of bootstrap resamples for confidence intervals (WRITEOFF_BOOTSTRAP_ITERATIONS, default 2000).
+ */
+export function getBootstrapIterations(): number {
+  return parsePositiveIntEnv('WRITEOFF_BOOTSTRAP_ITERATIONS', 2000);
+}
+
+/**
+ * Confidence level for score intervals and for declaring an outright winner
+ * (WRITEOFF_CONFIDENCE_LEVEL, default 0.95).
+ */
+export function getConfidenceLevel(): number {
+  const raw = process.env.WRITEOFF_CONFIDENCE_LEVEL;
+  if (!raw) return 0.95;
+  const parsed = Number.parseFloat(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0.5 || parsed >= 1) {
+    throw new Error(`Invalid WRITEOFF_CONFIDENCE_LEVEL "${raw}". Expected a number between 0.5 and 1.`);
+  }
+  return parsed;
+}
+
+/**
+ * Policy for judges grading posts written by the same model (WRITEOFF_SELF_JUDGING, default "include").
+ */
+export function getSelfJudgingPolicy(): 'include' | 'exclude' | 'report' {
+  const raw = (process.env.WRITEOFF_SELF_JUDGING ?? '').trim().toLowerCase();
+  if (raw === '') return 'include';
+  if (raw === 'include' || raw === 'exclude' || raw === 'report') return raw;
+  throw new Error(`Invalid WRITEOFF_SELF_JUDGING "${raw}". Expected include, exclude or report.`);
+}
+
+/**
+ * What to do with judge quotes that are not found in the post (WRITEOFF_UNVERIFIED_QUOTES, default "flag").
+ */
+export function getUnverifiedQuotePolicy(): 'flag' | 'drop' {
+  const raw = (process.env.WRITEOFF_UNVERIFIED_QUOTES ?? '').trim().toLowerCase();
+  if (raw === '') return 'flag';
+  if (raw === 'flag' || raw === 'drop') return raw;
+  throw new Error(`Invalid WRITEOFF_UNVERIFIED_QUOTES "${raw}". Expected flag or drop.`);
+}
+
+/**
+ * Optional calibration file (from `writeoff calibrate`) applied when --calibration is not given.
+ */
+export function getCalibrationFile(): string | undefined {
+  return process.env.WRITEOFF_CALIBRATION || undefined;
+}
+
+/**
+ * How judges' scores are combined when --aggregation is not given (WRITEOFF_AGGREGATION, default "mean").
+ */
+export function getAggregationStrategy(): 'mean' | 'median' | 'trimmed' | 'weighted' {
+  const raw = (process.env.WRITEOFF_AGGREGATION ?? '').trim().toLowerCase();
+  if (raw === '') return 'mean';
+  if (raw === 'mean' || raw === 'median' || raw === 'trimmed' || raw === 'weighted') return raw;
+  throw new Error(`Invalid WRITEOFF_AGGREGATION "${raw}". Expected mean, median, trimmed or weighted.`);
+}
+
+/**
+ * Hard readability limits (WRITEOFF_LIMITS), e.g. "maxReadingMinutes=8,maxGrade=12".
+ * Parsed with parseReadabilityLimits; undefined when unset.
+ */
+export function getReadabilityLimits(): string | undefined {
+  return process.env.WRITEOFF_LIMITS?.trim() || undefined;
+}
+
+/**
+ * Per-judge trust weights for the weighted aggregation strategy (WRITEOFF_JUDGE_WEIGHTS).
+ * Format: "judge=weight,judge=weight", where a judge is a friendly name, model ID or "provider:model-id".
+ * @throws Error on malformed entries or weights that are not positive numbers
+ */
+export function getJudgeWeights(): Record<string, number> {
+  const weights: Record<string, number> = {};
+  const raw = process.env.WRITEOFF_JUDGE_WEIGHTS ?? '';
+
+  for (const entry of raw.split(',').map((e) => e.trim()).filter((e) => e.length > 0)) {
+    const separator = entry.lastIndexOf('=');
+    const judge = entry.slice(0, separator).trim();
+    const weight = Number(entry.slice(separator + 1));
+    if (separator <= 0 || !Number.isFinite(weight) || weight <= 0) {
+      throw new Error(`Invalid WRITEOFF_JUDGE_WEIGHTS entry "${entry}". Expected judge=weight with a positive weight.`);
+    }
+    weights[judge] = weight;
+  }
+
+  return weights;
+}
+
 /**
  * Parse a comma-separated model string into an array.
  * Format: "provider:model-id,provider:model-id"
@@ -112,7 +276,17 @@ export function getJudgeModels(): string[] {
 }
 
 /**
- * Validate that at least one API key is configured.
+ * Get judge models that should skip structured (schema-constrained) output.
+ * Uses the same "provider:model-id" format as JUDGE_MODELS. Defaults to none.
+ */
+export function getTextOutputJudgeModels(): string[] {
+  return parseModels(process.env.WRITEOFF_TEXT_JUDGE_MODELS, []);
+}
+
+/**
+ * Validate that at least one provider is configured: an API key for a hosted
+ * provider, or a base URL for the OpenAI-compatible provider.
+ * Replay mode needs no provider at all.
  * Returns validation result with list of missing keys.
  */
 export function validateApiKeys(): { valid: boolean; missing: string[] } {
@@ -127,7 +301,11 @@ export function validateApiKeys(): { valid: boolean; missing: string[] } {
   }
 
   return {
-    valid: missing.length < 2, // At least one key must be present
+    // At least one key must be present, unless a self-hosted endpoint is configured
+    valid:
+      missing.length < 2 ||
+      Boolean(process.env.OPENAI_COMPATIBLE_BASE_URL) ||
+      getCassetteMode() === 'replay',
     missing,
   };
 }
@@ -1,4 +1,4 @@
-import { ModelConfig } from '../types/index.js';
+import { ModelConfig, GenerationParams } from '../types/index.js';
 
 // =============================================================================
 // Model ID Mappings
@@ -123,11 +123,119 @@ function formatModelName(name: string): string {
     .join(' ');
 }
 
+// =============================================================================
+// Generation Params
+// =============================================================================
+
+const PARAM_ALIASES: Record<string, keyof GenerationParams> = {
+  temperature: 'temperature',
+  temp: 'temperature',
+  topp: 'topP',
+  maxtokens: 'maxTokens',
+  seed: 'seed',
+  reasoningeffort: 'reasoningEffort',
+  reasoning: 'reasoningEffort',
+  effort: 'reasoningEffort',
+};
+
+function parseParamNumber(name: string, raw: string, modelStr: string): number {
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) {
+    throw new Error(`Invalid value "${raw}" for "${name}" in model string "${modelStr}". Expected a number.`);
+  }
+  return value;
+}
+
+/**
+ * Parse a query-string style params suffix, e.g. "temperature=0&seed=7".
+ * @throws Error on unknown keys or out-of-range values
+ */
+export function parseGenerationParams(query: string, modelStr: string): GenerationParams {
+  const params: GenerationParams = {};
+
+  for (const pair of query.split('&')) {
+    if (!pair.trim()) continue;
+
+    const eq = pair.indexOf('=');
+    if (eq === -1) {
+      throw new Error(`Invalid parameter "${pair}" in model string "${modelStr}". Expected key=value.`);
+    }
+
+    const rawKey = pair.slice(0, eq).trim();
+    const raw = pair.slice(eq + 1).trim();
+    const key = PARAM_ALIASES[rawKey.toLowerCase().replace(/[^a-z]/g, '')];
+
+    switch (key) {
+      case 'temperature': {
+        const value = parseParamNumber(rawKey, raw, modelStr);
+        if (value < 0 || value > 2) {
+          throw new Error(`temperature must be between 0 and 2 in model string "${modelStr}"`);
+        }
+        params.temperature = value;
+        break;
+      }
+      case 'topP': {
+        const value = parseParamNumber(rawKey, raw, modelStr);
+        if (value <= 0 || value > 1) {
+          throw new Error(`topP must be greater than 0 and at most 1 in model string "${modelStr}"`);
+        }
+        params.topP = value;
+        break;
+      }
+      case 'maxTokens': {
+        const value = parseParamNumber(rawKey, raw, modelStr);
+        if (!Number.isInteger(value) || value < 1) {
+          throw new Error(`maxTokens must be a positive integer in model string "${modelStr}"`);
+        }
+        params.maxTokens = value;
+        break;
+      }
+      case 'seed': {
+        const value = parseParamNumber(rawKey, raw, modelStr);
+        if (!Number.isInteger(value)) {
+          throw new Error(`seed must be an integer in model string "${modelStr}"`);
+        }
+        params.seed = value;
+        break;
+      }
+      case 'reasoningEffort': {
+        const value = raw.toLowerCase();
+        if (value !== 'low' && value !== 'medium' && value !== 'high') {
+          throw new Error(`reasoningEffort must be low, medium or high in model string "${modelStr}"`);
+        }
+        params.reasoningEffort = value;
+        break;
+      }
+      default:
+        throw new Error(
+          `Unknown parameter "${rawKey}" in model string "${modelStr}". ` +
+            `Supported: temperature, topP, maxTokens, seed, reasoningEffort`
+        );
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Format generation params for display, e.g. "temperature=0, seed=7".
+ */
+export function formatGenerationParams(params: GenerationParams): string {
+  return Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
+
 /**
  * Parse a model string in "provider:model-id" format into a ModelConfig.
- * @param modelStr - String like "openrouter:google/gemini-2.5-flash" or "anthropic:claude-opus-4-0520"
- * @returns ModelConfig with provider, modelId, and friendlyName
- * @throws Error if the format is invalid or provider is unknown
+ * An optional "?key=value&key=value" suffix sets generation params, and the
+ * params are appended to the friendly name so variants are distinguishable.
+ * @param modelStr - String like "openrouter:google/gemini-2.5-flash", "anthropic:claude-opus-4-0520",
+ *   "openai-compatible:llama3.1:8b" (model IDs may themselves contain colons),
+ *   or "openrouter:openai/gpt-5.2?temperature=0.9&seed=7"
+ * @returns ModelConfig with provider, modelId, friendlyName and optional params
+ * @throws Error if the format is invalid, the provider is unknown or a param is invalid
  */
 export function parseModelString(modelStr: string): ModelConfig {
   const trimmed = modelStr.trim();
@@ -138,25 +246,34 @@ export function parseModelString(modelStr: string): ModelConfig {
     );
   }
 
-  const colonIndex = trimmed.indexOf(':');
-  const provider = trimmed.slice(0, colonIndex).toLowerCase();
-  const modelId = trimmed.slice(colonIndex + 1);
+  const queryIndex = trimmed.indexOf('?');
+  const base = queryIndex === -1 ? trimmed : trimmed.slice(0, queryIndex);
+  const query = queryIndex === -1 ? '' : trimmed.slice(queryIndex + 1);
+
+  const colonIndex = base.indexOf(':');
+  const provider = base.slice(0, colonIndex).toLowerCase();
+  const modelId = base.slice(colonIndex + 1);
 
   if (!modelId) {
     throw new Error(`Invalid model string: "${modelStr}". Model ID cannot be empty.`);
   }
 
-  if (provider !== 'openrouter' && provider !== 'anthropic') {
+  if (provider !== 'openrouter' && provider !== 'anthropic' && provider !== 'openai-compatible') {
     throw new Error(
       `Unknown provider "${provider}" in model string "${modelStr}". ` +
-        `Supported providers: openrouter, anthropic`
+        `Supported providers: openrouter, anthropic, openai-compatible`
     );
   }
 
+  const params = parseGenerationParams(query, modelStr);
+  const hasParams = Object.keys(params).length > 0;
+  const friendlyName = getFriendlyName(modelId);
+
   return {
     provider,
     modelId,
-    friendlyName: getFriendlyName(modelId),
+    friendlyName: hasParams ? `${friendlyName} (${formatGenerationParams(params)})` : friendlyName,
+    ...(hasParams ? { params } : {}),
   };
 }
 
@@ -168,3 +285,62 @@ export function parseModelString(modelStr: string): ModelConfig {
 export function parseModelList(modelStrings: string[]): ModelConfig[] {
   return modelStrings.map(parseModelString);
 }
+
+// =============================================================================
+// Contestants
+// =============================================================================
+
+/**
+ * Slugify a display name for use as an ID or filename
+ * Example: "GPT 5.2 (temperature=0.9)" -> "gpt-5-2-temperature-0-9"
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Get the contestant ID for a writer model, falling back to its slugified friendly name.
+ */
+export function getContestantId(model: ModelConfig): string {
+  return model.contestantId ?? slugify(model.friendlyName);
+}
+
+/**
+ * Make friendly names unique by suffixing repeats with "#n".
+ * Example: ["GPT 5.2", "GPT 5.2"] -> ["GPT 5.2 #1", "GPT 5.2 #2"]
+ */
+export function disambiguateFriendlyNames(models: ModelConfig[]): ModelConfig[] {
+  const totals = new Map<string, number>();
+  for (const model of models) {
+    totals.set(model.friendlyName, (totals.get(model.friendlyName) ?? 0) + 1);
+  }
+
+  const seen = new Map<string, number>();
+  return models.map((model) => {
+    if ((totals.get(model.friendlyName) ?? 0) < 2) return model;
+    const n = (seen.get(model.friendlyName) ?? 0) + 1;
+    seen.set(model.friendlyName, n);
+    return { ...model, friendlyName: `${model.friendlyName} #${n}` };
+  });
+}
+
+/**
+ * Prepare writer models as contestants: unique friendly names and unique contestant IDs,
+ * so the same model can compete several times without merging scores or overwriting files.
+ */
+export function assignContestants(models: ModelConfig[]): ModelConfig[] {
+  const used = new Set<string>();
+
+  return disambiguateFriendlyNames(models).map((model) => {
+    const base = slugify(model.friendlyName) || 'contestant';
+    let contestantId = base;
+    for (let n = 2; used.has(contestantId); n++) {
+      contestantId = `${base}-${n}`;
+    }
+    used.add(contestantId);
+    return { ...model, contestantId };
+  });
+}
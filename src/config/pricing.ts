@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { getPricesFile } from './env.js';
+import type { ModelConfig } from '../types/index.js';
+
+// =============================================================================
+// Price Table
+// =============================================================================
+
+/**
+ * Price per million tokens in USD
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Default prices keyed by model ID (USD per 1M tokens).
+ * List prices change often; override them with WRITEOFF_PRICES_FILE rather than trusting these.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google/gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'moonshotai/kimi-k2': { input: 0.6, output: 2.5 },
+  'moonshotai/kimi-k2-thinking': { input: 0.6, output: 2.5 },
+  'openai/gpt-5.2': { input: 1.75, output: 14 },
+  'anthropic/claude-opus-4.5': { input: 5, output: 25 },
+  'claude-opus-4-0520': { input: 15, output: 75 },
+};
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.input === 'number' &&
+    Number.isFinite(record.input) &&
+    record.input >= 0 &&
+    typeof record.output === 'number' &&
+    Number.isFinite(record.output) &&
+    record.output >= 0
+  );
+}
+
+/**
+ * Load the price table: defaults merged with the optional WRITEOFF_PRICES_FILE overrides.
+ * The override file maps model IDs (or "provider:model-id") to { "input": n, "output": n }.
+ * @throws Error if the override file cannot be read or has invalid entries
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+  if (cachedPrices) return cachedPrices;
+
+  const prices: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICES };
+  const file = getPricesFile();
+
+  if (file) {
+    const resolved = path.resolve(file);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(resolved, 'utf-8'));
+    } catch (err) {
+      throw new Error(`Unable to load price file ${resolved}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Invalid price file ${resolved}: root must be an object`);
+    }
+
+    for (const [modelId, price] of Object.entries(parsed)) {
+      if (!isModelPrice(price)) {
+        throw new Error(
+          `Invalid price for "${modelId}" in ${resolved}: expected { "input": number, "output": number }`
+        );
+      }
+      prices[modelId] = price;
+    }
+  }
+
+  cachedPrices = prices;
+  return prices;
+}
+
+/**
+ * Estimate the USD cost of a call, or undefined if the model has no price entry.
+ * A "provider:model-id" entry takes precedence over a bare model ID.
+ */
+export function estimateCost(
+  config: ModelConfig,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined {
+  const prices = getModelPrices();
+  const price = prices[`${config.provider}:${config.modelId}`] ?? prices[config.modelId];
+  if (!price) return undefined;
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,42 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { ReferenceDocument } from '../types/index.js';
+
+/**
+ * Load reference documents from a comma-separated list of files (as given to --references).
+ * Each document is named by its path as written, so the models can tell them apart.
+ * @throws Error if a file cannot be read, is empty or is listed twice
+ */
+export function loadReferenceFiles(list: string): ReferenceDocument[] {
+  const files = list.split(',').map((f) => f.trim()).filter((f) => f.length > 0);
+  if (files.length === 0) {
+    throw new Error('--references needs at least one file');
+  }
+
+  const seen = new Set<string>();
+  return files.map((file) => {
+    const resolved = path.resolve(file);
+    if (seen.has(resolved)) {
+      throw new Error(`Reference ${file} is listed more than once`);
+    }
+    seen.add(resolved);
+
+    let content: string;
+    try {
+      content = readFileSync(resolved, 'utf-8').trim();
+    } catch (err) {
+      throw new Error(`Unable to load reference ${resolved}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (content.length === 0) {
+      throw new Error(`Reference ${resolved} is empty`);
+    }
+    return { name: file, content };
+  });
+}
+
+/**
+ * One-line description, e.g. "docs/spec.md, notes.txt", or "none".
+ */
+export function describeReferences(references: ReferenceDocument[] | undefined): string {
+  return references && references.length > 0 ? references.map((r) => r.name).join(', ') : 'none';
+}
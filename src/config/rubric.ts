@@ -0,0 +1,197 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { getRubricFile } from './env.js';
+import { CRITERIA_WEIGHTS } from '../types/index.js';
+import type { Rubric, RubricCriterion } from '../types/index.js';
+
+// =============================================================================
+// Default Rubric
+// =============================================================================
+
+const AI_DETECTION_DESCRIPTION = `Does the writing feel natural and human? Score LOWER if you detect these common AI writing patterns.
+
+The most obvious tell is **excessive em dashes**. LLMs lean on em dashes for parenthetical asides because they're trained on heavily edited prose. Human writers use them occasionally, but AI scatters them everywhere. One or two in a post is fine; five or more is a red flag. Commas, semicolons, or even parentheses are what most people actually reach for.
+
+Watch also for **sweeping generalizations that claim universal experience**. Phrases like "Every founder knows..." or "We've all been there" or "Anyone who's worked in sales understands..." are attempts to build rapport without earning it. Real writers either get specific about their own experience or acknowledge that not everyone shares it. This false universality is a shortcut LLMs take because they can't draw on actual lived experience.
+
+**Phrase-turning and clever reversals** are another giveaway. Things like "It's not X, it's Y" or chiasmus constructions ("Work to live, don't live to work") or mirror phrases that flip concepts for rhetorical effect. LLMs overuse these because they pattern-match to "clever" writing, but real people don't talk in fortune cookies.
+
+Then there are the **section opener clichés** that feel like throat-clearing: "Here's the bottom line," "Let me put it to you straight," "Here's the thing," "The truth is...," "Here's where it gets interesting," "Let's break down..." These are filler phrases that signal the writer (or model) doesn't know how to transition naturally between ideas.
+
+Beyond specific phrases, **structural uniformity** is suspicious. Perfectly symmetrical lists (exactly 6 steps, then 6 risks, then 6 tips), formulaic problem-then-solution-then-implementation arcs, every section following the same internal pattern. Real blog posts are messier because real thinking is messier.
+
+A related smell is **terseness without transitions**. AI-generated content often moves from point to point without any connective tissue, just boom-boom-boom through a checklist. Human writers meander a bit, circle back, use phrases like "which reminds me" or "but here's the weird part." The absence of those organic transitions makes content feel like it was assembled rather than written.
+
+Finally, watch for **generic motivational closings**, confident statistics without any source context, and a suspicious absence of personal anecdotes or admitted mistakes.
+
+**Signs of authentic human writing (score HIGHER):**
+- Admitted mistakes or lessons learned with real specifics
+- Numbers with measurement context ("from our Loom analytics over 3 months")
+- Idiosyncratic opinions or contrarian takes that might alienate some readers
+- Personal anecdotes with concrete details (names, places, specific moments)
+- Asymmetric structure that serves the content rather than a template
+- Organic transitions and occasional tangents that get reined back in`;
+
+/**
+ * The built-in blog rubric, used unless --rubric or WRITEOFF_RUBRIC selects another one.
+ */
+export const DEFAULT_RUBRIC: Rubric = {
+  name: 'blog',
+  criteria: [
+    {
+      key: 'narrative',
+      name: 'Narrative Flow',
+      weight: CRITERIA_WEIGHTS.narrative,
+      description:
+        'Does the post tell a compelling story? Are transitions smooth? Does it maintain reader interest throughout?',
+      aliases: ['flow'],
+    },
+    {
+      key: 'structure',
+      name: 'Structure',
+      weight: CRITERIA_WEIGHTS.structure,
+      description:
+        'Is the post well-organized? Does it have a clear introduction, body, and conclusion? Is the length appropriate?',
+    },
+    {
+      key: 'audienceFit',
+      name: 'Audience Fit',
+      weight: CRITERIA_WEIGHTS.audienceFit,
+      description:
+        'Is the content appropriate for the target audience? Is the tone consistent? Is it both entertaining and educational?',
+      aliases: ['audience'],
+    },
+    {
+      key: 'accuracy',
+      name: 'Accuracy',
+      weight: CRITERIA_WEIGHTS.accuracy,
+      description:
+        'Are claims grounded and non-misleading? Penalize exaggeration and invented specifics presented as fact. If the post uses an invented or exaggerated example, it must clearly label it as hypothetical (e.g., "Hypothetical:" / "Imagine...") and keep it realistic.',
+    },
+    {
+      key: 'aiDetection',
+      name: 'AI Detection',
+      weight: CRITERIA_WEIGHTS.aiDetection,
+      description: AI_DETECTION_DESCRIPTION,
+      aliases: ['ai', 'aiFlag'],
+    },
+  ],
+};
+
+// =============================================================================
+// Rubric Files
+// =============================================================================
+
+/**
+ * Normalize a criterion key, name or alias for lenient matching ("Audience Fit" -> "audiencefit").
+ */
+export function normalizeCriterionLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function validateCriterion(raw: unknown, index: number, source: string): RubricCriterion {
+  const where = `criterion ${index + 1} in ${source}`;
+  if (typeof raw !== 'object' || raw === null) {
+    throw new Error(`Invalid ${where}: must be an object`);
+  }
+
+  const record = raw as Record<string, unknown>;
+  const { key, name, weight, description, aliases } = record;
+
+  if (typeof key !== 'string' || !/^[A-Za-z][A-Za-z0-9]*$/.test(key)) {
+    throw new Error(`Invalid ${where}: "key" must be an identifier such as "codeSamples"`);
+  }
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new Error(`Invalid ${where}: "name" must be a non-empty string`);
+  }
+  if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+    throw new Error(`Invalid ${where}: "weight" must be a positive number`);
+  }
+  if (typeof description !== 'string' || description.trim().length === 0) {
+    throw new Error(`Invalid ${where}: "description" must be a non-empty string`);
+  }
+  if (aliases !== undefined && (!Array.isArray(aliases) || aliases.some((a) => typeof a !== 'string'))) {
+    throw new Error(`Invalid ${where}: "aliases" must be an array of strings`);
+  }
+
+  return { key, name: name.trim(), weight, description: description.trim(), aliases: aliases as string[] | undefined };
+}
+
+/**
+ * Validate a parsed rubric definition.
+ * @throws Error on missing fields, duplicate keys or aliases, or weights that do not sum to 100
+ */
+export function validateRubric(raw: unknown, source: string): Rubric {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid rubric ${source}: root must be an object`);
+  }
+
+  const record = raw as Record<string, unknown>;
+  if (!Array.isArray(record.criteria) || record.criteria.length === 0) {
+    throw new Error(`Invalid rubric ${source}: "criteria" must be a non-empty array`);
+  }
+
+  const criteria = record.criteria.map((c, i) => validateCriterion(c, i, source));
+
+  // Every key, name and alias must resolve to exactly one criterion.
+  const labels = new Map<string, string>();
+  for (const criterion of criteria) {
+    for (const label of [criterion.key, criterion.name, ...(criterion.aliases ?? [])]) {
+      const normalized = normalizeCriterionLabel(label);
+      const owner = labels.get(normalized);
+      if (owner !== undefined && owner !== criterion.key) {
+        throw new Error(`Invalid rubric ${source}: "${label}" is ambiguous between "${owner}" and "${criterion.key}"`);
+      }
+      labels.set(normalized, criterion.key);
+    }
+  }
+
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (Math.abs(totalWeight - 100) > 0.01) {
+    throw new Error(`Invalid rubric ${source}: weights must sum to 100 (got ${totalWeight})`);
+  }
+
+  const name = typeof record.name === 'string' && record.name.trim() ? record.name.trim() : path.basename(source, '.json');
+  return { name, criteria };
+}
+
+/**
+ * Load and validate a rubric JSON file.
+ * @throws Error if the file cannot be read or is not a valid rubric
+ */
+export function loadRubricFile(file: string): Rubric {
+  const resolved = path.resolve(file);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(resolved, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Unable to load rubric ${resolved}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateRubric(parsed, resolved);
+}
+
+// =============================================================================
+// Active Rubric
+// =============================================================================
+
+let activeRubric: Rubric = DEFAULT_RUBRIC;
+
+/**
+ * Select the rubric for this process: the --rubric file, else WRITEOFF_RUBRIC, else the default.
+ */
+export function selectRubric(file?: string): Rubric {
+  const source = file ?? getRubricFile();
+  activeRubric = source ? loadRubricFile(source) : DEFAULT_RUBRIC;
+  return activeRubric;
+}
+
+/**
+ * Use an already-loaded rubric (e.g. the one recorded in a saved session).
+ */
+export function setActiveRubric(rubric: Rubric): void {
+  activeRubric = rubric;
+}
+
+export function getActiveRubric(): Rubric {
+  return activeRubric;
+}
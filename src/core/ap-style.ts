@@ -0,0 +1,229 @@
+/**
+ * AP Style checker
+ * Verifies the AP rules the writer prompt asks for (no Oxford comma, numbers one through
+ * nine spelled out, "%" not "percent", "more than" not "over" with numbers, no ordinals in
+ * dates, AP state abbreviations) and rewrites the violations that have exactly one fix.
+ */
+
+import type { ApStyleReport, ApStyleViolation, WriterResult } from '../types/index.js';
+import { forEachProseLine } from './lint.js';
+
+interface ApStyleRule {
+  id: string;
+  /** Global regular expression */
+  pattern: RegExp;
+  message: (match: RegExpMatchArray) => string;
+  /** The rewrite, or undefined when the match needs a human */
+  replace?: (match: RegExpMatchArray, line: string) => string | undefined;
+  /** Matches the rule allows after all (e.g. a list marker "1.") */
+  allow?: (match: RegExpMatchArray, line: string) => boolean;
+}
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+const MONTHS =
+  'January|February|March|April|May|June|July|August|September|October|November|December|' +
+  'Jan\\.|Feb\\.|Aug\\.|Sept\\.|Oct\\.|Nov\\.|Dec\\.';
+
+// Postal codes and their AP forms (eight states are always spelled out). OK is left out: "Yes, OK" is too common.
+const AP_STATES: Record<string, string> = {
+  AL: 'Ala.', AK: 'Alaska', AZ: 'Ariz.', AR: 'Ark.', CA: 'Calif.', CO: 'Colo.', CT: 'Conn.', DE: 'Del.',
+  FL: 'Fla.', GA: 'Ga.', HI: 'Hawaii', ID: 'Idaho', IL: 'Ill.', IN: 'Ind.', IA: 'Iowa', KS: 'Kan.',
+  KY: 'Ky.', LA: 'La.', ME: 'Maine', MD: 'Md.', MA: 'Mass.', MI: 'Mich.', MN: 'Minn.', MS: 'Miss.',
+  MO: 'Mo.', MT: 'Mont.', NE: 'Neb.', NV: 'Nev.', NH: 'N.H.', NJ: 'N.J.', NM: 'N.M.', NY: 'N.Y.',
+  NC: 'N.C.', ND: 'N.D.', OH: 'Ohio', OR: 'Ore.', PA: 'Pa.', RI: 'R.I.', SC: 'S.C.', SD: 'S.D.',
+  TN: 'Tenn.', TX: 'Texas', UT: 'Utah', VT: 'Vt.', VA: 'Va.', WA: 'Wash.', WV: 'W.Va.', WI: 'Wis.',
+  WY: 'Wyo.',
+};
+
+// Words after a single digit that call for a numeral in AP (ages, percentages, money, measurements, times)
+const NUMERAL_UNITS =
+  /^\s*(?:percent\b|per cent\b|years?[- ]old\b|million\b|billion\b|trillion\b|[ap]\.m\.|[ap]m\b|degrees?\b|inch(?:es)?\b|in\.|f(?:ee|oo)t\b|ft\b|yards?\b|[cmk]?m\b|miles?\b|mph\b|k?g\b|lbs?\b|pounds\b|ounces\b|oz\b|[kmgt]b\b|[gm]hz\b|dollars\b|cents\b|to \d|or \d|and \d)/i;
+
+const TIME_SPAN = /^ \S+ (?:seconds|minutes|hours|days|weeks|months|years|decades|centuries)\b/;
+
+// Words before a single digit that make it a designation ("Step 3", "version 2") rather than a count
+const DESIGNATORS =
+  /\b(?:step|chapter|part|page|figure|fig\.|table|section|version|v\.|no\.|number|level|phase|season|episode|round|room|grade|size|act|item|option|tier)\s+$/i;
+
+// Interjections and asides set off by commas ("He said, well, maybe, and left") that are not list items
+const ASIDES =
+  /^(?:well|oh|ah|yes|yeah|no|nope|maybe|perhaps|probably|however|indeed|anyway|so|then|now|okay|ok|sure|right|say|um|uh|er|like|actually|honestly|frankly|of course|you know|I mean|I think|I guess|for example|for instance|in fact|that is)$/i;
+
+// A clause ending in a verb of saying introduces speech, not a list
+const SPEECH_TAG = /\b(?:said|says|say|asked|asks|replied|replies|added|adds|wrote|writes|told \w+)$/i;
+
+/**
+ * Whether the commas before an ", and"/", or" set off at least two short list items (the last
+ * item follows the conjunction), rather than a speech tag or interjections.
+ */
+function isSeries(line: string, commaIndex: number): boolean {
+  const segments = line.slice(0, commaIndex).split(/,\s+/);
+  const items = segments.slice(1).map((s) => s.trim());
+  const lead = segments[0].trim();
+  if (items.length < 1 || SPEECH_TAG.test(lead) || ASIDES.test(lead.split(/\s+/).pop() ?? '')) return false;
+  return items.every((item) => item.split(/\s+/).length <= 4 && !ASIDES.test(item));
+}
+
+function atSentenceStart(before: string): boolean {
+  return /(?:^|[.!?]["”’)]?)\s*$/.test(before) || /^\s*(?:#+|[-*+>]|\d+[.)])\s+$/.test(before);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+const RULES: ApStyleRule[] = [
+  {
+    id: 'oxford-comma',
+    pattern: /(?<=\b[\w'’-]+(?: [\w'’-]+){0,3}, [\w'’-]+(?: [\w'’-]+){0,3}),(?= (?:and|or) [\w'’-])/g,
+    message: () => 'Serial (Oxford) comma before the last item of a series',
+    allow: (m, line) => !isSeries(line, m.index!),
+  },
+  {
+    id: 'number',
+    pattern: /(?<![\w$€£.,:/#-])[1-9](?![\w%°-]|[.,:/]\d)/g,
+    message: (m) => `Spell out "${m[0]}" as "${NUMBER_WORDS[Number(m[0])]}"`,
+    allow: (m, line) => {
+      const before = line.slice(0, m.index);
+      const after = line.slice(m.index! + m[0].length);
+      if (/^\s*$/.test(before) && /^[.)]/.test(after)) return true;
+      if (new RegExp(`\\b(?:${MONTHS}) $`).test(before) || DESIGNATORS.test(before)) return true;
+      // Ranges follow their larger number ("5 to 10"), and a capitalized word names something ("Python 3")
+      if (NUMERAL_UNITS.test(after) || /\d\s*(?:to|or|and|-|–)\s*$/.test(before)) return true;
+      return /\b[A-Z][\w.+-]*\s+$/.test(before);
+    },
+    replace: (m, line) => {
+      const word = NUMBER_WORDS[Number(m[0])];
+      return atSentenceStart(line.slice(0, m.index)) ? capitalize(word) : word;
+    },
+  },
+  {
+    id: 'percent',
+    pattern: new RegExp(`\\b(\\d+(?:\\.\\d+)?|${NUMBER_WORDS.join('|')})[ -]?(?:percent|per cent)\\b`, 'gi'),
+    message: () => 'Use the % sign',
+    replace: (m) => {
+      const index = NUMBER_WORDS.indexOf(m[1].toLowerCase());
+      return `${index === -1 ? m[1] : index}%`;
+    },
+  },
+  {
+    id: 'more-than',
+    pattern: new RegExp(
+      `\\b[Oo]ver(?= (?:\\$?\\d|(?:${NUMBER_WORDS.slice(1).join('|')}|a (?:dozen|hundred|thousand|million|billion)|` +
+        `dozens|hundreds|thousands|millions|billions)\\b))(?! (?:19|20)\\d\\d(?:[,.;:!?)]|$))`,
+      'g'
+    ),
+    message: () => 'Use "more than" with numbers',
+    // "over three weeks" may mean "during", so spans of time are left for a human
+    replace: (m, line) =>
+      TIME_SPAN.test(line.slice(m.index! + m[0].length)) ? undefined : m[0] === 'Over' ? 'More than' : 'more than',
+  },
+  {
+    id: 'ordinal-date',
+    pattern: new RegExp(`\\b(${MONTHS}) (\\d{1,2})(?:st|nd|rd|th)\\b`, 'g'),
+    message: (m) => `Drop the ordinal in dates ("${m[1]} ${m[2]}")`,
+    replace: (m) => `${m[1]} ${m[2]}`,
+  },
+  {
+    id: 'state',
+    pattern: new RegExp(
+      `(?<=\\b[A-Z][a-z]+(?:[ -][A-Z][a-z]+)*, )(${Object.keys(AP_STATES).join('|')})(\\.?)(?![\\w.]| \\d{5})`,
+      'g'
+    ),
+    message: (m) => `Use the AP abbreviation "${AP_STATES[m[1]]}", not the postal code`,
+    replace: (m) => {
+      const ap = AP_STATES[m[1]];
+      return m[2] && !ap.endsWith('.') ? `${ap}.` : ap;
+    },
+  },
+];
+
+/**
+ * Rule IDs, in report order
+ */
+export const AP_STYLE_RULES = RULES.map((r) => r.id);
+
+/**
+ * Check a post against the house AP Style rules. Fenced code blocks and inline code are skipped.
+ * Violations are ordered by position.
+ */
+export function checkApStyle(content: string): ApStyleViolation[] {
+  const violations: ApStyleViolation[] = [];
+
+  forEachProseLine(content, (line, lineNumber, lineStart) => {
+    for (const rule of RULES) {
+      for (const match of line.matchAll(rule.pattern)) {
+        if (rule.allow?.(match, line)) continue;
+        const column = match.index!;
+        const replacement = rule.replace?.(match, line);
+        violations.push({
+          rule: rule.id,
+          message: rule.message(match),
+          text: match[0],
+          ...(replacement !== undefined ? { replacement } : {}),
+          line: lineNumber,
+          column: column + 1,
+          start: lineStart + column,
+          end: lineStart + column + match[0].length,
+        });
+      }
+    }
+  });
+
+  return violations.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Rewrite every violation that has exactly one fix; the rest are left for a human.
+ * @returns The rewritten content and how many violations were fixed
+ */
+export function fixApStyle(content: string, violations: ApStyleViolation[] = checkApStyle(content)): {
+  content: string;
+  fixed: number;
+} {
+  let fixedContent = content;
+  let fixed = 0;
+  let limit = content.length;
+  // Back to front, so earlier offsets stay valid; a match overlapping one already rewritten is skipped.
+  for (const v of [...violations].reverse()) {
+    if (v.replacement === undefined || v.end > limit) continue;
+    fixedContent = fixedContent.slice(0, v.start) + v.replacement + fixedContent.slice(v.end);
+    limit = v.start;
+    fixed++;
+  }
+  return { content: fixedContent, fixed };
+}
+
+/**
+ * Violation counts per rule.
+ */
+export function summarizeApStyle(violations: ApStyleViolation[], fixed: number = 0): ApStyleReport {
+  const byRule: Record<string, number> = {};
+  for (const v of violations) {
+    byRule[v.rule] = (byRule[v.rule] ?? 0) + 1;
+  }
+  return { total: violations.length, byRule, fixed };
+}
+
+/**
+ * One-line description, e.g. "3 violations (2 fixed): percent 2, oxford-comma 1".
+ */
+export function describeApStyle(report: ApStyleReport): string {
+  if (report.total === 0) return 'no violations';
+  const counts = AP_STYLE_RULES.filter((rule) => report.byRule[rule]).map((rule) => `${rule} ${report.byRule[rule]}`);
+  const fixed = report.fixed > 0 ? ` (${report.fixed} fixed)` : '';
+  return `${report.total} violation${report.total === 1 ? '' : 's'}${fixed}: ${counts.join(', ')}`;
+}
+
+/**
+ * Attach an AP Style report to a post, rewriting the fixable violations when `fix` is set.
+ * The report always describes the post as the writer produced it.
+ */
+export function applyApStyle(post: WriterResult, fix: boolean = false): WriterResult {
+  const violations = checkApStyle(post.content);
+  if (!fix) return { ...post, apStyle: summarizeApStyle(violations) };
+
+  const { content, fixed } = fixApStyle(post.content, violations);
+  return { ...post, content, apStyle: summarizeApStyle(violations, fixed) };
+}
@@ -0,0 +1,369 @@
+/**
+ * Blind judging (opt-in with generate --blind)
+ * Before posts reach judges, self-identifying phrases are stripped, each contestant is swapped
+ * for an opaque label and every judge sees the posts in its own shuffled order. Formatting habits
+ * are normalized only on request, since that changes what judges score. Labels and orders
+ * derive from a recorded seed, and the mapping is saved with the session so a run can be
+ * audited afterwards.
+ */
+
+import type {
+  BlindingRecord,
+  BlindLabel,
+  JudgeFailure,
+  JudgmentResult,
+  JudgingMode,
+  ModelConfig,
+  PairwiseFailure,
+  PairwiseJudgment,
+  WriterResult,
+} from '../types/index.js';
+import { randomInt } from 'crypto';
+import { getContestantId, getFriendlyName } from '../config/models.js';
+import { hashString, seededRandom, shuffle } from '../utils/random.js';
+import { relocateCitations } from './citations.js';
+import { relocateClaims } from './claims.js';
+import type { JudgePair } from './judge.js';
+import type { PairwiseMatchup } from './pairwise.js';
+
+/**
+ * Blinded copies of a session's posts plus the mapping back to contestants.
+ */
+export interface Blinding {
+  record: BlindingRecord;
+  /** Anonymized post for each real contestant ID */
+  posts: Map<string, WriterResult>;
+}
+
+// =============================================================================
+// Seed
+// =============================================================================
+
+/**
+ * A fresh random seed for a blinded session.
+ */
+export function generateBlindSeed(): number {
+  return randomInt(0x7fffffff);
+}
+
+/**
+ * One-line description, e.g. "on (seed 42)", "on (seed 42, formatting normalized)" or "off".
+ */
+export function describeBlinding(seed: number | undefined, normalizeFormatting?: boolean): string {
+  if (seed === undefined) return 'off';
+  return `on (seed ${seed}${normalizeFormatting ? ', formatting normalized' : ''})`;
+}
+
+// =============================================================================
+// Anonymization
+// =============================================================================
+
+const VENDOR_PATTERN =
+  'OpenAI|ChatGPT|GPT[- ]?\\d[\\w.-]*|Anthropic|Claude|Google|Gemini|Bard|DeepMind|Meta AI|Llama|Mistral|Mixtral|' +
+  'xAI|Grok|DeepSeek|Qwen|Alibaba|Moonshot|Kimi|Cohere|Perplexity';
+
+/** Short lines that credit a model or vendor ("Written by Claude", "*Generated with ChatGPT*"). */
+const ATTRIBUTION_LINE = new RegExp(
+  `^[\\s>*_~-]*(?:written|generated|drafted|authored|created|composed|produced|powered)\\s+(?:by|with|using)\\b.*\\b(?:AI|model|${VENDOR_PATTERN})\\b[^\\n]*$`,
+  'i'
+);
+
+/** Sign-offs naming a model or vendor after a dash ("— Claude", "-- GPT-5"). */
+const SIGN_OFF_LINE = new RegExp(`^[\\s*_]*(?:—|–|--|~)\\s*(?:${VENDOR_PATTERN})(?:\\s+[\\w.-]+){0,3}[\\s*_.]*$`, 'i');
+
+const MAX_ATTRIBUTION_LENGTH = 100;
+
+/** Sentences in which the writer talks about being an AI or names its maker. */
+const SELF_REFERENCE_SENTENCE = new RegExp(
+  `[^.!?\\n]*(?:\\bas an AI\\b|\\bas a (?:large )?language model\\b|\\bI(?:'m| am) an AI\\b|\\bI(?:'m| am) (?:${VENDOR_PATTERN})\\b|\\b(?:I|I'm|I am|I was)\\b[^.!?\\n]*\\b(?:trained|built|developed|made|created) by (?:${VENDOR_PATTERN})\\b)[^.!?\\n]*[.!?]?[ \\t]*`,
+  'gi'
+);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The writer's own model names with flexible separators ("gpt-5.2", "GPT 5.2", "gpt_5.2").
+// Disambiguation suffixes such as " #2" or " (temperature=0)" are not part of the name.
+function ownNameSources(post: WriterResult): string[] {
+  const modelName = post.modelId.split('/').pop() ?? post.modelId;
+  const friendlyName = post.friendlyName.replace(/\s*(?:#\d+|\(.*\))\s*$/, '');
+  const names = new Set([friendlyName, getFriendlyName(post.modelId), modelName].filter((n) => n.trim().length >= 3));
+
+  return [...names].map((name) => {
+    const parts = name.split(/[\s_-]+/).filter(Boolean).map(escapeRegExp);
+    return `(?<![\\w.-])${parts.join('[\\s_-]?')}(?![\\w-])`;
+  });
+}
+
+/**
+ * Remove phrases that reveal which model wrote a post: attribution lines and sign-offs,
+ * sentences where the writer refers to itself as an AI, and mentions of its own model name.
+ * Returns the cleaned content and every removed phrase.
+ */
+export function redactSelfIdentification(post: WriterResult): { content: string; redactions: string[] } {
+  const redactions: string[] = [];
+  const record = (match: string) => {
+    if (match.trim()) redactions.push(match.trim());
+  };
+
+  const ownNames = ownNameSources(post);
+  const ownSignOff = ownNames.map((source) => new RegExp(`^[\\s*_]*(?:—|–|--|~)\\s*${source}[\\s*_.]*$`, 'i'));
+  const isAttribution = (line: string) =>
+    line.trim().length <= MAX_ATTRIBUTION_LENGTH &&
+    [ATTRIBUTION_LINE, SIGN_OFF_LINE, ...ownSignOff].some((pattern) => pattern.test(line));
+
+  const lines = post.content.split('\n').filter((line) => {
+    if (isAttribution(line)) {
+      record(line);
+      return false;
+    }
+    return true;
+  });
+
+  let content = lines.join('\n').replace(SELF_REFERENCE_SENTENCE, (match) => {
+    record(match);
+    return '';
+  });
+
+  for (const source of ownNames) {
+    content = content.replace(new RegExp(source, 'gi'), (match) => {
+      record(match);
+      return '[redacted]';
+    });
+  }
+
+  return { content, redactions };
+}
+
+/**
+ * Normalize markdown habits that differ between models (bullet markers, bold and rule
+ * syntax, trailing whitespace, runs of blank lines). Fenced code is left untouched.
+ */
+export function normalizeFormatting(content: string): string {
+  let inFence = false;
+  const lines = content.split('\n').map((line) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return line.trimEnd();
+    }
+    if (inFence) return line;
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return '---';
+    return line
+      .replace(/^(\s*)[*+](\s+)/, '$1-$2')
+      .replace(/__(?=\S)([^_\n]+?)(?<=\S)__/g, '**$1**')
+      .trimEnd();
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+// =============================================================================
+// Labels and Judge Order
+// =============================================================================
+
+const LABEL_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+/**
+ * Assign opaque labels to every writer slot, anonymize the posts that exist and shuffle
+ * each judge's viewing order. Labels depend only on the seed and the writer list, so a
+ * resumed session reuses them.
+ * @param normalize - Also normalize markdown habits (see normalizeFormatting)
+ */
+export function blindPosts(
+  writerModels: ModelConfig[],
+  posts: WriterResult[],
+  judges: ModelConfig[],
+  mode: JudgingMode,
+  seed: number,
+  normalize = false
+): Blinding {
+  const random = seededRandom(seed);
+  const used = new Set<string>();
+  const labelFor = new Map<string, string>();
+
+  for (const model of writerModels) {
+    let label: string;
+    do {
+      label = 'contestant-';
+      for (let i = 0; i < 4; i++) {
+        label += LABEL_ALPHABET[Math.floor(random() * LABEL_ALPHABET.length)];
+      }
+    } while (used.has(label));
+    used.add(label);
+    labelFor.set(getContestantId(model), label);
+  }
+
+  const labels: BlindLabel[] = [];
+  const blinded = new Map<string, WriterResult>();
+
+  for (const post of posts) {
+    const label = labelFor.get(post.contestantId);
+    if (!label) {
+      throw new Error(`Cannot blind post from unknown contestant "${post.contestantId}"`);
+    }
+
+    const { content, redactions } = redactSelfIdentification(post);
+    labels.push({
+      label,
+      contestantId: post.contestantId,
+      modelId: post.modelId,
+      friendlyName: post.friendlyName,
+      redactions,
+    });
+    blinded.set(post.contestantId, {
+      contestantId: label,
+      modelId: label,
+      friendlyName: label,
+      content: normalize ? normalizeFormatting(content) : content,
+      generatedAt: post.generatedAt,
+    });
+  }
+
+  const labelList = labels.map((l) => l.label);
+  const keys =
+    mode === 'pairwise'
+      ? labelList.flatMap((a) => labelList.filter((b) => b !== a).map((b) => matchupKey(a, b)))
+      : labelList;
+  const judgeOrder: Record<string, string[]> = {};
+  for (const judge of judges) {
+    judgeOrder[judge.friendlyName] = shuffle(keys, seededRandom(seed ^ hashString(judge.friendlyName)));
+  }
+
+  const record: BlindingRecord = { seed, labels, judgeOrder };
+  if (normalize) record.normalizedFormatting = true;
+  return { record, posts: blinded };
+}
+
+function matchupKey(first: string, second: string): string {
+  return `${first} vs ${second}`;
+}
+
+// Sort each judge's items by its recorded order, then interleave judges so that with bounded
+// concurrency every judge works through its own sequence.
+function orderPerJudge<T>(
+  items: T[],
+  judgeOf: (item: T) => ModelConfig,
+  keyOf: (item: T) => string,
+  blinding: Blinding
+): T[] {
+  const byJudge = new Map<string, T[]>();
+  for (const item of items) {
+    const name = judgeOf(item).friendlyName;
+    byJudge.set(name, [...(byJudge.get(name) ?? []), item]);
+  }
+
+  const queues: T[][] = [];
+  for (const [name, group] of byJudge) {
+    const order = blinding.record.judgeOrder[name] ?? [];
+    queues.push([...group].sort((a, b) => order.indexOf(keyOf(a)) - order.indexOf(keyOf(b))));
+  }
+
+  const ordered: T[] = [];
+  for (let i = 0; queues.some((q) => i < q.length); i++) {
+    for (const queue of queues) {
+      if (i < queue.length) ordered.push(queue[i]);
+    }
+  }
+  return ordered;
+}
+
+function blindedPost(blinding: Blinding, post: WriterResult): WriterResult {
+  const blinded = blinding.posts.get(post.contestantId);
+  if (!blinded) {
+    throw new Error(`Post from "${post.contestantId}" was not blinded`);
+  }
+  return blinded;
+}
+
+/**
+ * Swap each pair's post for its blinded copy and order the pairs by each judge's shuffled
+ * sequence of labels.
+ */
+export function blindJudgePairs(pairs: JudgePair[], blinding: Blinding): JudgePair[] {
+  const blinded = pairs.map((pair) => ({ ...pair, post: blindedPost(blinding, pair.post) }));
+  return orderPerJudge(blinded, (p) => p.judge, (p) => p.post.contestantId, blinding);
+}
+
+/**
+ * Pairwise counterpart of blindJudgePairs; each judge's order covers every ordered pair of labels.
+ */
+export function blindMatchups(matchups: PairwiseMatchup[], blinding: Blinding): PairwiseMatchup[] {
+  const blinded = matchups.map(({ judge, first, second }) => ({
+    judge,
+    first: blindedPost(blinding, first),
+    second: blindedPost(blinding, second),
+  }));
+  return orderPerJudge(
+    blinded,
+    (m) => m.judge,
+    (m) => matchupKey(m.first.contestantId, m.second.contestantId),
+    blinding
+  );
+}
+
+// =============================================================================
+// Unblinding
+// =============================================================================
+
+function entryFor(record: BlindingRecord, label: string): BlindLabel {
+  const entry = record.labels.find((l) => l.label === label);
+  if (!entry) {
+    throw new Error(`Unknown blind label "${label}"`);
+  }
+  return entry;
+}
+
+/**
+ * Replace blind labels in display text (e.g. progress output) with friendly names.
+ */
+export function unblindText(text: string, record: BlindingRecord): string {
+  return record.labels.reduce((result, l) => result.split(l.label).join(l.friendlyName), text);
+}
+
+/**
+ * Map a judgment back to its contestant. Given the posts as written, cited quotes and claims are
+ * re-anchored to the original post (the judge quoted the anonymized copy).
+ */
+export function unblindJudgment(
+  judgment: JudgmentResult,
+  record: BlindingRecord,
+  posts: WriterResult[] = []
+): JudgmentResult {
+  const entry = entryFor(record, judgment.postContestantId);
+  const unblinded = { ...judgment, postModelId: entry.modelId, postContestantId: entry.contestantId };
+  const post = posts.find((p) => p.contestantId === entry.contestantId);
+  return post ? relocateClaims(relocateCitations(unblinded, post.content), post.content) : unblinded;
+}
+
+export function unblindJudgeFailure(failure: JudgeFailure, record: BlindingRecord): JudgeFailure {
+  const entry = entryFor(record, failure.postContestantId);
+  return {
+    ...failure,
+    postModelId: entry.modelId,
+    postContestantId: entry.contestantId,
+    postFriendlyName: entry.friendlyName,
+  };
+}
+
+export function unblindPairwiseJudgment(judgment: PairwiseJudgment, record: BlindingRecord): PairwiseJudgment {
+  const contestant = (label: string) => entryFor(record, label).contestantId;
+  return {
+    ...judgment,
+    firstContestantId: contestant(judgment.firstContestantId),
+    secondContestantId: contestant(judgment.secondContestantId),
+    preferences: judgment.preferences.map((p) => ({
+      ...p,
+      winner: p.winner === 'tie' ? 'tie' : contestant(p.winner),
+    })),
+  };
+}
+
+export function unblindPairwiseFailure(failure: PairwiseFailure, record: BlindingRecord): PairwiseFailure {
+  return {
+    ...failure,
+    firstContestantId: entryFor(record, failure.firstContestantId).contestantId,
+    secondContestantId: entryFor(record, failure.secondContestantId).contestantId,
+  };
+}
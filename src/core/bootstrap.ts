@@ -0,0 +1,200 @@
+/**
+ * Bootstrap confidence intervals and winner verdicts
+ * Judges are resampled with replacement and every post's score is recomputed from the
+ * resampled panel; a judge sampled more than once also has its samples resampled. The same
+ * panel is used for all posts, so comparisons between posts stay paired. The spread of the
+ * recomputed scores gives each post's interval and the probability that the leader beats each
+ * runner-up.
+ */
+
+import type {
+  AggregatedResult,
+  AggregationSettings,
+  JudgmentResult,
+  PairwiseJudgment,
+  Rubric,
+  WinnerVerdict,
+  WriterResult,
+} from '../types/index.js';
+import { getBootstrapIterations, getConfidenceLevel } from '../config/env.js';
+import { getActiveRubric } from '../config/rubric.js';
+import { seededRandom } from '../utils/random.js';
+import { DEFAULT_AGGREGATION, collapseSamples, computeOverallFromJudgments } from './judge.js';
+import { isLintJudgment } from './lint.js';
+import { rankPairwise } from './pairwise.js';
+
+export interface BootstrapOptions {
+  /** Resamples to draw (defaults to WRITEOFF_BOOTSTRAP_ITERATIONS) */
+  iterations?: number;
+  /** Interval coverage and winning probability required (defaults to WRITEOFF_CONFIDENCE_LEVEL) */
+  level?: number;
+  /** Fixed by default so the same judgments always produce the same report */
+  seed?: number;
+  /** How each judge's samples are combined (absolute mode) */
+  aggregation?: AggregationSettings;
+}
+
+export interface BootstrapResult {
+  /** The input results with `confidence` filled in */
+  results: AggregatedResult[];
+  /** Absent with fewer than two posts */
+  verdict?: WinnerVerdict;
+}
+
+const DEFAULT_SEED = 1;
+
+// Scores for one resampled panel, by contestant ID (NaN when the panel scored nothing for a post)
+type PanelScorer = (judges: string[], random: () => number) => Map<string, number>;
+
+function percentile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return Number.NaN;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Resample judges, then derive intervals and the leader's winning probabilities.
+ * Results must already be ranked (leader first). With fewer than two judges there is
+ * nothing to resample and the results are returned unchanged.
+ */
+function assess(
+  results: AggregatedResult[],
+  judges: string[],
+  scorePanel: PanelScorer,
+  options: BootstrapOptions
+): BootstrapResult {
+  if (judges.length < 2 || results.length === 0) return { results };
+
+  const iterations = options.iterations ?? getBootstrapIterations();
+  const level = options.level ?? getConfidenceLevel();
+  const random = seededRandom(options.seed ?? DEFAULT_SEED);
+
+  const draws = new Map<string, number[]>(results.map((r) => [r.postContestantId, []]));
+  for (let i = 0; i < iterations; i++) {
+    const panel = judges.map(() => judges[Math.floor(random() * judges.length)]);
+    const scores = scorePanel(panel, random);
+    for (const [contestant, values] of draws) {
+      values.push(scores.get(contestant) ?? Number.NaN);
+    }
+  }
+
+  const tail = (1 - level) / 2;
+  const withIntervals = results.map((result) => {
+    const sorted = draws
+      .get(result.postContestantId)!
+      .filter((v) => Number.isFinite(v))
+      .sort((a, b) => a - b);
+    if (sorted.length === 0) return result;
+    return {
+      ...result,
+      confidence: { lower: percentile(sorted, tail), upper: percentile(sorted, 1 - tail), level },
+    };
+  });
+
+  if (results.length < 2) return { results: withIntervals };
+
+  const leader = results[0];
+  const leaderDraws = draws.get(leader.postContestantId)!;
+  const comparisons = results.slice(1).map((runnerUp) => {
+    const runnerUpDraws = draws.get(runnerUp.postContestantId)!;
+    let wins = 0;
+    let valid = 0;
+    for (let i = 0; i < iterations; i++) {
+      const a = leaderDraws[i];
+      const b = runnerUpDraws[i];
+      if (!Number.isFinite(a) || !Number.isFinite(b)) continue;
+      valid++;
+      wins += a > b ? 1 : a === b ? 0.5 : 0;
+    }
+    return {
+      postContestantId: runnerUp.postContestantId,
+      postFriendlyName: runnerUp.postFriendlyName,
+      probability: valid > 0 ? wins / valid : 0.5,
+    };
+  });
+
+  // A disqualified runner-up cannot win, however close its scores
+  const disqualified = new Set(results.filter((r) => r.disqualified).map((r) => r.postContestantId));
+  const tiedWith = comparisons
+    .filter((c) => c.probability < level && !disqualified.has(c.postContestantId))
+    .map((c) => c.postContestantId);
+
+  return {
+    results: withIntervals,
+    verdict: {
+      leaderContestantId: leader.postContestantId,
+      level,
+      iterations,
+      comparisons,
+      tiedWith,
+      statisticalTie: tiedWith.includes(results[1].postContestantId),
+    },
+  };
+}
+
+/**
+ * Bootstrap absolute-mode results over the judges that scored them.
+ * Style linter judgments are deterministic, so they join every resampled panel unchanged.
+ */
+export function bootstrapAbsolute(
+  results: AggregatedResult[],
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  options: BootstrapOptions = {}
+): BootstrapResult {
+  const byJudge = new Map<string, Map<string, JudgmentResult[]>>();
+  const lint = judgments.filter((j) => isLintJudgment(j));
+  for (const judgment of judgments.filter((j) => !isLintJudgment(j))) {
+    const byPost = byJudge.get(judgment.judgeFriendlyName) ?? new Map<string, JudgmentResult[]>();
+    byPost.set(judgment.postContestantId, [...(byPost.get(judgment.postContestantId) ?? []), judgment]);
+    byJudge.set(judgment.judgeFriendlyName, byPost);
+  }
+
+  const aggregation = options.aggregation ?? DEFAULT_AGGREGATION;
+  const scorePanel: PanelScorer = (panel, random) => {
+    const scores = new Map<string, number>();
+    for (const result of results) {
+      // One judgment per panel seat, so a judge drawn twice counts twice
+      const sampled = panel.flatMap((judge) => {
+        const samples = byJudge.get(judge)?.get(result.postContestantId) ?? [];
+        if (samples.length === 0) return [];
+        const drawn =
+          samples.length > 1 ? samples.map(() => samples[Math.floor(random() * samples.length)]) : samples;
+        return collapseSamples(drawn, rubric, aggregation);
+      });
+      const linted = lint.filter((j) => j.postContestantId === result.postContestantId);
+      scores.set(
+        result.postContestantId,
+        sampled.length > 0 ? computeOverallFromJudgments([...sampled, ...linted], rubric, aggregation) : Number.NaN
+      );
+    }
+    return scores;
+  };
+
+  return assess(results, [...byJudge.keys()], scorePanel, options);
+}
+
+/**
+ * Bootstrap pairwise-mode results, refitting Bradley-Terry for every resampled panel.
+ */
+export function bootstrapPairwise(
+  results: AggregatedResult[],
+  posts: WriterResult[],
+  judgments: PairwiseJudgment[],
+  rubric: Rubric = getActiveRubric(),
+  options: BootstrapOptions = {}
+): BootstrapResult {
+  const byJudge = new Map<string, PairwiseJudgment[]>();
+  for (const judgment of judgments) {
+    byJudge.set(judgment.judgeFriendlyName, [...(byJudge.get(judgment.judgeFriendlyName) ?? []), judgment]);
+  }
+
+  const scorePanel: PanelScorer = (panel) => {
+    const sampled = panel.flatMap((judge) => byJudge.get(judge) ?? []);
+    return new Map(rankPairwise(posts, sampled, rubric).map((r) => [r.postContestantId, r.overallAverage]));
+  };
+
+  return assess(results, [...byJudge.keys()], scorePanel, options);
+}
@@ -0,0 +1,142 @@
+/**
+ * Judge calibration against anchor posts
+ * Each judge's criterion scores on posts with known reference scores are fitted to a linear
+ * correction (reference = intercept + slope * raw), which later runs apply to that judge's
+ * judgments before anything is combined. Harsh or lenient judges and judges that compress
+ * the scale are brought onto the reference scale.
+ */
+
+import type {
+  AnchorPost,
+  Calibration,
+  CriterionCorrection,
+  CriterionScore,
+  GenerationParams,
+  JudgeCalibration,
+  JudgmentResult,
+  ModelConfig,
+  Rubric,
+} from '../types/index.js';
+
+// Slopes outside this range mean the anchors did not spread the judge's scores enough to trust a fit
+const MIN_SLOPE = 0.2;
+const MAX_SLOPE = 5;
+
+// =============================================================================
+// Fitting
+// =============================================================================
+
+/**
+ * Least-squares fit of reference scores on a judge's raw scores.
+ * With a single anchor, no spread in raw scores, or an implausible slope, only the mean offset is corrected.
+ */
+export function fitCorrection(points: Array<{ raw: number; reference: number }>): CriterionCorrection {
+  const n = points.length;
+  const meanRaw = points.reduce((sum, p) => sum + p.raw, 0) / n;
+  const meanReference = points.reduce((sum, p) => sum + p.reference, 0) / n;
+  const offsetOnly = { slope: 1, intercept: meanReference - meanRaw, anchors: n };
+  if (n < 2) return offsetOnly;
+
+  let covariance = 0;
+  let variance = 0;
+  for (const { raw, reference } of points) {
+    covariance += (raw - meanRaw) * (reference - meanReference);
+    variance += (raw - meanRaw) ** 2;
+  }
+  if (variance === 0) return offsetOnly;
+
+  const slope = covariance / variance;
+  if (slope < MIN_SLOPE || slope > MAX_SLOPE) return offsetOnly;
+  return { slope, intercept: meanReference - slope * meanRaw, anchors: n };
+}
+
+/**
+ * Fit every judge's per-criterion corrections from its judgments of the anchors
+ * (one judgment per judge and anchor; combine repeated samples first).
+ * Judges that scored no anchor are left out.
+ */
+export function fitCalibration(
+  judges: ModelConfig[],
+  anchors: AnchorPost[],
+  judgments: JudgmentResult[],
+  rubric: Rubric,
+  version: number = 1
+): Calibration {
+  const calibrated: JudgeCalibration[] = [];
+
+  for (const judge of judges) {
+    const own = judgments.filter((j) => j.judgeFriendlyName === judge.friendlyName);
+    const criteria: Record<string, CriterionCorrection> = {};
+
+    for (const criterion of rubric.criteria) {
+      const points = anchors.flatMap((anchor) => {
+        const reference = anchor.scores[criterion.key];
+        const raw = own
+          .find((j) => j.postContestantId === anchor.id)
+          ?.scores.find((s) => s.criterion === criterion.key)?.score;
+        return reference === undefined || raw === undefined ? [] : [{ raw, reference }];
+      });
+      if (points.length > 0) criteria[criterion.key] = fitCorrection(points);
+    }
+
+    if (Object.keys(criteria).length === 0) continue;
+    calibrated.push({
+      modelId: judge.modelId,
+      friendlyName: judge.friendlyName,
+      ...(judge.params ? { params: judge.params } : {}),
+      criteria,
+    });
+  }
+
+  return {
+    version,
+    rubric: rubric.name,
+    anchors: anchors.map((a) => a.id),
+    judges: calibrated,
+    createdAt: new Date(),
+  };
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+function paramsKey(params: GenerationParams | undefined): string {
+  return JSON.stringify(
+    Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * The corrections fitted for a judge model run with the same sampling settings, if any.
+ */
+export function findJudgeCalibration(
+  calibration: Calibration,
+  judgeModelId: string,
+  params?: GenerationParams
+): JudgeCalibration | undefined {
+  const key = paramsKey(params);
+  return calibration.judges.find((j) => j.modelId === judgeModelId && paramsKey(j.params) === key);
+}
+
+/**
+ * Map raw criterion scores onto the reference scale, clamped to 1-100.
+ * Criteria without a correction are returned unchanged.
+ */
+export function calibrateScores(scores: CriterionScore[], judge: JudgeCalibration): CriterionScore[] {
+  return scores.map((score) => {
+    const correction = judge.criteria[score.criterion];
+    if (!correction) return score;
+    const calibrated = correction.intercept + correction.slope * score.score;
+    return { ...score, score: Math.min(100, Math.max(1, calibrated)) };
+  });
+}
+
+/**
+ * Judge models in a panel that the calibration has no corrections for.
+ */
+export function uncalibratedJudges(calibration: Calibration, judges: ModelConfig[]): ModelConfig[] {
+  return judges.filter((judge) => !findJudgeCalibration(calibration, judge.modelId, judge.params));
+}
@@ -0,0 +1,177 @@
+/**
+ * Quote-anchored judge feedback
+ * Judges cite verbatim passages for each criterion; every quote is looked up in the post so
+ * citations carry real character offsets and invented quotes are caught.
+ */
+
+import type { Citation, CriterionScore, JudgmentResult, UnverifiedQuotePolicy } from '../types/index.js';
+import { getUnverifiedQuotePolicy } from '../config/env.js';
+import { isLintJudgment } from './lint.js';
+
+// Typographic variants judges commonly substitute when quoting
+const EQUIVALENTS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+};
+
+// Markdown emphasis markers judges usually leave out of quotes
+const IGNORED = new Set(['*', '_', '`']);
+
+// Elisions inside a quote ("first part ... second part")
+const ELLIPSIS = /\.{3}|…/;
+
+const QUOTE_PREVIEW_LENGTH = 60;
+
+interface NormalizedText {
+  chars: string;
+  /** Offset in the original text of each normalized character */
+  offsets: number[];
+}
+
+// Typography folded, emphasis markers dropped and whitespace runs collapsed to one space.
+function normalize(text: string): NormalizedText {
+  let chars = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const c = EQUIVALENTS[text[i]] ?? text[i];
+    if (IGNORED.has(c)) continue;
+    if (/\s/.test(c)) {
+      if (chars.length === 0 || chars.endsWith(' ')) continue;
+      chars += ' ';
+    } else {
+      chars += c;
+    }
+    offsets.push(i);
+  }
+  if (chars.endsWith(' ')) {
+    chars = chars.slice(0, -1);
+    offsets.pop();
+  }
+  return { chars, offsets };
+}
+
+/**
+ * Find a quoted passage in a text. An exact match wins; otherwise curly quotes, dashes,
+ * whitespace and emphasis markers are ignored, and "..." may elide text between parts.
+ * @returns Character offsets [start, end) in the text, or undefined if the quote is not there
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | undefined {
+  if (quote.trim().length === 0) return undefined;
+
+  const exact = text.indexOf(quote);
+  if (exact !== -1) return { start: exact, end: exact + quote.length };
+
+  const haystack = normalize(text);
+  const parts = quote
+    .split(ELLIPSIS)
+    .map((part) => normalize(part).chars)
+    .filter((part) => part.length > 0);
+  if (parts.length === 0) return undefined;
+
+  let from = 0;
+  let start = -1;
+  let end = -1;
+  for (const part of parts) {
+    const index = haystack.chars.indexOf(part, from);
+    if (index === -1) return undefined;
+    if (start === -1) start = haystack.offsets[index];
+    end = haystack.offsets[index + part.length - 1] + 1;
+    from = index + part.length;
+  }
+  return { start, end };
+}
+
+/**
+ * 1-based line of a character offset, for pointing writers at a passage.
+ */
+export function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * A quote flattened to one line and shortened, for warnings.
+ */
+export function previewQuote(quote: string): string {
+  const flat = quote.replace(/\s+/g, ' ').trim();
+  return flat.length > QUOTE_PREVIEW_LENGTH ? `${flat.slice(0, QUOTE_PREVIEW_LENGTH - 3)}...` : flat;
+}
+
+/**
+ * Check every cited quote against the text the judge was shown and record its offsets.
+ * Quotes that are not found are flagged (verified: false) or dropped, per the policy;
+ * either way each one adds a warning.
+ */
+export function verifyCitations(
+  scores: CriterionScore[],
+  content: string,
+  policy: UnverifiedQuotePolicy = getUnverifiedQuotePolicy()
+): { scores: CriterionScore[]; warnings: string[] } {
+  const warnings: string[] = [];
+
+  const verified = scores.map((score) => {
+    if (!score.citations) return score;
+    const citations: Citation[] = [];
+    for (const citation of score.citations) {
+      const location = locateQuote(content, citation.quote);
+      if (location) {
+        citations.push({ ...citation, verified: true, ...location });
+        continue;
+      }
+      const action = policy === 'drop' ? ', dropped' : '';
+      warnings.push(`Quote not found in post (${score.criterion}${action}): "${previewQuote(citation.quote)}"`);
+      if (policy === 'flag') citations.push({ ...citation, verified: false });
+    }
+    return { ...score, citations };
+  });
+
+  return { scores: verified, warnings };
+}
+
+/**
+ * Point verified citations at the post as written, after judging an anonymized copy.
+ * Citations whose quote only exists in the anonymized copy keep `verified` but lose their offsets.
+ */
+export function relocateCitations(judgment: JudgmentResult, content: string): JudgmentResult {
+  if (!judgment.scores.some((s) => s.citations?.length)) return judgment;
+
+  return {
+    ...judgment,
+    scores: judgment.scores.map((score) => ({
+      ...score,
+      citations: score.citations?.map((citation) => {
+        const { start: _start, end: _end, ...rest } = citation;
+        const location = citation.verified ? locateQuote(content, citation.quote) : undefined;
+        return location ? { ...rest, ...location } : rest;
+      }),
+    })),
+  };
+}
+
+/**
+ * Verified and total checked citations per LLM judge across a set of judgments, for reporting invented quotes.
+ */
+export function countCitations(
+  judgments: JudgmentResult[]
+): Array<{ judgeFriendlyName: string; verified: number; total: number }> {
+  const byJudge = new Map<string, { verified: number; total: number }>();
+  for (const judgment of judgments.filter((j) => !isLintJudgment(j))) {
+    const counts = byJudge.get(judgment.judgeFriendlyName) ?? { verified: 0, total: 0 };
+    for (const citation of judgment.scores.flatMap((s) => s.citations ?? [])) {
+      if (citation.verified === undefined) continue;
+      counts.total++;
+      if (citation.verified) counts.verified++;
+    }
+    byJudge.set(judgment.judgeFriendlyName, counts);
+  }
+  return [...byJudge.entries()]
+    .filter(([, counts]) => counts.total > 0)
+    .map(([judgeFriendlyName, counts]) => ({ judgeFriendlyName, ...counts }));
+}
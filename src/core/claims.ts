@@ -0,0 +1,128 @@
+/**
+ * Claim check
+ * With the claim check on, judges list a post's factual claims (figures, named entities, dates,
+ * causal statements) and how each is backed. Claim quotes are verified against the post like
+ * citations; unsupported claims are counted per post and handed back to the writer in refine.
+ */
+
+import type { Claim, ClaimStatus, JudgmentResult, UnverifiedQuotePolicy } from '../types/index.js';
+import { getUnverifiedQuotePolicy } from '../config/env.js';
+import { CLAIM_STATUSES } from '../prompts/judge.js';
+import { lineAt, locateQuote, previewQuote } from './citations.js';
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Check every claim quote against the text the judge was shown and record its offsets.
+ * Claims that are not found are flagged (verified: false) or dropped, per the policy;
+ * either way each one adds a warning.
+ */
+export function verifyClaims(
+  claims: Claim[],
+  content: string,
+  policy: UnverifiedQuotePolicy = getUnverifiedQuotePolicy()
+): { claims: Claim[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const verified: Claim[] = [];
+
+  for (const claim of claims) {
+    const location = locateQuote(content, claim.quote);
+    if (location) {
+      verified.push({ ...claim, verified: true, ...location });
+      continue;
+    }
+    const action = policy === 'drop' ? ', dropped' : '';
+    warnings.push(`Claim not found in post (${claim.status}${action}): "${previewQuote(claim.quote)}"`);
+    if (policy === 'flag') verified.push({ ...claim, verified: false });
+  }
+
+  return { claims: verified, warnings };
+}
+
+/**
+ * Point verified claims at the post as written, after judging an anonymized copy.
+ * Claims whose quote only exists in the anonymized copy keep `verified` but lose their offsets.
+ */
+export function relocateClaims(judgment: JudgmentResult, content: string): JudgmentResult {
+  if (!judgment.claims?.length) return judgment;
+
+  return {
+    ...judgment,
+    claims: judgment.claims.map((claim) => {
+      const { start: _start, end: _end, ...rest } = claim;
+      const location = claim.verified ? locateQuote(content, claim.quote) : undefined;
+      return location ? { ...rest, ...location } : rest;
+    }),
+  };
+}
+
+// =============================================================================
+// Counting
+// =============================================================================
+
+/**
+ * Claims per status. Claims whose quote is not in the post are left out.
+ */
+export function tallyClaims(claims: Claim[]): Record<ClaimStatus, number> {
+  const tally = Object.fromEntries(CLAIM_STATUSES.map((status) => [status, 0])) as Record<ClaimStatus, number>;
+  for (const claim of claims) {
+    if (claim.verified !== false) tally[claim.status]++;
+  }
+  return tally;
+}
+
+/**
+ * Unsupported claims in one judgment, or undefined when the judge listed no claims.
+ */
+export function countUnsupported(judgment: JudgmentResult): number | undefined {
+  return judgment.claims ? tallyClaims(judgment.claims).unsupported : undefined;
+}
+
+/**
+ * One-line description, e.g. "2 unsupported (sourced 3, hedged 1, hypothetical 0)".
+ */
+export function describeClaims(claims: Claim[]): string {
+  const tally = tallyClaims(claims);
+  const others = CLAIM_STATUSES.filter((s) => s !== 'unsupported').map((s) => `${s} ${tally[s]}`);
+  return `${tally.unsupported} unsupported (${others.join(', ')})`;
+}
+
+// =============================================================================
+// Writer Feedback
+// =============================================================================
+
+/**
+ * Feedback section listing the claims judges found unsupported (empty when there are none).
+ * A claim flagged by several judges is listed once; with the judged post, each is given with its line number.
+ */
+export function formatClaimsForWriter(judgments: JudgmentResult[], post?: string): string {
+  const flagged = new Map<string, { claim: Claim; judgments: number }>();
+
+  for (const judgment of judgments) {
+    for (const claim of judgment.claims ?? []) {
+      if (claim.status !== 'unsupported' || claim.verified === false) continue;
+      const key = claim.start !== undefined ? `${claim.start}:${claim.end}` : claim.quote.trim();
+      const entry = flagged.get(key);
+      if (entry) entry.judgments++;
+      else flagged.set(key, { claim, judgments: 1 });
+    }
+  }
+  if (flagged.size === 0) return '';
+
+  const withClaims = judgments.filter((j) => j.claims).length;
+  const lines = [...flagged.values()]
+    .sort((a, b) => b.judgments - a.judgments || (a.claim.start ?? 0) - (b.claim.start ?? 0))
+    .map(({ claim, judgments: count }) => {
+      const where = post !== undefined && claim.start !== undefined ? `Line ${lineAt(post, claim.start)}, ` : '';
+      return `- ${where}"${claim.quote}" (${claim.kind}, flagged by ${count} of ${withClaims}): ${claim.note}`;
+    });
+
+  return (
+    '\n\n# Unsupported Claims\n\n' +
+    'These specifics are stated as fact without support. Attribute each one to a source, hedge it, ' +
+    'label it as hypothetical, or cut it; do not invent a source:\n' +
+    `${lines.join('\n')}\n`
+  );
+}
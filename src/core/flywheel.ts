@@ -6,6 +6,9 @@
  * 2. Collect feedback and scores
  * 3. If score >= threshold or max iterations reached: stop
  * 4. Otherwise: refine post using feedback and repeat
+ *
+ * With several judge samples per iteration, a score gain only counts as improvement when it
+ * exceeds the sampling noise of the two scores being compared.
  */
 
 import type {
@@ -14,10 +17,29 @@ import type {
   ModelConfig,
   WriterResult,
   JudgmentResult,
+  CallUsage,
+  Rubric,
+  AggregationSettings,
+  ReadabilityLimits,
+  ReferenceDocument,
 } from '../types/index.js';
-import { judgePostWithMultipleJudges, computeOverallFromJudgments } from './judge.js';
-import { WRITER_SYSTEM_PROMPT } from '../prompts/writer.js';
-import { generate } from '../providers/ai.js';
+import {
+  judgePostWithMultipleJudges,
+  computeOverallFromJudgments,
+  computeJudgeNoise,
+  countUnsupportedClaims,
+  DEFAULT_AGGREGATION,
+} from './judge.js';
+import { buildUsageReport } from './usage.js';
+import { lineAt } from './citations.js';
+import { isLintJudgment } from './lint.js';
+import { applyApStyle } from './ap-style.js';
+import { applyReadability } from './readability.js';
+import { formatClaimsForWriter } from './claims.js';
+import { getContestantId } from '../config/models.js';
+import { getActiveRubric } from '../config/rubric.js';
+import { WRITER_SYSTEM_PROMPT, getReferenceInstructions } from '../prompts/writer.js';
+import { generate, type GenerateResult } from '../providers/ai.js';
 
 // =============================================================================
 // Constants
@@ -32,9 +54,16 @@ const DEFAULT_THRESHOLD = 90;
 
 /**
  * Combine all judge feedback into a clear, actionable prompt for the writer.
- * Lists each criterion with scores and specific feedback from all judges.
+ * Lists each criterion with scores and specific feedback from all judges, followed by the
+ * passages they cited. Quotes not found in the post are left out; with the judged post,
+ * each passage is given with its line number.
  */
-export function formatFeedbackForWriter(judgments: JudgmentResult[]): string {
+export function formatFeedbackForWriter(
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION,
+  post?: string
+): string {
   if (judgments.length === 0) {
     return 'No feedback available.';
   }
@@ -42,16 +71,27 @@ export function formatFeedbackForWriter(judgments: JudgmentResult[]): string {
   const sections: string[] = [];
 
   // Group feedback by criterion
-  const criteriaFeedback: Record<string, { scores: number[]; feedback: string[] }> = {};
+  const criteriaFeedback: Record<string, { scores: number[]; feedback: string[]; citations: string[] }> = {};
 
   for (const judgment of judgments) {
     for (const score of judgment.scores) {
       if (!criteriaFeedback[score.criterion]) {
-        criteriaFeedback[score.criterion] = { scores: [], feedback: [] };
+        criteriaFeedback[score.criterion] = { scores: [], feedback: [], citations: [] };
       }
       criteriaFeedback[score.criterion].scores.push(score.score);
       if (score.feedback.trim()) {
-        criteriaFeedback[score.criterion].feedback.push(`[${judgment.judgeFriendlyName}]: ${score.feedback}`);
+        const source =
+          judgment.sample !== undefined
+            ? `${judgment.judgeFriendlyName}, sample ${judgment.sample}`
+            : judgment.judgeFriendlyName;
+        criteriaFeedback[score.criterion].feedback.push(`[${source}]: ${score.feedback}`);
+      }
+      for (const citation of score.citations ?? []) {
+        if (citation.verified === false) continue;
+        const where =
+          post !== undefined && citation.start !== undefined ? `Line ${lineAt(post, citation.start)}, ` : '';
+        const fix = citation.fix.trim() ? ` Fix: ${citation.fix}` : '';
+        criteriaFeedback[score.criterion].citations.push(`${where}"${citation.quote}": ${citation.issue}${fix}`);
       }
     }
   }
@@ -61,7 +101,8 @@ export function formatFeedbackForWriter(judgments: JudgmentResult[]): string {
     const avgScore = data.scores.reduce((a, b) => a + b, 0) / data.scores.length;
     const scoreRange = `${Math.min(...data.scores)}-${Math.max(...data.scores)}`;
 
-    let section = `## ${criterion.charAt(0).toUpperCase() + criterion.slice(1)}\n`;
+    const name = rubric.criteria.find((c) => c.key === criterion)?.name ?? criterion;
+    let section = `## ${name}\n`;
     section += `Average Score: ${avgScore.toFixed(1)}/100 (range: ${scoreRange})\n\n`;
 
     if (data.feedback.length > 0) {
@@ -71,10 +112,17 @@ export function formatFeedbackForWriter(judgments: JudgmentResult[]): string {
       }
     }
 
+    if (data.citations.length > 0) {
+      section += `${data.feedback.length > 0 ? '\n' : ''}Cited passages:\n`;
+      for (const citation of data.citations) {
+        section += `- ${citation}\n`;
+      }
+    }
+
     sections.push(section);
   }
 
-  const overallAvg = computeOverallFromJudgments(judgments);
+  const overallAvg = computeOverallFromJudgments(judgments, rubric, aggregation);
 
   let result = `# Judge Feedback Summary\n\n`;
   result += `Overall Average Score (computed): ${overallAvg.toFixed(1)}/100\n\n`;
@@ -87,6 +135,15 @@ export function formatFeedbackForWriter(judgments: JudgmentResult[]): string {
   return result;
 }
 
+/**
+ * Feedback section listing the hard limits a post breaks (empty when it breaks none).
+ */
+export function formatLimitsForWriter(disqualified: string[] | undefined): string {
+  if (!disqualified || disqualified.length === 0) return '';
+  const reasons = disqualified.map((reason) => `- ${reason}`).join('\n');
+  return `\n\n# Hard Limits\n\nThe post is disqualified until it meets these limits, whatever its scores:\n${reasons}\n`;
+}
+
 // =============================================================================
 // Post Refinement
 // =============================================================================
@@ -117,15 +174,19 @@ Important:
 - Do not wrap your output in code fences (no \`\`\`markdown blocks)`;
 
 /**
- * Generate an improved version of a post using judge feedback.
+ * Generate an improved version of a post using judge feedback, grounded in the reference documents if any.
+ * Returns the refined text and the usage of the refine call.
  */
 export async function refinePost(
   post: string,
   writerModel: ModelConfig,
   feedback: string,
-  mode: RefinementMode = 'blog'
-): Promise<string> {
+  mode: RefinementMode = 'blog',
+  signal?: AbortSignal,
+  references: ReferenceDocument[] = []
+): Promise<GenerateResult> {
   const systemPrompt = mode === 'generic' ? GENERIC_REFINEMENT_SYSTEM_PROMPT : BLOG_REFINEMENT_SYSTEM_PROMPT;
+  const grounding = references.length > 0 ? `\n\n${getReferenceInstructions(references)}` : '';
 
   const userPrompt = `Here is the current draft:
 
@@ -133,11 +194,11 @@ export async function refinePost(
 ${post}
 ---
 
-${feedback}
+${feedback}${grounding}
 
 Please provide the improved version of the entire draft:`;
 
-  return generate(writerModel, systemPrompt, userPrompt);
+  return generate(writerModel, systemPrompt, userPrompt, { signal });
 }
 
 // =============================================================================
@@ -165,6 +226,24 @@ export interface FlywheelOptions {
   patience?: number;
   /** Callback invoked after each iteration */
   onIteration?: (iteration: FlywheelIteration) => void;
+  /** Stops the loop (stoppedReason "interrupted") and cancels in-flight requests when aborted */
+  signal?: AbortSignal;
+  /** Rubric to judge against (defaults to the active rubric) */
+  rubric?: Rubric;
+  /** Times each judge scores each iteration (default: 1) */
+  judgeSamples?: number;
+  /** How each judge's samples are combined (default: per-judge mean) */
+  aggregation?: AggregationSettings;
+  /** Also score each iteration with the style linter as a pseudo-judge */
+  lint?: boolean;
+  /** Rewrite fixable AP Style violations in each iteration before it is judged */
+  apStyleFix?: boolean;
+  /** Hard limits; an iteration that breaks one cannot become the best iteration or meet the threshold */
+  limits?: ReadabilityLimits;
+  /** Reference documents the judges check claims against and the writer refines from */
+  references?: ReferenceDocument[];
+  /** Have judges list each iteration's factual claims; unsupported ones are fed back to the writer */
+  claims?: boolean;
 }
 
 function generateSessionId(): string {
@@ -185,31 +264,73 @@ export async function runFlywheel(options: FlywheelOptions): Promise<FlywheelSes
     minImprovement = 0,
     patience = 0,
     onIteration,
+    signal,
+    rubric = getActiveRubric(),
+    judgeSamples = 1,
+    aggregation = DEFAULT_AGGREGATION,
+    lint = false,
+    apStyleFix = false,
+    limits = {},
+    references = [],
+    claims = false,
   } = options;
 
   const sessionId = generateSessionId();
   const iterations: FlywheelIteration[] = [];
 
   let currentPost = initialPost;
+  // Usage of the refine call that produced currentPost (none for the initial post).
+  let currentUsage: CallUsage | undefined;
   let stoppedReason: FlywheelSession['stoppedReason'] = 'max_iterations';
 
   let bestScore = 0;
   let bestIteration = 0;
+  // Sampling standard error of bestScore (0 with a single sample per judge)
+  let bestStandardError = 0;
   let nonImprovingCount = 0;
 
   for (let i = 1; i <= maxIterations; i++) {
-    const postResult: WriterResult = {
-      modelId: writerModel.modelId,
-      friendlyName: writerModel.friendlyName,
-      content: currentPost,
-      generatedAt: new Date(),
-    };
+    if (signal?.aborted) {
+      stoppedReason = 'interrupted';
+      break;
+    }
 
-    const judged = await judgePostWithMultipleJudges(judgeModels, postResult);
+    const styled: WriterResult = applyApStyle(
+      {
+        contestantId: getContestantId(writerModel),
+        modelId: writerModel.modelId,
+        friendlyName: writerModel.friendlyName,
+        content: currentPost,
+        generatedAt: new Date(),
+        params: writerModel.params,
+        usage: currentUsage,
+      },
+      apStyleFix
+    );
+    const postResult = applyReadability(styled, limits);
+    // With apStyleFix the judges, feedback and next refinement all see the fixed text.
+    currentPost = postResult.content;
+
+    const judged = await judgePostWithMultipleJudges(judgeModels, postResult, undefined, {
+      signal,
+      rubric,
+      samples: judgeSamples,
+      lint,
+      references,
+      claims,
+    });
+
+    // An iteration cut short by an interrupt is only kept if some judge finished scoring it.
+    if (signal?.aborted && judged.judgments.length === 0) {
+      stoppedReason = 'interrupted';
+      break;
+    }
 
-    const averageScore = computeOverallFromJudgments(judged.judgments);
-    const averageScoreJudgeReported = judged.judgments.length
-      ? judged.judgments.reduce((sum, j) => sum + j.overallScore, 0) / judged.judgments.length
+    const averageScore = computeOverallFromJudgments(judged.judgments, rubric, aggregation);
+    const noise = computeJudgeNoise(judged.judgments, rubric, aggregation);
+    const reported = judged.judgments.filter((j) => !isLintJudgment(j));
+    const averageScoreJudgeReported = reported.length
+      ? reported.reduce((sum, j) => sum + j.overallScore, 0) / reported.length
       : 0;
 
     const iteration: FlywheelIteration = {
@@ -219,21 +340,32 @@ export async function runFlywheel(options: FlywheelOptions): Promise<FlywheelSes
       judgeFailures: judged.failures,
       averageScore,
       averageScoreJudgeReported,
+      noise,
+      unsupportedClaims: countUnsupportedClaims(judged.judgments),
     };
     iterations.push(iteration);
 
     onIteration?.(iteration);
 
-    // Track best iteration
-    if (averageScore > bestScore + minImprovement) {
+    // Track best iteration; a gain within the combined sampling noise is not an improvement
+    const standardError = noise?.standardError ?? 0;
+    const noiseMargin = Math.sqrt(standardError ** 2 + bestStandardError ** 2);
+    const qualified = !postResult.disqualified;
+    if (qualified && averageScore > bestScore + Math.max(minImprovement, noiseMargin)) {
       bestScore = averageScore;
       bestIteration = i;
+      bestStandardError = standardError;
       nonImprovingCount = 0;
     } else {
       nonImprovingCount++;
     }
 
-    if (averageScore >= threshold) {
+    if (signal?.aborted) {
+      stoppedReason = 'interrupted';
+      break;
+    }
+
+    if (qualified && averageScore >= threshold) {
       stoppedReason = 'threshold';
       break;
     }
@@ -244,14 +376,26 @@ export async function runFlywheel(options: FlywheelOptions): Promise<FlywheelSes
     }
 
     if (i < maxIterations) {
-      const feedback = formatFeedbackForWriter(judged.judgments);
-      currentPost = await refinePost(currentPost, writerModel, feedback, refinementMode);
+      const feedback =
+        formatFeedbackForWriter(judged.judgments, rubric, aggregation, currentPost) +
+        formatClaimsForWriter(judged.judgments, currentPost) +
+        formatLimitsForWriter(postResult.disqualified);
+      let refined: GenerateResult;
+      try {
+        refined = await refinePost(currentPost, writerModel, feedback, refinementMode, signal, references);
+      } catch (err) {
+        if (!signal?.aborted) throw err;
+        stoppedReason = 'interrupted';
+        break;
+      }
+      currentPost = refined.text;
+      currentUsage = refined.usage;
     }
   }
 
   const lastIteration = iterations[iterations.length - 1];
 
-  // Fallback: if we never set bestIteration (e.g., empty judgments), use last.
+  // Fallback: if we never set bestIteration (e.g., empty judgments or every iteration disqualified), use last.
   if (iterations.length > 0 && bestIteration === 0) {
     bestIteration = lastIteration.iteration;
     bestScore = lastIteration.averageScore;
@@ -264,10 +408,12 @@ export async function runFlywheel(options: FlywheelOptions): Promise<FlywheelSes
 
   const finalPost: WriterResult | null = chosenIteration
     ? {
+        contestantId: getContestantId(writerModel),
         modelId: writerModel.modelId,
         friendlyName: writerModel.friendlyName,
         content: chosenIteration.post.content,
         generatedAt: chosenIteration.post.generatedAt,
+        params: writerModel.params,
       }
     : null;
 
@@ -277,11 +423,24 @@ export async function runFlywheel(options: FlywheelOptions): Promise<FlywheelSes
     id: sessionId,
     originalPost: initialPost,
     writerModel,
+    judgeModels,
+    rubric,
+    judgeSamples,
+    aggregation,
+    lint: lint || undefined,
+    apStyleFix: apStyleFix || undefined,
+    limits: Object.keys(limits).length > 0 ? limits : undefined,
+    claims: claims || undefined,
+    references: references.length > 0 ? references : undefined,
     iterations,
     finalPost,
     finalScore,
     bestScore,
     bestIteration,
     stoppedReason,
+    usage: buildUsageReport(
+      iterations.map((it) => it.post),
+      iterations.flatMap((it) => it.judgments)
+    ),
   };
 }
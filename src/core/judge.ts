@@ -9,120 +9,280 @@ import type {
   AggregatedResult,
   ModelConfig,
   WriterResult,
-  JudgingCriteria,
   JudgeFailure,
+  CallUsage,
+  Rubric,
+  SelfJudgingPolicy,
+  SelfPreference,
+  ScoreDispersion,
+  JudgeAgreement,
+  JudgeNoise,
+  AggregationSettings,
+  Citation,
+  Claim,
+  ReferenceDocument,
 } from '../types/index.js';
-import { CRITERIA_WEIGHTS } from '../types/index.js';
-import { generate } from '../providers/ai.js';
-import { JUDGE_SYSTEM_PROMPT, getJudgePrompt } from '../prompts/judge.js';
-import { getMaxConcurrency } from '../config/env.js';
+import {
+  generate,
+  generateStructured,
+  failedStructuredUsage,
+  isInvalidStructuredOutputError,
+  isStructuredOutputUnsupportedError,
+} from '../providers/ai.js';
+import {
+  CLAIM_KINDS,
+  CLAIM_STATUSES,
+  JUDGE_SYSTEM_PROMPT,
+  getJudgeOutputSchema,
+  getJudgePrompt,
+} from '../prompts/judge.js';
+import { getDisagreementStdDev, getMaxConcurrency, getTextOutputJudgeModels } from '../config/env.js';
+import { getActiveRubric, normalizeCriterionLabel } from '../config/rubric.js';
 import { pLimit } from '../utils/limit.js';
+import { combineUsage } from './usage.js';
+import { calibrateScores, findJudgeCalibration } from './calibration.js';
+import { verifyCitations } from './citations.js';
+import { countUnsupported, verifyClaims } from './claims.js';
+import { isLintJudgment, lintJudgment } from './lint.js';
 
 export interface JudgeRunResult {
   judgments: JudgmentResult[];
   failures: JudgeFailure[];
 }
 
-const CRITERIA_KEYS = Object.keys(CRITERIA_WEIGHTS) as Array<keyof JudgingCriteria>;
+/**
+ * Options shared by the judging entry points.
+ */
+export interface JudgeOptions {
+  /**
+   * Once aborted, no new judgments are started and in-flight requests are cancelled.
+   * Cancelled pairs are omitted from both judgments and failures.
+   */
+  signal?: AbortSignal;
+  /** Called as soon as each judgment completes, e.g. to checkpoint it to disk */
+  onResult?: (judgment: JudgmentResult) => Promise<void> | void;
+  /** Rubric to judge against (defaults to the active rubric) */
+  rubric?: Rubric;
+  /** "exclude" skips judges grading their own model's post (judgeAllPosts only) */
+  selfJudging?: SelfJudgingPolicy;
+  /** Times each judge scores each post (judgeAllPosts and judgePostWithMultipleJudges; default 1) */
+  samples?: number;
+  /**
+   * Also score each post with the style linter as a pseudo-judge (judgeAllPosts and
+   * judgePostWithMultipleJudges). Lint judgments are not passed to onResult.
+   */
+  lint?: boolean;
+  /** Reference documents judges check the post's factual claims against */
+  references?: ReferenceDocument[];
+  /** Also have judges list the post's factual claims and how each is backed */
+  claims?: boolean;
+}
 
-function normalizeCriterion(raw: unknown): keyof JudgingCriteria | null {
-  if (typeof raw !== 'string') return null;
-  const key = raw.trim().toLowerCase().replace(/[^a-z]/g, '');
-
-  // Accept a few common variations.
-  switch (key) {
-    case 'narrative':
-    case 'narrativeflow':
-    case 'flow':
-      return 'narrative';
-    case 'structure':
-      return 'structure';
-    case 'audiencefit':
-    case 'audience':
-      return 'audienceFit';
-    case 'accuracy':
-      return 'accuracy';
-    case 'aidetection':
-    case 'ai':
-    case 'aiflag':
-      return 'aiDetection';
-    default:
-      return null;
+/**
+ * A single judge/post assignment.
+ */
+export interface JudgePair {
+  judge: ModelConfig;
+  post: WriterResult;
+  /** 1-based repeat index when the judge scores the post more than once */
+  sample?: number;
+}
+
+/**
+ * Judges (and each judge's samples) are combined with the arithmetic mean unless configured otherwise.
+ */
+export const DEFAULT_AGGREGATION: AggregationSettings = { strategy: 'mean', sampleStatistic: 'mean' };
+
+// Sample indexes for n repeats; a single sample carries no index.
+function sampleIndexes(samples: number = 1): Array<number | undefined> {
+  return samples > 1 ? Array.from({ length: samples }, (_, i) => i + 1) : [undefined];
+}
+
+// Compare models by name only, so "openrouter:anthropic/claude-opus-4.5" and
+// "anthropic:claude-opus-4-5" count as the same model.
+function canonicalModelName(modelId: string): string {
+  return (modelId.split('/').pop() ?? modelId).toLowerCase().replace(/[._]/g, '-');
+}
+
+/**
+ * Whether a judge is the same model that wrote a post.
+ */
+export function isSelfJudgment(judgeModelId: string, postModelId: string): boolean {
+  return canonicalModelName(judgeModelId) === canonicalModelName(postModelId);
+}
+
+/**
+ * Every judge/post pair, minus self-judgments when the policy is "exclude".
+ * With several samples each pair appears once per sample.
+ */
+export function buildJudgePairs(
+  judges: ModelConfig[],
+  posts: WriterResult[],
+  selfJudging: SelfJudgingPolicy = 'include',
+  samples: number = 1
+): JudgePair[] {
+  const pairs: JudgePair[] = [];
+  for (const post of posts) {
+    for (const judge of judges) {
+      if (selfJudging === 'exclude' && isSelfJudgment(judge.modelId, post.modelId)) continue;
+      for (const sample of sampleIndexes(samples)) {
+        pairs.push(sample === undefined ? { judge, post } : { judge, post, sample });
+      }
+    }
   }
+  return pairs;
 }
 
-export function computeOverallFromScores(scores: CriterionScore[]): number {
-  const scoreByCriterion = new Map<keyof JudgingCriteria, number>();
-  for (const s of scores) {
-    scoreByCriterion.set(s.criterion, s.score);
+/**
+ * Map a judge-supplied criterion label to a rubric key, accepting names and aliases.
+ */
+export function normalizeCriterion(raw: unknown, rubric: Rubric): string | null {
+  if (typeof raw !== 'string') return null;
+  const label = normalizeCriterionLabel(raw);
+
+  for (const criterion of rubric.criteria) {
+    const accepted = [criterion.key, criterion.name, ...(criterion.aliases ?? [])];
+    if (accepted.some((a) => normalizeCriterionLabel(a) === label)) {
+      return criterion.key;
+    }
   }
+  return null;
+}
 
+// Weighted average over the rubric; criteria without a score count as 0.
+function weightedAverage(scoreFor: (key: string) => number, rubric: Rubric): number {
   let totalWeight = 0;
   let weightedSum = 0;
 
-  for (const criterion of CRITERIA_KEYS) {
-    const weight = CRITERIA_WEIGHTS[criterion];
-    const score = scoreByCriterion.get(criterion) ?? 0;
-    weightedSum += score * weight;
-    totalWeight += weight;
+  for (const criterion of rubric.criteria) {
+    weightedSum += scoreFor(criterion.key) * criterion.weight;
+    totalWeight += criterion.weight;
   }
 
   return totalWeight > 0 ? weightedSum / totalWeight : 0;
 }
 
-export function computeOverallFromJudgments(judgments: JudgmentResult[]): number {
-  if (judgments.length === 0) return 0;
+// Combine one criterion's scores from several judges with the configured strategy.
+function combineJudges(scores: Array<{ judge: string; score: number }>, aggregation: AggregationSettings): number {
+  const values = scores.map((s) => s.score);
+  switch (aggregation.strategy) {
+    case 'median':
+      return median(values);
+    case 'trimmed': {
+      // Drop the single highest and lowest judge; with fewer than three judges nothing is left to trim
+      if (values.length < 3) return mean(values);
+      return mean([...values].sort((a, b) => a - b).slice(1, -1));
+    }
+    case 'weighted': {
+      const weightOf = (judge: string) => aggregation.judgeWeights?.[judge] ?? 1;
+      const totalWeight = scores.reduce((sum, s) => sum + weightOf(s.judge), 0);
+      return scores.reduce((sum, s) => sum + s.score * weightOf(s.judge), 0) / totalWeight;
+    }
+    default:
+      return mean(values);
+  }
+}
 
-  // Average each criterion across judges, then apply weights.
-  const sums: Record<keyof JudgingCriteria, number> = {
-    narrative: 0,
-    structure: 0,
-    audienceFit: 0,
-    accuracy: 0,
-    aiDetection: 0,
-  };
+// Combine each criterion across judgments (one per judge); criteria nobody scored average to 0.
+function averageCriterionScores(
+  judgments: JudgmentResult[],
+  rubric: Rubric,
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION
+): Record<string, number> {
+  const averages: Record<string, number> = {};
+
+  for (const criterion of rubric.criteria) {
+    const scores: Array<{ judge: string; score: number }> = [];
+
+    for (const judgment of judgments) {
+      const score = judgment.scores.find((s) => s.criterion === criterion.key);
+      if (score) {
+        scores.push({ judge: judgment.judgeFriendlyName, score: score.score });
+      }
+    }
 
-  const counts: Record<keyof JudgingCriteria, number> = {
-    narrative: 0,
-    structure: 0,
-    audienceFit: 0,
-    accuracy: 0,
-    aiDetection: 0,
-  };
+    averages[criterion.key] = scores.length > 0 ? combineJudges(scores, aggregation) : 0;
+  }
 
-  for (const j of judgments) {
-    for (const s of j.scores) {
-      sums[s.criterion] += s.score;
-      counts[s.criterion] += 1;
-    }
+  return averages;
+}
+
+export function computeOverallFromScores(scores: CriterionScore[], rubric: Rubric = getActiveRubric()): number {
+  const scoreByCriterion = new Map<string, number>();
+  for (const s of scores) {
+    scoreByCriterion.set(s.criterion, s.score);
   }
 
-  const averaged: Record<keyof JudgingCriteria, number> = {
-    narrative: counts.narrative ? sums.narrative / counts.narrative : 0,
-    structure: counts.structure ? sums.structure / counts.structure : 0,
-    audienceFit: counts.audienceFit ? sums.audienceFit / counts.audienceFit : 0,
-    accuracy: counts.accuracy ? sums.accuracy / counts.accuracy : 0,
-    aiDetection: counts.aiDetection ? sums.aiDetection / counts.aiDetection : 0,
-  };
+  return weightedAverage((key) => scoreByCriterion.get(key) ?? 0, rubric);
+}
 
-  let totalWeight = 0;
-  let weightedSum = 0;
-  for (const criterion of CRITERIA_KEYS) {
-    const weight = CRITERIA_WEIGHTS[criterion];
-    weightedSum += averaged[criterion] * weight;
-    totalWeight += weight;
+export function computeOverallFromJudgments(
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION
+): number {
+  if (judgments.length === 0) return 0;
+
+  // Calibrate, combine each judge's samples, combine each criterion across judges, then apply weights.
+  const perJudge = collapseSamples(applyCalibration(judgments, rubric, aggregation), rubric, aggregation);
+  const averaged = averageCriterionScores(perJudge, rubric, aggregation);
+  return weightedAverage((key) => averaged[key], rubric);
+}
+
+function validateCitations(input: unknown, criterion: string): Citation[] | undefined {
+  if (input === undefined) return undefined;
+  if (!Array.isArray(input)) {
+    throw new Error(`Invalid judge response: citations for "${criterion}" must be an array`);
   }
 
-  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+  return input.map((raw) => {
+    const { quote, issue, fix } = (raw ?? {}) as Record<string, unknown>;
+    if (typeof quote !== 'string' || quote.trim().length === 0) {
+      throw new Error(`Invalid judge response: each citation for "${criterion}" needs a non-empty "quote"`);
+    }
+    if (typeof issue !== 'string' || typeof fix !== 'string') {
+      throw new Error(`Invalid judge response: citation "issue" and "fix" for "${criterion}" must be strings`);
+    }
+    return { quote, issue, fix };
+  });
 }
 
-function validateAndNormalizeScores(input: unknown): { scores: CriterionScore[]; warnings: string[] } {
+function validateClaims(input: unknown): Claim[] | undefined {
+  if (input === undefined) return undefined;
+  if (!Array.isArray(input)) {
+    throw new Error('Invalid judge response: "claims" must be an array');
+  }
+
+  return input.map((raw) => {
+    const { quote, kind, status, note } = (raw ?? {}) as Record<string, unknown>;
+    if (typeof quote !== 'string' || quote.trim().length === 0) {
+      throw new Error('Invalid judge response: each claim needs a non-empty "quote"');
+    }
+    const normalizedKind = typeof kind === 'string' ? kind.trim().toLowerCase() : kind;
+    if (!CLAIM_KINDS.includes(normalizedKind as Claim['kind'])) {
+      throw new Error(`Invalid judge response: claim "kind" must be one of: ${CLAIM_KINDS.join(', ')}`);
+    }
+    const normalizedStatus = typeof status === 'string' ? status.trim().toLowerCase() : status;
+    if (!CLAIM_STATUSES.includes(normalizedStatus as Claim['status'])) {
+      throw new Error(`Invalid judge response: claim "status" must be one of: ${CLAIM_STATUSES.join(', ')}`);
+    }
+    if (typeof note !== 'string') {
+      throw new Error('Invalid judge response: claim "note" must be a string');
+    }
+    return { quote, kind: normalizedKind as Claim['kind'], status: normalizedStatus as Claim['status'], note };
+  });
+}
+
+function validateAndNormalizeScores(
+  input: unknown,
+  rubric: Rubric
+): { scores: CriterionScore[]; warnings: string[] } {
   if (!Array.isArray(input)) {
     throw new Error('Invalid judge response: "scores" must be an array');
   }
 
   const warnings: string[] = [];
-  const seen = new Set<keyof JudgingCriteria>();
+  const seen = new Set<string>();
   const normalized: CriterionScore[] = [];
 
   for (const raw of input) {
@@ -131,7 +291,7 @@ function validateAndNormalizeScores(input: unknown): { scores: CriterionScore[];
     }
 
     const record = raw as Record<string, unknown>;
-    const criterion = normalizeCriterion(record.criterion);
+    const criterion = normalizeCriterion(record.criterion, rubric);
     if (!criterion) {
       throw new Error(
         `Invalid judge response: unknown criterion "${String(record.criterion)}"`
@@ -160,18 +320,19 @@ function validateAndNormalizeScores(input: unknown): { scores: CriterionScore[];
       warnings.push(`Empty feedback for criterion "${criterion}"`);
     }
 
-    normalized.push({ criterion, score, feedback });
+    const citations = validateCitations(record.citations, criterion);
+    normalized.push(citations ? { criterion, score, feedback, citations } : { criterion, score, feedback });
   }
 
   // Ensure all criteria are present exactly once.
-  for (const required of CRITERIA_KEYS) {
-    if (!seen.has(required)) {
-      throw new Error(`Invalid judge response: missing criterion "${required}"`);
+  for (const required of rubric.criteria) {
+    if (!seen.has(required.key)) {
+      throw new Error(`Invalid judge response: missing criterion "${required.key}"`);
     }
   }
 
-  if (normalized.length !== CRITERIA_KEYS.length) {
-    throw new Error(`Invalid judge response: expected ${CRITERIA_KEYS.length} scores`);
+  if (normalized.length !== rubric.criteria.length) {
+    throw new Error(`Invalid judge response: expected ${rubric.criteria.length} scores`);
   }
 
   return { scores: normalized, warnings };
@@ -182,15 +343,10 @@ function validateAndNormalizeScores(input: unknown): { scores: CriterionScore[];
 // =============================================================================
 
 /**
- * Parse a judgment response from an LLM into a structured JudgmentResult.
- * Handles both raw JSON and JSON wrapped in markdown code blocks.
+ * Parse a JSON object out of an LLM text response, unwrapping markdown code blocks if present.
+ * @param role - Used in the error message, e.g. "judge"
  */
-export function parseJudgmentResponse(
-  response: string,
-  judgeModel: ModelConfig,
-  postModelId: string
-): JudgmentResult {
-  // Extract JSON from markdown code blocks if present
+export function parseJsonResponse(response: string, role: string): unknown {
   let jsonStr = response.trim();
 
   const jsonBlockMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
@@ -198,22 +354,57 @@ export function parseJudgmentResponse(
     jsonStr = jsonBlockMatch[1].trim();
   }
 
-  let parsed: unknown;
   try {
-    parsed = JSON.parse(jsonStr);
+    return JSON.parse(jsonStr);
   } catch (error) {
     throw new Error(
-      `Failed to parse judge response as JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to parse ${role} response as JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   }
+}
 
+/**
+ * Parse a judgment response from an LLM into a structured JudgmentResult.
+ * Handles both raw JSON and JSON wrapped in markdown code blocks.
+ * @param postContent - Text the judge was shown; cited quotes are verified against it when given
+ */
+export function parseJudgmentResponse(
+  response: string,
+  judgeModel: ModelConfig,
+  postModelId: string,
+  postContestantId: string = postModelId,
+  rubric: Rubric = getActiveRubric(),
+  postContent?: string
+): JudgmentResult {
+  const parsed = parseJsonResponse(response, 'judge');
+  return parseJudgmentObject(parsed, judgeModel, postModelId, postContestantId, rubric, postContent);
+}
+
+/**
+ * Validate an already-parsed judge object (from structured output or parsed text)
+ * and build a JudgmentResult from it.
+ * @param postContent - Text the judge was shown; cited quotes are verified against it when given
+ */
+export function parseJudgmentObject(
+  parsed: unknown,
+  judgeModel: ModelConfig,
+  postModelId: string,
+  postContestantId: string = postModelId,
+  rubric: Rubric = getActiveRubric(),
+  postContent?: string
+): JudgmentResult {
   if (typeof parsed !== 'object' || parsed === null) {
     throw new Error('Invalid judge response: root must be a JSON object');
   }
 
   const record = parsed as Record<string, unknown>;
 
-  const { scores, warnings } = validateAndNormalizeScores(record.scores);
+  const validated = validateAndNormalizeScores(record.scores, rubric);
+  // Without the text the judge saw, cited quotes are left unchecked.
+  const { scores, warnings: quoteWarnings } =
+    postContent === undefined
+      ? { scores: validated.scores, warnings: [] }
+      : verifyCitations(validated.scores, postContent);
 
   const overallScore = record.overallScore;
   if (typeof overallScore !== 'number' || !Number.isFinite(overallScore)) {
@@ -223,8 +414,14 @@ export function parseJudgmentResponse(
     throw new Error('Invalid judge response: "overallScore" must be 1-100');
   }
 
-  const overallScoreComputed = computeOverallFromScores(scores);
-  const parseWarnings = [...warnings];
+  const listedClaims = validateClaims(record.claims);
+  const { claims, warnings: claimWarnings } =
+    listedClaims === undefined || postContent === undefined
+      ? { claims: listedClaims, warnings: [] }
+      : verifyClaims(listedClaims, postContent);
+
+  const overallScoreComputed = computeOverallFromScores(scores, rubric);
+  const parseWarnings = [...validated.warnings, ...quoteWarnings, ...claimWarnings];
 
   // If the judge-reported overall differs substantially, keep a warning.
   if (Math.abs(overallScore - overallScoreComputed) >= 5) {
@@ -236,11 +433,14 @@ export function parseJudgmentResponse(
   return {
     judgeModelId: judgeModel.modelId,
     judgeFriendlyName: judgeModel.friendlyName,
+    judgeParams: judgeModel.params,
     postModelId,
+    postContestantId,
     scores,
     overallScore,
     overallScoreComputed,
     parseWarnings: parseWarnings.length ? parseWarnings : undefined,
+    ...(claims ? { claims } : {}),
     judgedAt: new Date(),
   };
 }
@@ -249,7 +449,12 @@ export function parseJudgmentResponse(
 // Single Judge Evaluation
 // =============================================================================
 
-function buildRepairPrompt(originalPrompt: string, badResponse: string, errorMessage: string): string {
+function buildRepairPrompt(
+  originalPrompt: string,
+  badResponse: string,
+  errorMessage: string,
+  rubric: Rubric
+): string {
   return `${originalPrompt}
 
 ---
@@ -259,211 +464,531 @@ Your previous response was invalid JSON (or did not match the required schema).
 Error: ${errorMessage}
 
 Return ONLY a valid JSON object with:
-- "scores": an array of exactly ${CRITERIA_KEYS.length} objects (one per criterion)
+- "scores": an array of exactly ${rubric.criteria.length} objects (one per criterion)
 - "overallScore": a number 1-100
 
 Rules:
-- Use criteria exactly from this set: ${CRITERIA_KEYS.map((c) => `"${c}"`).join(', ')}
+- Use criteria exactly from this set: ${rubric.criteria.map((c) => `"${c.key}"`).join(', ')}
 - Each criterion must appear exactly once
 - Scores must be integers or decimals between 1 and 100
+- Each score may have "citations": an array of { "quote", "issue", "fix" } strings, quoting the post verbatim
 - Do not wrap JSON in code fences
 
 Invalid response (for reference only):
 ${badResponse}`;
 }
 
+// Judges whose structured output failed during this process; later calls go straight to text.
+const structuredOutputFallbacks = new Set<string>();
+
+function modelKey(model: ModelConfig): string {
+  return `${model.provider}:${model.modelId}`;
+}
+
 /**
- * Judge a single post using a single judge model.
- * Retries once with a repair prompt if the judge returns invalid JSON.
+ * Whether a judge should be asked for structured output (not configured or detected as text-only).
+ */
+export function useStructuredOutput(judgeModel: ModelConfig): boolean {
+  const key = modelKey(judgeModel);
+  if (structuredOutputFallbacks.has(key)) return false;
+  return !getTextOutputJudgeModels().some((m) => m.toLowerCase() === key.toLowerCase());
+}
+
+/**
+ * Send later calls for this judge straight to the text path for the rest of the process.
  */
-export async function judgePost(judgeModel: ModelConfig, post: WriterResult): Promise<JudgmentResult> {
-  const userPrompt = getJudgePrompt(post.content);
+export function markStructuredOutputUnsupported(judgeModel: ModelConfig): void {
+  structuredOutputFallbacks.add(modelKey(judgeModel));
+}
+
+// Appends parse warnings and refreshes the cache-hit flag from the (possibly combined) usage.
+function withWarnings(judgment: JudgmentResult, warnings: string[]): JudgmentResult {
+  judgment.parseWarnings = [...(judgment.parseWarnings ?? []), ...warnings];
+  judgment.cacheHit = judgment.usage?.cached;
+  return judgment;
+}
 
-  const response = await generate(judgeModel, JUDGE_SYSTEM_PROMPT, userPrompt);
+/**
+ * Judge a post through the text path: free-form response, JSON extraction,
+ * and one repair attempt if the response does not validate.
+ */
+async function judgePostWithText(
+  judgeModel: ModelConfig,
+  post: WriterResult,
+  userPrompt: string,
+  options: JudgeOptions,
+  rubric: Rubric,
+  sample: number | undefined
+): Promise<JudgmentResult> {
+  const callOptions = { signal: options.signal, sample };
+  const response = await generate(judgeModel, JUDGE_SYSTEM_PROMPT, userPrompt, callOptions);
 
   try {
-    return parseJudgmentResponse(response, judgeModel, post.modelId);
+    const judgment = parseJudgmentResponse(
+      response.text,
+      judgeModel,
+      post.modelId,
+      post.contestantId,
+      rubric,
+      post.content
+    );
+    judgment.usage = response.usage;
+    return judgment;
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
 
     const repairedResponse = await generate(
       judgeModel,
       JUDGE_SYSTEM_PROMPT,
-      buildRepairPrompt(userPrompt, response, message)
+      buildRepairPrompt(userPrompt, response.text, message, rubric),
+      callOptions
     );
 
-    const repaired = parseJudgmentResponse(repairedResponse, judgeModel, post.modelId);
-    repaired.parseWarnings = [...(repaired.parseWarnings ?? []), 'Repaired invalid judge output'];
-    return repaired;
+    const repaired = parseJudgmentResponse(
+      repairedResponse.text,
+      judgeModel,
+      post.modelId,
+      post.contestantId,
+      rubric,
+      post.content
+    );
+    repaired.usage = combineUsage(response.usage, repairedResponse.usage);
+    return withWarnings(repaired, ['Repaired invalid judge output']);
   }
 }
 
+/**
+ * Judge a single post using a single judge model.
+ * Prefers schema-constrained structured output; falls back to the text path
+ * (with a repair retry) for judges configured or detected as unsupported.
+ * @param sample - Repeat index when the judge scores the post more than once; recorded on the judgment
+ */
+export async function judgePost(
+  judgeModel: ModelConfig,
+  post: WriterResult,
+  options: JudgeOptions = {},
+  sample?: number
+): Promise<JudgmentResult> {
+  let judgment = await judgePostOnce(judgeModel, post, options, sample);
+  if (options.claims && !judgment.claims) judgment = withWarnings(judgment, ['No claim list returned']);
+  if (sample !== undefined) judgment.sample = sample;
+  return judgment;
+}
+
+async function judgePostOnce(
+  judgeModel: ModelConfig,
+  post: WriterResult,
+  options: JudgeOptions,
+  sample: number | undefined
+): Promise<JudgmentResult> {
+  const rubric = options.rubric ?? getActiveRubric();
+  const userPrompt = getJudgePrompt(post.content, rubric, options.references, options.claims);
+
+  if (!useStructuredOutput(judgeModel)) {
+    const judgment = await judgePostWithText(judgeModel, post, userPrompt, options, rubric, sample);
+    return withWarnings(judgment, ['Judged via text output']);
+  }
+
+  let structuredError: string;
+  let structuredUsage: CallUsage | undefined;
+  const startedAt = Date.now();
+  try {
+    const structured = await generateStructured(
+      judgeModel,
+      JUDGE_SYSTEM_PROMPT,
+      userPrompt,
+      getJudgeOutputSchema(rubric, options.claims),
+      { signal: options.signal, sample }
+    );
+    structuredUsage = structured.usage;
+    try {
+      const judgment = parseJudgmentObject(
+        structured.object,
+        judgeModel,
+        post.modelId,
+        post.contestantId,
+        rubric,
+        post.content
+      );
+      judgment.usage = structured.usage;
+      return withWarnings(judgment, ['Judged via structured output']);
+    } catch (error) {
+      // Schema-valid but semantically invalid (e.g. duplicate criteria): retry this call as text only.
+      structuredError = error instanceof Error ? error.message : 'Unknown error';
+    }
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    if (isStructuredOutputUnsupportedError(error)) {
+      // The provider cannot produce structured output for this model; stop trying for the session.
+      markStructuredOutputUnsupported(judgeModel);
+    } else if (!isInvalidStructuredOutputError(error)) {
+      // Rate limits, timeouts, network errors and cassette misses are failures resume and rejudge can retry.
+      throw error;
+    }
+    structuredError = error instanceof Error ? error.message : 'Unknown error';
+    structuredUsage = failedStructuredUsage(judgeModel, error, startedAt);
+  }
+
+  const judgment = await judgePostWithText(judgeModel, post, userPrompt, options, rubric, sample);
+  judgment.usage = combineUsage(structuredUsage, judgment.usage);
+  return withWarnings(judgment, [`Judged via text output (structured output failed: ${structuredError})`]);
+}
+
 // =============================================================================
 // Multi-Judge Evaluation
 // =============================================================================
 
+type JudgeTaskResult =
+  | { ok: true; result: JudgmentResult }
+  | { ok: false; failure: JudgeFailure }
+  | { ok: false; skipped: true };
+
 /**
- * Judge a single post with multiple judges.
+ * Judge a single post with multiple judges (each options.samples times, plus the style linter with options.lint).
  * Returns partial results and failures instead of failing the entire run.
  */
 export async function judgePostWithMultipleJudges(
   judges: ModelConfig[],
   post: WriterResult,
-  onProgress?: (judge: string, status: 'start' | 'done' | 'error') => void
+  onProgress?: (judge: string, status: 'start' | 'done' | 'error') => void,
+  options: JudgeOptions = {}
+): Promise<JudgeRunResult> {
+  return judgeAllPosts(judges, [post], onProgress && ((judge, _post, status) => onProgress(judge, status)), options);
+}
+
+/**
+ * Judge all posts with all judges (plus the style linter with options.lint).
+ * Returns partial results and failures instead of failing the entire run.
+ */
+export async function judgeAllPosts(
+  judges: ModelConfig[],
+  posts: WriterResult[],
+  onProgress?: (judge: string, post: string, status: 'start' | 'done' | 'error') => void,
+  options: JudgeOptions = {}
+): Promise<JudgeRunResult> {
+  const pairs = buildJudgePairs(judges, posts, options.selfJudging, options.samples);
+  const result = await judgePairs(pairs, onProgress, options);
+  if (!options.lint || options.signal?.aborted) return result;
+
+  const rubric = options.rubric ?? getActiveRubric();
+  return { ...result, judgments: [...result.judgments, ...posts.map((post) => lintJudgment(post, rubric))] };
+}
+
+/**
+ * Judge an explicit list of judge/post pairs with bounded concurrency.
+ * Used directly when only some pairs need (re)judging, e.g. when resuming a session.
+ */
+export async function judgePairs(
+  pairs: JudgePair[],
+  onProgress?: (judge: string, post: string, status: 'start' | 'done' | 'error') => void,
+  options: JudgeOptions = {}
 ): Promise<JudgeRunResult> {
   const limit = pLimit(getMaxConcurrency());
+  const { signal, onResult } = options;
+
+  const tasks = pairs.map(({ judge, post, sample }) =>
+    limit(async (): Promise<JudgeTaskResult> => {
+      if (signal?.aborted) return { ok: false as const, skipped: true as const };
+      onProgress?.(judge.friendlyName, post.friendlyName, 'start');
 
-  const tasks = judges.map((judge) =>
-    limit(async () => {
-      onProgress?.(judge.friendlyName, 'start');
+      let result: JudgmentResult;
       try {
-        const result = await judgePost(judge, post);
-        onProgress?.(judge.friendlyName, 'done');
-        return { ok: true as const, result };
+        result = await judgePost(judge, post, options, sample);
       } catch (err) {
-        onProgress?.(judge.friendlyName, 'error');
+        if (signal?.aborted) return { ok: false as const, skipped: true as const };
+        onProgress?.(judge.friendlyName, post.friendlyName, 'error');
         return {
           ok: false as const,
           failure: {
             judgeModelId: judge.modelId,
             judgeFriendlyName: judge.friendlyName,
             postModelId: post.modelId,
+            postContestantId: post.contestantId,
             postFriendlyName: post.friendlyName,
+            sample,
             error: err instanceof Error ? err.message : String(err),
             failedAt: new Date(),
-          } satisfies JudgeFailure,
+          },
         };
       }
+
+      await onResult?.(result);
+      onProgress?.(judge.friendlyName, post.friendlyName, 'done');
+      return { ok: true as const, result };
     })
   );
 
-  const results = await Promise.all(tasks);
+  const settled = await Promise.all(tasks);
 
   const judgments: JudgmentResult[] = [];
   const failures: JudgeFailure[] = [];
-  for (const r of results) {
+  for (const r of settled) {
     if (r.ok) judgments.push(r.result);
-    else failures.push(r.failure);
+    else if ('failure' in r) failures.push(r.failure);
   }
 
   return { judgments, failures };
 }
 
+// =============================================================================
+// Calibration
+// =============================================================================
+
 /**
- * Judge all posts with all judges.
- * Returns partial results and failures instead of failing the entire run.
+ * Map each judgment's criterion scores onto the reference scale with its judge's calibration
+ * and recompute the overall score. Judgments from judges without corrections pass through.
  */
-export async function judgeAllPosts(
-  judges: ModelConfig[],
-  posts: WriterResult[],
-  onProgress?: (judge: string, post: string, status: 'start' | 'done' | 'error') => void
-): Promise<JudgeRunResult> {
-  const limit = pLimit(getMaxConcurrency());
+export function applyCalibration(
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION
+): JudgmentResult[] {
+  const { calibration } = aggregation;
+  if (!calibration) return judgments;
+
+  return judgments.map((judgment) => {
+    const judge = findJudgeCalibration(calibration, judgment.judgeModelId, judgment.judgeParams);
+    if (!judge) return judgment;
+    const scores = calibrateScores(judgment.scores, judge);
+    return { ...judgment, scores, overallScoreComputed: computeOverallFromScores(scores, rubric) };
+  });
+}
+
+// =============================================================================
+// Repeated Samples
+// =============================================================================
 
-  const tasks: Array<Promise<{ ok: true; result: JudgmentResult } | { ok: false; failure: JudgeFailure }>> = [];
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
 
-  for (const post of posts) {
-    for (const judge of judges) {
-      tasks.push(
-        limit(async () => {
-          onProgress?.(judge.friendlyName, post.friendlyName, 'start');
-          try {
-            const result = await judgePost(judge, post);
-            onProgress?.(judge.friendlyName, post.friendlyName, 'done');
-            return { ok: true as const, result };
-          } catch (err) {
-            onProgress?.(judge.friendlyName, post.friendlyName, 'error');
-            return {
-              ok: false as const,
-              failure: {
-                judgeModelId: judge.modelId,
-                judgeFriendlyName: judge.friendlyName,
-                postModelId: post.modelId,
-                postFriendlyName: post.friendlyName,
-                error: err instanceof Error ? err.message : String(err),
-                failedAt: new Date(),
-              },
-            };
-          }
-        })
-      );
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function combineSamples(samples: JudgmentResult[], rubric: Rubric, aggregation: AggregationSettings): JudgmentResult {
+  const combine = aggregation.sampleStatistic === 'median' ? median : mean;
+  const [first] = samples;
+  const scores = first.scores.map((score) => ({
+    ...score,
+    score: combine(samples.map((j) => j.scores.find((s) => s.criterion === score.criterion)?.score ?? score.score)),
+  }));
+
+  return {
+    ...first,
+    scores,
+    overallScore: combine(samples.map((j) => j.overallScore)),
+    overallScoreComputed: computeOverallFromScores(scores, rubric),
+    sample: undefined,
+  };
+}
+
+/**
+ * Combine each judge's repeated samples of a post into one judgment per (judge, post), so a
+ * judge counts once however often it was sampled. Scores use the sample statistic; feedback
+ * and metadata come from the first sample. Judgments without a sample index pass through.
+ */
+export function collapseSamples(
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION
+): JudgmentResult[] {
+  const groups = new Map<string, JudgmentResult[]>();
+  const ordered: Array<JudgmentResult | JudgmentResult[]> = [];
+
+  for (const judgment of judgments) {
+    if (judgment.sample === undefined) {
+      ordered.push(judgment);
+      continue;
+    }
+    const key = `${judgment.judgeFriendlyName}\u0000${judgment.postContestantId}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(judgment);
+    } else {
+      const created = [judgment];
+      groups.set(key, created);
+      ordered.push(created);
     }
   }
 
-  const settled = await Promise.all(tasks);
+  return ordered.map((entry) => (Array.isArray(entry) ? combineSamples(entry, rubric, aggregation) : entry));
+}
 
-  const judgments: JudgmentResult[] = [];
-  const failures: JudgeFailure[] = [];
-  for (const r of settled) {
-    if (r.ok) judgments.push(r.result);
-    else failures.push(r.failure);
+/**
+ * Within-judge variance (pooled over judges) next to between-judge variance for one post's judgments,
+ * on the calibrated scale. The style linter is left out. Returns undefined unless some judge scored
+ * the post at least twice.
+ */
+export function computeJudgeNoise(
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION
+): JudgeNoise | undefined {
+  judgments = applyCalibration(judgments.filter((j) => !isLintJudgment(j)), rubric, aggregation);
+  const byJudge = new Map<string, number[]>();
+  for (const judgment of judgments) {
+    byJudge.set(judgment.judgeFriendlyName, [
+      ...(byJudge.get(judgment.judgeFriendlyName) ?? []),
+      judgment.overallScoreComputed,
+    ]);
   }
 
-  return { judgments, failures };
+  let squares = 0;
+  let degrees = 0;
+  let samplesPerJudge = 1;
+  for (const scores of byJudge.values()) {
+    samplesPerJudge = Math.max(samplesPerJudge, scores.length);
+    if (scores.length < 2) continue;
+    const m = mean(scores);
+    squares += scores.reduce((sum, v) => sum + (v - m) ** 2, 0);
+    degrees += scores.length - 1;
+  }
+  if (degrees === 0) return undefined;
+
+  const withinJudgeVariance = squares / degrees;
+  const perJudge = collapseSamples(judgments, rubric, aggregation).map((j) => j.overallScoreComputed);
+
+  return {
+    samplesPerJudge,
+    withinJudgeVariance,
+    betweenJudgeVariance: perJudge.length > 1 ? dispersion(perJudge).stdDev ** 2 : undefined,
+    standardError: Math.sqrt(withinJudgeVariance / samplesPerJudge / perJudge.length),
+  };
 }
 
 // =============================================================================
-// Result Aggregation
+// Judge Agreement
 // =============================================================================
 
+function dispersion(values: number[]): ScoreDispersion {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.length > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1) : 0;
+  return {
+    stdDev: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    judges: values.length,
+  };
+}
+
 /**
- * Aggregate judgment results across all judges for each post.
- * Calculates weighted averages based on CRITERIA_WEIGHTS.
+ * Krippendorff's alpha with the interval metric.
+ * Each unit holds the values different coders gave it; units with fewer than two values are ignored.
+ * Returns 1 when every value is identical (nothing to disagree about), NaN when nothing is pairable.
  */
-export function aggregateResults(posts: WriterResult[], judgments: JudgmentResult[]): AggregatedResult[] {
-  const judgmentsByPost = new Map<string, JudgmentResult[]>();
+export function krippendorffAlpha(units: number[][]): number {
+  const pairable = units.filter((u) => u.length >= 2);
+  const values = pairable.flat();
+  const n = values.length;
+  if (n < 2) return Number.NaN;
+
+  let observed = 0;
+  for (const unit of pairable) {
+    let sum = 0;
+    for (let i = 0; i < unit.length; i++) {
+      for (let j = 0; j < unit.length; j++) {
+        if (i !== j) sum += (unit[i] - unit[j]) ** 2;
+      }
+    }
+    observed += sum / (unit.length - 1);
+  }
+  observed /= n;
 
-  for (const judgment of judgments) {
-    const existing = judgmentsByPost.get(judgment.postModelId) || [];
-    existing.push(judgment);
-    judgmentsByPost.set(judgment.postModelId, existing);
+  let expected = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i !== j) expected += (values[i] - values[j]) ** 2;
+    }
   }
+  expected /= n * (n - 1);
 
-  const results: AggregatedResult[] = posts.map((post) => {
-    const postJudgments = judgmentsByPost.get(post.modelId) || [];
-
-    const averageScores: Record<keyof JudgingCriteria, number> = {
-      narrative: 0,
-      structure: 0,
-      audienceFit: 0,
-      accuracy: 0,
-      aiDetection: 0,
-    };
+  if (expected === 0) return 1;
+  return 1 - observed / expected;
+}
 
-    if (postJudgments.length > 0) {
-      for (const criterion of CRITERIA_KEYS) {
-        let total = 0;
-        let count = 0;
+/**
+ * Per-criterion dispersion, overall dispersion and Krippendorff's alpha across one post's judges.
+ * Expects one judgment per judge (see collapseSamples). Returns undefined with fewer than two judgments.
+ */
+export function computeJudgeAgreement(
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  disagreementStdDev: number = getDisagreementStdDev()
+): JudgeAgreement | undefined {
+  if (judgments.length < 2) return undefined;
+
+  const criteria: Record<string, ScoreDispersion> = {};
+  const units: number[][] = [];
+  for (const criterion of rubric.criteria) {
+    const scores = judgments
+      .map((j) => j.scores.find((s) => s.criterion === criterion.key)?.score)
+      .filter((score): score is number => score !== undefined);
+    if (scores.length === 0) continue;
+    criteria[criterion.key] = dispersion(scores);
+    units.push(scores);
+  }
 
-        for (const judgment of postJudgments) {
-          const score = judgment.scores.find((s) => s.criterion === criterion);
-          if (score) {
-            total += score.score;
-            count++;
-          }
-        }
+  return {
+    criteria,
+    overall: dispersion(judgments.map((j) => j.overallScoreComputed)),
+    alpha: krippendorffAlpha(units),
+    strongDisagreement: Object.values(criteria).some((c) => c.stdDev >= disagreementStdDev),
+  };
+}
 
-        averageScores[criterion] = count > 0 ? total / count : 0;
-      }
-    }
+// =============================================================================
+// Result Aggregation
+// =============================================================================
 
-    let overallAverage = 0;
-    let totalWeight = 0;
+/**
+ * Median count of unsupported claims across the judgments that listed claims, or undefined when none did.
+ */
+export function countUnsupportedClaims(judgments: JudgmentResult[]): number | undefined {
+  const counts = judgments.map(countUnsupported).filter((n): n is number => n !== undefined);
+  return counts.length > 0 ? median(counts) : undefined;
+}
 
-    for (const criterion of CRITERIA_KEYS) {
-      const weight = CRITERIA_WEIGHTS[criterion];
-      overallAverage += averageScores[criterion] * weight;
-      totalWeight += weight;
-    }
+/**
+ * Aggregate judgment results across all judges for each post.
+ * Judgments are grouped by contestant, so the same model competing twice stays separate.
+ * Judgments are calibrated and each judge's samples combined first, then each criterion across
+ * judges with the aggregation strategy; the overall score weights criteria by the rubric. Judge
+ * agreement and sampling noise statistics (over LLM judges only, not the style linter) are
+ * attached; the stored judgments keep raw scores.
+ */
+export function aggregateResults(
+  posts: WriterResult[],
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION
+): AggregatedResult[] {
+  const judgmentsByPost = new Map<string, JudgmentResult[]>();
+
+  for (const judgment of judgments) {
+    const existing = judgmentsByPost.get(judgment.postContestantId) || [];
+    existing.push(judgment);
+    judgmentsByPost.set(judgment.postContestantId, existing);
+  }
 
-    overallAverage = totalWeight > 0 ? overallAverage / totalWeight : 0;
+  const results: AggregatedResult[] = posts.map((post) => {
+    const postJudgments = judgmentsByPost.get(post.contestantId) || [];
+    const perJudge = collapseSamples(applyCalibration(postJudgments, rubric, aggregation), rubric, aggregation);
+    const averageScores = averageCriterionScores(perJudge, rubric, aggregation);
 
     return {
       postModelId: post.modelId,
+      postContestantId: post.contestantId,
       postFriendlyName: post.friendlyName,
       averageScores,
-      overallAverage,
+      overallAverage: weightedAverage((key) => averageScores[key], rubric),
       judgments: postJudgments,
+      agreement: computeJudgeAgreement(perJudge.filter((j) => !isLintJudgment(j)), rubric),
+      noise: computeJudgeNoise(postJudgments, rubric, aggregation),
+      unsupportedClaims: countUnsupportedClaims(postJudgments),
     };
   });
 
@@ -471,11 +996,63 @@ export function aggregateResults(posts: WriterResult[], judgments: JudgmentResul
   return results;
 }
 
+/**
+ * Compare each judge's score of posts written by its own model with the other judges'
+ * mean score of the same posts. Posts no other judge scored are left out, as is the style linter.
+ */
+export function computeSelfPreference(
+  judgments: JudgmentResult[],
+  rubric: Rubric = getActiveRubric(),
+  aggregation: AggregationSettings = DEFAULT_AGGREGATION
+): SelfPreference[] {
+  const byJudge = new Map<string, SelfPreference>();
+  const llmJudgments = judgments.filter((j) => !isLintJudgment(j));
+  judgments = collapseSamples(applyCalibration(llmJudgments, rubric, aggregation), rubric, aggregation);
+
+  for (const self of judgments) {
+    if (!isSelfJudgment(self.judgeModelId, self.postModelId)) continue;
+
+    const others = judgments.filter(
+      (j) => j.postContestantId === self.postContestantId && !isSelfJudgment(j.judgeModelId, j.postModelId)
+    );
+    if (others.length === 0) continue;
+
+    const entry = byJudge.get(self.judgeFriendlyName) ?? {
+      judgeModelId: self.judgeModelId,
+      judgeFriendlyName: self.judgeFriendlyName,
+      delta: 0,
+      posts: [],
+    };
+    entry.posts.push({
+      postContestantId: self.postContestantId,
+      selfScore: self.overallScoreComputed,
+      otherJudgesScore: others.reduce((sum, j) => sum + j.overallScoreComputed, 0) / others.length,
+      otherJudges: others.length,
+    });
+    byJudge.set(self.judgeFriendlyName, entry);
+  }
+
+  return finalizeSelfPreference([...byJudge.values()]);
+}
+
+/**
+ * Fill in each entry's delta as the mean self-minus-others gap over its posts.
+ */
+export function finalizeSelfPreference(entries: SelfPreference[]): SelfPreference[] {
+  return entries.map((entry) => ({
+    ...entry,
+    delta: entry.posts.reduce((sum, p) => sum + p.selfScore - p.otherJudgesScore, 0) / entry.posts.length,
+  }));
+}
+
 // =============================================================================
 // Winner Determination
 // =============================================================================
 
+/**
+ * The first-ranked result, unless it is disqualified (disqualified results rank last, so then all are).
+ */
 export function determineWinner(results: AggregatedResult[]): AggregatedResult | null {
-  if (results.length === 0) return null;
+  if (results.length === 0 || results[0].disqualified) return null;
   return results[0];
 }
@@ -0,0 +1,240 @@
+/**
+ * Deterministic style linter
+ * Finds the mechanical AI-writing tells the writer prompt bans and the judge prompt asks
+ * about (em dashes, emojis, clichés, throat-clearing openers, "It's not X, it's Y"
+ * reversals), with positions and severities. It runs standalone (`writeoff lint`) or as a
+ * pseudo-judge whose findings become evidence for the aiDetection criterion.
+ */
+
+import type { JudgmentResult, LintFinding, LintSeverity, Rubric, WriterResult } from '../types/index.js';
+
+export const LINT_JUDGE_MODEL_ID = 'writeoff/style-lint';
+export const LINT_JUDGE_NAME = 'Style Linter';
+/** The rubric criterion the linter scores */
+export const LINT_CRITERION = 'aiDetection';
+
+/** Points each finding takes off the linter's 100-point score */
+export const LINT_PENALTIES: Record<LintSeverity, number> = { error: 10, warning: 5, info: 2 };
+
+interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  /** Singular and plural, for summaries */
+  label: [string, string];
+  /** Global regular expression */
+  pattern: RegExp;
+  message: (match: string) => string;
+  fix: string;
+}
+
+// Straight or curly apostrophe
+const APOS = `['’]`;
+
+const RULES: LintRule[] = [
+  {
+    id: 'emoji',
+    severity: 'error',
+    label: ['emoji', 'emojis'],
+    pattern: /(?![©®™])\p{Extended_Pictographic}(?:\uFE0F|\u200D\p{Extended_Pictographic})*/gu,
+    message: () => 'Emoji',
+    fix: 'Remove the emoji; use words if it carried meaning',
+  },
+  {
+    id: 'em-dash',
+    severity: 'warning',
+    label: ['em dash', 'em dashes'],
+    pattern: /—|(?<=\w) (?:--|–) (?=\w)/g,
+    message: () => 'Em dash',
+    fix: 'Use a comma, semicolon, colon or parentheses, or split the sentence',
+  },
+  {
+    id: 'section-opener',
+    severity: 'warning',
+    label: ['throat-clearing opener', 'throat-clearing openers'],
+    pattern: new RegExp(
+      `\\b(?:here${APOS}s (?:the (?:thing|bottom line|deal|kicker)|where it gets interesting)|` +
+        `let me put it to you straight|the truth is|let${APOS}s (?:break (?:it )?down|dive in))\\b`,
+      'gi'
+    ),
+    message: (match) => `Throat-clearing opener "${match}"`,
+    fix: 'Cut it and open with the point',
+  },
+  {
+    id: 'reversal',
+    severity: 'warning',
+    label: ['"It\'s not X, it\'s Y" reversal', '"It\'s not X, it\'s Y" reversals'],
+    pattern: new RegExp(
+      `\\b(?:it|this|that)(?:${APOS}s not| is not| isn${APOS}t| was not| wasn${APOS}t)\\b[^.!?\\n]{1,60}?` +
+        `(?:[,;:—–.]|\\s-)\\s*(?:it|this|that)(?:${APOS}s| is| was)\\b`,
+      'gi'
+    ),
+    message: () => 'Reversal ("It\'s not X, it\'s Y")',
+    fix: 'Say what it is directly',
+  },
+  {
+    id: 'cliche',
+    severity: 'warning',
+    label: ['cliché', 'clichés'],
+    pattern: new RegExp(
+      `\\b(?:dive into|deep dive|delve into|unleash(?:es|ed|ing)?|game[- ]changer|game[- ]changing|` +
+        `in today${APOS}s (?:fast-paced|digital) (?:world|age|landscape)|at the end of the day|` +
+        `unlock(?:s|ing)? the (?:power|potential)|harness(?:es|ing)? the power|supercharge[sd]?|` +
+        `a testament to|rich tapestry)\\b`,
+      'gi'
+    ),
+    message: (match) => `Cliché "${match}"`,
+    fix: 'Say it plainly',
+  },
+  {
+    id: 'buzzword',
+    severity: 'info',
+    label: ['buzzword', 'buzzwords'],
+    pattern: /\b(?:synerg(?:y|ies)|paradigm shifts?|revolutioni[sz](?:e|es|ed|ing)|leverag(?:e|es|ed|ing))\b/gi,
+    message: (match) => `Corporate buzzword "${match}"`,
+    fix: 'Use a plain word ("use", "change", "work together")',
+  },
+  {
+    id: 'universal-claim',
+    severity: 'info',
+    label: ['claim of universal experience', 'claims of universal experience'],
+    pattern: new RegExp(
+      `\\b(?:we${APOS}ve all been there|every (?:founder|marketer|developer|engineer|manager|leader|writer|` +
+        `entrepreneur|business owner|parent) knows|anyone who${APOS}s (?:ever )?[^.!?\\n]{1,40}? (?:knows|understands))\\b`,
+      'gi'
+    ),
+    message: () => 'Claims universal experience',
+    fix: 'Speak from a specific experience instead',
+  },
+];
+
+// Blank out inline code spans (keeping offsets) so code is never checked.
+function maskInlineCode(line: string): string {
+  return line.replace(/`[^`\n]*`/g, (span) => ' '.repeat(span.length));
+}
+
+/**
+ * Call `visit` with every prose line of a markdown post: fenced code blocks are skipped and
+ * inline code is blanked out, so offsets into the line still match the original text.
+ */
+export function forEachProseLine(
+  content: string,
+  visit: (line: string, lineNumber: number, lineStart: number) => void
+): void {
+  let offset = 0;
+  let inFence = false;
+
+  content.split('\n').forEach((raw, index) => {
+    const lineStart = offset;
+    offset += raw.length + 1;
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inFence = !inFence;
+      return;
+    }
+    if (!inFence) visit(maskInlineCode(raw), index + 1, lineStart);
+  });
+}
+
+/**
+ * Lint a post. Fenced code blocks and inline code are skipped.
+ * Findings are ordered by position.
+ */
+export function lintText(content: string): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  forEachProseLine(content, (line, lineNumber, lineStart) => {
+    for (const rule of RULES) {
+      for (const match of line.matchAll(rule.pattern)) {
+        const column = match.index!;
+        findings.push({
+          rule: rule.id,
+          severity: rule.severity,
+          message: rule.message(match[0]),
+          fix: rule.fix,
+          text: match[0],
+          line: lineNumber,
+          column: column + 1,
+          start: lineStart + column,
+          end: lineStart + column + match[0].length,
+        });
+      }
+    }
+  });
+
+  return findings.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Score from 1-100: 100 minus each finding's severity penalty.
+ */
+export function lintScore(findings: LintFinding[]): number {
+  const penalty = findings.reduce((sum, f) => sum + LINT_PENALTIES[f.severity], 0);
+  return Math.max(1, 100 - penalty);
+}
+
+/**
+ * One-sentence summary, e.g. "Style linter found 3 em dashes and 1 cliché."
+ */
+export function summarizeFindings(findings: LintFinding[]): string {
+  if (findings.length === 0) return 'Style linter found no mechanical AI-writing patterns.';
+
+  const parts = RULES.flatMap((rule) => {
+    const count = findings.filter((f) => f.rule === rule.id).length;
+    return count > 0 ? [`${count} ${rule.label[count === 1 ? 0 : 1]}`] : [];
+  });
+  const list = parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+  return `Style linter found ${list}.`;
+}
+
+/**
+ * Whether a judgment came from the linter rather than an LLM judge.
+ */
+export function isLintJudgment(judgment: Pick<JudgmentResult, 'judgeModelId'>): boolean {
+  return judgment.judgeModelId === LINT_JUDGE_MODEL_ID;
+}
+
+/**
+ * Check that a rubric has the criterion the linter scores, before any model is called.
+ * @throws Error if the rubric has no aiDetection criterion
+ */
+export function assertLintableRubric(rubric: Rubric): void {
+  if (!rubric.criteria.some((c) => c.key === LINT_CRITERION)) {
+    throw new Error(`The style linter scores "${LINT_CRITERION}", which the ${rubric.name} rubric does not have`);
+  }
+}
+
+/**
+ * Score a post's aiDetection criterion with the linter, as a pseudo-judge. Each finding
+ * becomes a verified citation. The judgment only scores aiDetection, so its overall score is
+ * that criterion's score and statistics built on overall scores leave it out.
+ * @throws Error if the rubric has no aiDetection criterion
+ */
+export function lintJudgment(post: WriterResult, rubric: Rubric): JudgmentResult {
+  assertLintableRubric(rubric);
+
+  const findings = lintText(post.content);
+  const score = lintScore(findings);
+  return {
+    judgeModelId: LINT_JUDGE_MODEL_ID,
+    judgeFriendlyName: LINT_JUDGE_NAME,
+    postModelId: post.modelId,
+    postContestantId: post.contestantId,
+    scores: [
+      {
+        criterion: LINT_CRITERION,
+        score,
+        feedback: summarizeFindings(findings),
+        citations: findings.map((f) => ({
+          quote: f.text,
+          issue: f.message,
+          fix: f.fix,
+          verified: true,
+          start: f.start,
+          end: f.end,
+        })),
+      },
+    ],
+    overallScore: score,
+    overallScoreComputed: score,
+    judgedAt: new Date(),
+  };
+}
@@ -0,0 +1,599 @@
+/**
+ * Pairwise (head-to-head) judging
+ * Judges pick the better of two posts on each criterion; every pair is shown in both
+ * orders to cancel position bias, and the outcomes are fitted into a Bradley-Terry ranking.
+ */
+
+import type {
+  AggregatedResult,
+  CallUsage,
+  CriterionPreference,
+  ModelConfig,
+  PairwiseFailure,
+  PairwiseJudgment,
+  ReferenceDocument,
+  Rubric,
+  SelfJudgingPolicy,
+  SelfPreference,
+  WriterResult,
+} from '../types/index.js';
+import {
+  generate,
+  generateStructured,
+  failedStructuredUsage,
+  isInvalidStructuredOutputError,
+  isStructuredOutputUnsupportedError,
+} from '../providers/ai.js';
+import {
+  PAIRWISE_JUDGE_SYSTEM_PROMPT,
+  getPairwiseJudgePrompt,
+  getPairwiseOutputSchema,
+} from '../prompts/judge.js';
+import { getMaxConcurrency } from '../config/env.js';
+import { getActiveRubric } from '../config/rubric.js';
+import { pLimit } from '../utils/limit.js';
+import { combineUsage } from './usage.js';
+import {
+  normalizeCriterion,
+  parseJsonResponse,
+  useStructuredOutput,
+  markStructuredOutputUnsupported,
+  isSelfJudgment,
+  finalizeSelfPreference,
+} from './judge.js';
+
+export interface PairwiseRunResult {
+  judgments: PairwiseJudgment[];
+  failures: PairwiseFailure[];
+}
+
+/**
+ * One judge comparing two posts, with `first` shown as Post A.
+ */
+export interface PairwiseMatchup {
+  judge: ModelConfig;
+  first: WriterResult;
+  second: WriterResult;
+}
+
+/**
+ * Options for pairwise judging.
+ */
+export interface PairwiseOptions {
+  /**
+   * Once aborted, no new comparisons are started and in-flight requests are cancelled.
+   * Cancelled comparisons are omitted from both judgments and failures.
+   */
+  signal?: AbortSignal;
+  /** Called as soon as each comparison completes, e.g. to checkpoint it to disk */
+  onResult?: (judgment: PairwiseJudgment) => Promise<void> | void;
+  /** Rubric to judge against (defaults to the active rubric) */
+  rubric?: Rubric;
+  /** Reference documents judges check the posts' factual claims against */
+  references?: ReferenceDocument[];
+}
+
+/**
+ * Every unordered pair of posts in both orders, for every judge. With the "exclude" policy
+ * a judge skips every comparison involving a post written by its own model.
+ */
+export function buildPairwiseMatchups(
+  judges: ModelConfig[],
+  posts: WriterResult[],
+  selfJudging: SelfJudgingPolicy = 'include'
+): PairwiseMatchup[] {
+  const matchups: PairwiseMatchup[] = [];
+  for (let i = 0; i < posts.length; i++) {
+    for (let j = i + 1; j < posts.length; j++) {
+      for (const judge of judges) {
+        if (
+          selfJudging === 'exclude' &&
+          (isSelfJudgment(judge.modelId, posts[i].modelId) || isSelfJudgment(judge.modelId, posts[j].modelId))
+        ) {
+          continue;
+        }
+        matchups.push({ judge, first: posts[i], second: posts[j] });
+        matchups.push({ judge, first: posts[j], second: posts[i] });
+      }
+    }
+  }
+  return matchups;
+}
+
+// =============================================================================
+// Response Parsing
+// =============================================================================
+
+function validatePreferences(
+  input: unknown,
+  rubric: Rubric,
+  firstContestantId: string,
+  secondContestantId: string
+): { preferences: CriterionPreference[]; warnings: string[] } {
+  if (!Array.isArray(input)) {
+    throw new Error('Invalid pairwise response: "preferences" must be an array');
+  }
+
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+  const preferences: CriterionPreference[] = [];
+
+  for (const raw of input) {
+    if (typeof raw !== 'object' || raw === null) {
+      throw new Error('Invalid pairwise response: each preference must be an object');
+    }
+
+    const record = raw as Record<string, unknown>;
+    const criterion = normalizeCriterion(record.criterion, rubric);
+    if (!criterion) {
+      throw new Error(`Invalid pairwise response: unknown criterion "${String(record.criterion)}"`);
+    }
+
+    if (seen.has(criterion)) {
+      throw new Error(`Invalid pairwise response: duplicate criterion "${criterion}"`);
+    }
+    seen.add(criterion);
+
+    const pick = typeof record.winner === 'string' ? record.winner.trim().toLowerCase() : '';
+    let winner: string;
+    if (pick === 'a' || pick === 'post a') {
+      winner = firstContestantId;
+    } else if (pick === 'b' || pick === 'post b') {
+      winner = secondContestantId;
+    } else if (pick === 'tie') {
+      winner = 'tie';
+    } else {
+      throw new Error(`Invalid pairwise response: winner for "${criterion}" must be "A", "B" or "tie"`);
+    }
+
+    const feedback = record.feedback;
+    if (typeof feedback !== 'string') {
+      throw new Error(`Invalid pairwise response: feedback for "${criterion}" must be a string`);
+    }
+    if (feedback.trim().length === 0) {
+      warnings.push(`Empty feedback for criterion "${criterion}"`);
+    }
+
+    preferences.push({ criterion, winner, feedback });
+  }
+
+  for (const required of rubric.criteria) {
+    if (!seen.has(required.key)) {
+      throw new Error(`Invalid pairwise response: missing criterion "${required.key}"`);
+    }
+  }
+
+  return { preferences, warnings };
+}
+
+/**
+ * Validate an already-parsed pairwise object and build a PairwiseJudgment.
+ * "A"/"B" picks are resolved to contestant IDs.
+ */
+export function parsePairwiseObject(
+  parsed: unknown,
+  judgeModel: ModelConfig,
+  firstContestantId: string,
+  secondContestantId: string,
+  rubric: Rubric = getActiveRubric()
+): PairwiseJudgment {
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Invalid pairwise response: root must be a JSON object');
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const { preferences, warnings } = validatePreferences(
+    record.preferences,
+    rubric,
+    firstContestantId,
+    secondContestantId
+  );
+
+  return {
+    judgeModelId: judgeModel.modelId,
+    judgeFriendlyName: judgeModel.friendlyName,
+    judgeParams: judgeModel.params,
+    firstContestantId,
+    secondContestantId,
+    preferences,
+    parseWarnings: warnings.length ? warnings : undefined,
+    judgedAt: new Date(),
+  };
+}
+
+/**
+ * Parse a text pairwise response (raw JSON or JSON in a code block).
+ */
+export function parsePairwiseResponse(
+  response: string,
+  judgeModel: ModelConfig,
+  firstContestantId: string,
+  secondContestantId: string,
+  rubric: Rubric = getActiveRubric()
+): PairwiseJudgment {
+  const parsed = parseJsonResponse(response, 'pairwise judge');
+  return parsePairwiseObject(parsed, judgeModel, firstContestantId, secondContestantId, rubric);
+}
+
+// =============================================================================
+// Single Comparison
+// =============================================================================
+
+function buildPairwiseRepairPrompt(
+  originalPrompt: string,
+  badResponse: string,
+  errorMessage: string,
+  rubric: Rubric
+): string {
+  return `${originalPrompt}
+
+---
+
+Your previous response was invalid JSON (or did not match the required schema).
+
+Error: ${errorMessage}
+
+Return ONLY a valid JSON object with:
+- "preferences": an array of exactly ${rubric.criteria.length} objects (one per criterion)
+
+Rules:
+- Use criteria exactly from this set: ${rubric.criteria.map((c) => `"${c.key}"`).join(', ')}
+- Each criterion must appear exactly once
+- "winner" must be "A", "B" or "tie"
+- Do not wrap JSON in code fences
+
+Invalid response (for reference only):
+${badResponse}`;
+}
+
+function withWarnings(judgment: PairwiseJudgment, warnings: string[]): PairwiseJudgment {
+  judgment.parseWarnings = [...(judgment.parseWarnings ?? []), ...warnings];
+  judgment.cacheHit = judgment.usage?.cached;
+  return judgment;
+}
+
+async function judgeMatchupWithText(
+  matchup: PairwiseMatchup,
+  userPrompt: string,
+  rubric: Rubric,
+  signal?: AbortSignal
+): Promise<PairwiseJudgment> {
+  const { judge, first, second } = matchup;
+  const response = await generate(judge, PAIRWISE_JUDGE_SYSTEM_PROMPT, userPrompt, { signal });
+
+  try {
+    const judgment = parsePairwiseResponse(response.text, judge, first.contestantId, second.contestantId, rubric);
+    judgment.usage = response.usage;
+    return judgment;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    const repairedResponse = await generate(
+      judge,
+      PAIRWISE_JUDGE_SYSTEM_PROMPT,
+      buildPairwiseRepairPrompt(userPrompt, response.text, message, rubric),
+      { signal }
+    );
+
+    const repaired = parsePairwiseResponse(
+      repairedResponse.text,
+      judge,
+      first.contestantId,
+      second.contestantId,
+      rubric
+    );
+    repaired.usage = combineUsage(response.usage, repairedResponse.usage);
+    return withWarnings(repaired, ['Repaired invalid judge output']);
+  }
+}
+
+/**
+ * Ask one judge to compare two posts. Uses structured output when the judge supports it,
+ * with the same text fallback and repair retry as absolute judging.
+ */
+export async function judgeMatchup(
+  matchup: PairwiseMatchup,
+  options: PairwiseOptions = {}
+): Promise<PairwiseJudgment> {
+  const { judge, first, second } = matchup;
+  const rubric = options.rubric ?? getActiveRubric();
+  const userPrompt = getPairwiseJudgePrompt(first.content, second.content, rubric, options.references);
+
+  if (!useStructuredOutput(judge)) {
+    const judgment = await judgeMatchupWithText(matchup, userPrompt, rubric, options.signal);
+    return withWarnings(judgment, ['Judged via text output']);
+  }
+
+  let structuredError: string;
+  let structuredUsage: CallUsage | undefined;
+  const startedAt = Date.now();
+  try {
+    const structured = await generateStructured(
+      judge,
+      PAIRWISE_JUDGE_SYSTEM_PROMPT,
+      userPrompt,
+      getPairwiseOutputSchema(rubric),
+      { signal: options.signal }
+    );
+    structuredUsage = structured.usage;
+    try {
+      const judgment = parsePairwiseObject(
+        structured.object,
+        judge,
+        first.contestantId,
+        second.contestantId,
+        rubric
+      );
+      judgment.usage = structured.usage;
+      return withWarnings(judgment, ['Judged via structured output']);
+    } catch (error) {
+      structuredError = error instanceof Error ? error.message : 'Unknown error';
+    }
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    if (isStructuredOutputUnsupportedError(error)) {
+      // The provider cannot produce structured output for this model; stop trying for the session.
+      markStructuredOutputUnsupported(judge);
+    } else if (!isInvalidStructuredOutputError(error)) {
+      // Rate limits, timeouts, network errors and cassette misses are failures resume and rejudge can retry.
+      throw error;
+    }
+    structuredError = error instanceof Error ? error.message : 'Unknown error';
+    structuredUsage = failedStructuredUsage(judge, error, startedAt);
+  }
+
+  const judgment = await judgeMatchupWithText(matchup, userPrompt, rubric, options.signal);
+  judgment.usage = combineUsage(structuredUsage, judgment.usage);
+  return withWarnings(judgment, [`Judged via text output (structured output failed: ${structuredError})`]);
+}
+
+// =============================================================================
+// Multi-Comparison Evaluation
+// =============================================================================
+
+type MatchupTaskResult =
+  | { ok: true; result: PairwiseJudgment }
+  | { ok: false; failure: PairwiseFailure }
+  | { ok: false; skipped: true };
+
+/**
+ * Run comparisons with bounded concurrency.
+ * Returns partial results and failures instead of failing the entire run.
+ */
+export async function judgeMatchups(
+  matchups: PairwiseMatchup[],
+  onProgress?: (judge: string, pair: string, status: 'start' | 'done' | 'error') => void,
+  options: PairwiseOptions = {}
+): Promise<PairwiseRunResult> {
+  const limit = pLimit(getMaxConcurrency());
+  const { signal, onResult } = options;
+
+  const tasks = matchups.map((matchup) =>
+    limit(async (): Promise<MatchupTaskResult> => {
+      const { judge, first, second } = matchup;
+      const label = `${first.friendlyName} vs ${second.friendlyName}`;
+      if (signal?.aborted) return { ok: false as const, skipped: true as const };
+      onProgress?.(judge.friendlyName, label, 'start');
+
+      let result: PairwiseJudgment;
+      try {
+        result = await judgeMatchup(matchup, options);
+      } catch (err) {
+        if (signal?.aborted) return { ok: false as const, skipped: true as const };
+        onProgress?.(judge.friendlyName, label, 'error');
+        return {
+          ok: false as const,
+          failure: {
+            judgeModelId: judge.modelId,
+            judgeFriendlyName: judge.friendlyName,
+            firstContestantId: first.contestantId,
+            secondContestantId: second.contestantId,
+            error: err instanceof Error ? err.message : String(err),
+            failedAt: new Date(),
+          },
+        };
+      }
+
+      await onResult?.(result);
+      onProgress?.(judge.friendlyName, label, 'done');
+      return { ok: true as const, result };
+    })
+  );
+
+  const settled = await Promise.all(tasks);
+
+  const judgments: PairwiseJudgment[] = [];
+  const failures: PairwiseFailure[] = [];
+  for (const r of settled) {
+    if (r.ok) judgments.push(r.result);
+    else if ('failure' in r) failures.push(r.failure);
+  }
+
+  return { judgments, failures };
+}
+
+// =============================================================================
+// Bradley-Terry Ranking
+// =============================================================================
+
+// Criterion weights scaled to sum to 1, so one comparison is worth one game.
+function normalizedWeights(rubric: Rubric): Map<string, number> {
+  const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+  return new Map(rubric.criteria.map((c) => [c.key, c.weight / totalWeight]));
+}
+
+// One virtual comparison per pair, split evenly, keeps strengths finite for unbeaten posts.
+const PRIOR_COMPARISONS = 1;
+const MAX_ITERATIONS = 1000;
+const TOLERANCE = 1e-10;
+
+/**
+ * Fit Bradley-Terry strengths with the MM algorithm.
+ * wins[i][j] is the (fractional) number of times i beat j. Strengths are scaled to a geometric mean of 1.
+ */
+export function fitBradleyTerry(wins: number[][]): number[] {
+  const n = wins.length;
+  let strengths = new Array<number>(n).fill(1);
+  if (n < 2) return strengths;
+
+  const w = wins.map((row, i) => row.map((v, j) => (i === j ? 0 : v + PRIOR_COMPARISONS / 2)));
+  const totalWins = w.map((row) => row.reduce((sum, v) => sum + v, 0));
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const next = strengths.map((p, i) => {
+      let denominator = 0;
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue;
+        denominator += (w[i][j] + w[j][i]) / (p + strengths[j]);
+      }
+      return totalWins[i] / denominator;
+    });
+
+    const logMean = next.reduce((sum, p) => sum + Math.log(p), 0) / n;
+    const scale = Math.exp(logMean);
+    const normalized = next.map((p) => p / scale);
+
+    const change = Math.max(...normalized.map((p, i) => Math.abs(p - strengths[i])));
+    strengths = normalized;
+    if (change < TOLERANCE) break;
+  }
+
+  return strengths;
+}
+
+/**
+ * Rank posts from pairwise comparisons (replaces aggregateResults in pairwise mode).
+ * Each comparison is worth one game, split across criteria by rubric weight; ties count half.
+ * overallAverage is the expected win rate (0-100) against the rest of the field under the
+ * fitted Bradley-Terry model; averageScores holds per-criterion win rates.
+ */
+export function rankPairwise(
+  posts: WriterResult[],
+  judgments: PairwiseJudgment[],
+  rubric: Rubric = getActiveRubric()
+): AggregatedResult[] {
+  const index = new Map(posts.map((p, i) => [p.contestantId, i]));
+  const n = posts.length;
+  const weightOf = normalizedWeights(rubric);
+
+  const wins = posts.map(() => new Array<number>(n).fill(0));
+  const record = posts.map(() => ({ wins: 0, losses: 0, ties: 0, comparisons: 0 }));
+  const criterionPoints = posts.map(() => new Map<string, { points: number; games: number }>());
+
+  for (const judgment of judgments) {
+    const a = index.get(judgment.firstContestantId);
+    const b = index.get(judgment.secondContestantId);
+    if (a === undefined || b === undefined) continue;
+
+    record[a].comparisons++;
+    record[b].comparisons++;
+
+    for (const pref of judgment.preferences) {
+      const weight = weightOf.get(pref.criterion);
+      if (weight === undefined) continue;
+
+      const pointsA = pref.winner === judgment.firstContestantId ? 1 : pref.winner === 'tie' ? 0.5 : 0;
+      const pointsB = 1 - pointsA;
+      wins[a][b] += pointsA * weight;
+      wins[b][a] += pointsB * weight;
+
+      if (pointsA === 0.5) {
+        record[a].ties += weight;
+        record[b].ties += weight;
+      } else {
+        const [winner, loser] = pointsA === 1 ? [a, b] : [b, a];
+        record[winner].wins += weight;
+        record[loser].losses += weight;
+      }
+
+      for (const [i, points] of [[a, pointsA], [b, pointsB]] as const) {
+        const tally = criterionPoints[i].get(pref.criterion) ?? { points: 0, games: 0 };
+        tally.points += points;
+        tally.games += 1;
+        criterionPoints[i].set(pref.criterion, tally);
+      }
+    }
+  }
+
+  const strengths = fitBradleyTerry(wins);
+
+  const results: AggregatedResult[] = posts.map((post, i) => {
+    const averageScores: Record<string, number> = {};
+    for (const criterion of rubric.criteria) {
+      const tally = criterionPoints[i].get(criterion.key);
+      averageScores[criterion.key] = tally && tally.games > 0 ? (tally.points / tally.games) * 100 : 0;
+    }
+
+    let expected = 0;
+    for (let j = 0; j < n; j++) {
+      if (j !== i) expected += strengths[i] / (strengths[i] + strengths[j]);
+    }
+
+    return {
+      postModelId: post.modelId,
+      postContestantId: post.contestantId,
+      postFriendlyName: post.friendlyName,
+      averageScores,
+      overallAverage: n > 1 ? (expected / (n - 1)) * 100 : 50,
+      judgments: [],
+      pairwise: { strength: strengths[i], ...record[i] },
+    };
+  });
+
+  results.sort((a, b) => b.overallAverage - a.overallAverage);
+  return results;
+}
+
+/**
+ * Pairwise counterpart of computeSelfPreference: a judge's weighted win rate (0-100) for
+ * posts written by its own model, against the other judges' win rate for the same posts.
+ */
+export function computePairwiseSelfPreference(
+  posts: WriterResult[],
+  judgments: PairwiseJudgment[],
+  rubric: Rubric = getActiveRubric()
+): SelfPreference[] {
+  const weightOf = normalizedWeights(rubric);
+
+  // Weighted points (0-1) a post earned in one comparison
+  const pointsFor = (judgment: PairwiseJudgment, contestantId: string) =>
+    judgment.preferences.reduce((sum, pref) => {
+      const points = pref.winner === contestantId ? 1 : pref.winner === 'tie' ? 0.5 : 0;
+      return sum + points * (weightOf.get(pref.criterion) ?? 0);
+    }, 0);
+  const winRate = (list: PairwiseJudgment[], contestantId: string) =>
+    (list.reduce((sum, j) => sum + pointsFor(j, contestantId), 0) / list.length) * 100;
+
+  const byJudge = new Map<string, SelfPreference>();
+  for (const post of posts) {
+    const involving = judgments.filter(
+      (j) => j.firstContestantId === post.contestantId || j.secondContestantId === post.contestantId
+    );
+    const others = involving.filter((j) => !isSelfJudgment(j.judgeModelId, post.modelId));
+    if (others.length === 0) continue;
+
+    const selfJudges = new Map<string, PairwiseJudgment[]>();
+    for (const j of involving) {
+      if (!isSelfJudgment(j.judgeModelId, post.modelId)) continue;
+      selfJudges.set(j.judgeFriendlyName, [...(selfJudges.get(j.judgeFriendlyName) ?? []), j]);
+    }
+
+    for (const [judgeFriendlyName, own] of selfJudges) {
+      const entry = byJudge.get(judgeFriendlyName) ?? {
+        judgeModelId: own[0].judgeModelId,
+        judgeFriendlyName,
+        delta: 0,
+        posts: [],
+      };
+      entry.posts.push({
+        postContestantId: post.contestantId,
+        selfScore: winRate(own, post.contestantId),
+        otherJudgesScore: winRate(others, post.contestantId),
+        otherJudges: new Set(others.map((j) => j.judgeFriendlyName)).size,
+      });
+      byJudge.set(judgeFriendlyName, entry);
+    }
+  }
+
+  return finalizeSelfPreference([...byJudge.values()]);
+}
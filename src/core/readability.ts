@@ -0,0 +1,212 @@
+/**
+ * Readability and length metrics
+ * Word count, reading time, Flesch-Kincaid grade, sentence-length spread and markdown
+ * structure, computed locally for every post, plus the hard limits that disqualify one.
+ */
+
+import type { AggregatedResult, ReadabilityLimits, ReadabilityMetrics, WriterResult } from '../types/index.js';
+import { getReadabilityLimits } from '../config/env.js';
+import { forEachProseLine } from './lint.js';
+
+/** Average adult silent reading speed used for reading time */
+export const READING_WORDS_PER_MINUTE = 238;
+
+const LIMIT_KEYS: Array<keyof ReadabilityLimits> = ['maxReadingMinutes', 'minWords', 'maxWords', 'maxGrade'];
+
+const HEADING = /^\s{0,3}#{1,6}\s+/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+// Markdown syntax that isn't read: images, link targets, emphasis, blockquote markers and HTML tags
+function plainText(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s*>+\s?/, '')
+    .replace(/[*_~]/g, '');
+}
+
+function words(text: string): string[] {
+  return text.match(WORD) ?? [];
+}
+
+/**
+ * Syllables in an English word, by counting vowel groups (silent endings dropped). Numbers count as one.
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Measure a markdown post. Headings count toward words but not sentences; each list item is
+ * its own sentence even without end punctuation. Code blocks and inline code are skipped.
+ */
+export function measureReadability(content: string): ReadabilityMetrics {
+  let headings = 0;
+  let listItems = 0;
+  let wordCount = 0;
+  let syllables = 0;
+  const sentenceLengths: number[] = [];
+
+  // Paragraph lines are joined so sentences can wrap across lines
+  let paragraph: string[] = [];
+  const addBlock = (text: string) => {
+    for (const sentence of text.split(/(?<=[.!?])["”’)\]]*\s+/)) {
+      const count = words(sentence).length;
+      if (count > 0) sentenceLengths.push(count);
+    }
+  };
+  const flush = () => {
+    if (paragraph.length > 0) addBlock(paragraph.join(' '));
+    paragraph = [];
+  };
+
+  forEachProseLine(content, (line) => {
+    const text = plainText(line);
+    const lineWords = words(text.replace(HEADING, ''));
+    wordCount += lineWords.length;
+    syllables += lineWords.reduce((sum, w) => sum + countSyllables(w), 0);
+
+    if (HEADING.test(line)) {
+      headings++;
+      flush();
+    } else if (LIST_ITEM.test(line)) {
+      listItems++;
+      flush();
+      addBlock(text.replace(LIST_ITEM, ''));
+    } else if (text.trim() === '') {
+      flush();
+    } else {
+      paragraph.push(text);
+    }
+  });
+  flush();
+
+  const sentences = sentenceLengths.length;
+  const mean = sentences > 0 ? sentenceLengths.reduce((a, b) => a + b, 0) / sentences : 0;
+  const variance = sentences > 0 ? sentenceLengths.reduce((sum, n) => sum + (n - mean) ** 2, 0) / sentences : 0;
+  const grade =
+    wordCount > 0 && sentences > 0 ? 0.39 * (wordCount / sentences) + 11.8 * (syllables / wordCount) - 15.59 : 0;
+
+  return {
+    words: wordCount,
+    sentences,
+    readingMinutes: round(wordCount / READING_WORDS_PER_MINUTE),
+    fleschKincaidGrade: round(grade),
+    sentenceLengthMean: round(mean),
+    sentenceLengthVariance: round(variance),
+    headings,
+    listItems,
+  };
+}
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+/**
+ * Parse hard limits written as "maxReadingMinutes=8,maxGrade=12".
+ * @throws Error naming the source (e.g. "--limits") on unknown keys or non-positive values
+ */
+export function parseReadabilityLimits(raw: string, source: string): ReadabilityLimits {
+  const limits: ReadabilityLimits = {};
+
+  for (const entry of raw.split(',').map((e) => e.trim()).filter((e) => e.length > 0)) {
+    const separator = entry.indexOf('=');
+    const key = entry.slice(0, separator).trim() as keyof ReadabilityLimits;
+    const value = Number(entry.slice(separator + 1));
+    if (separator <= 0 || !LIMIT_KEYS.includes(key) || !Number.isFinite(value) || value <= 0) {
+      throw new Error(
+        `Invalid ${source} entry "${entry}". Expected ${LIMIT_KEYS.join(', ')} set to a positive number.`
+      );
+    }
+    limits[key] = value;
+  }
+
+  if (limits.minWords !== undefined && limits.maxWords !== undefined && limits.minWords > limits.maxWords) {
+    throw new Error(`Invalid ${source}: minWords is greater than maxWords.`);
+  }
+  return limits;
+}
+
+/**
+ * Limits from a --limits option, else WRITEOFF_LIMITS, else none.
+ * @throws Error if the limits are malformed
+ */
+export function resolveReadabilityLimits(option?: string): ReadabilityLimits {
+  if (option !== undefined) return parseReadabilityLimits(option, '--limits');
+  const env = getReadabilityLimits();
+  return env ? parseReadabilityLimits(env, 'WRITEOFF_LIMITS') : {};
+}
+
+/**
+ * One-line description, e.g. "max 8 min read, max grade 12", or "none".
+ */
+export function describeLimits(limits: ReadabilityLimits): string {
+  const parts = [
+    limits.maxReadingMinutes !== undefined ? `max ${limits.maxReadingMinutes} min read` : '',
+    limits.minWords !== undefined ? `min ${limits.minWords} words` : '',
+    limits.maxWords !== undefined ? `max ${limits.maxWords} words` : '',
+    limits.maxGrade !== undefined ? `max grade ${limits.maxGrade}` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+/**
+ * The limits a post breaks, as reasons (empty when it meets them all).
+ */
+export function checkLimits(metrics: ReadabilityMetrics, limits: ReadabilityLimits): string[] {
+  const reasons: string[] = [];
+  if (limits.maxReadingMinutes !== undefined && metrics.readingMinutes > limits.maxReadingMinutes) {
+    reasons.push(`reading time ${metrics.readingMinutes} min exceeds ${limits.maxReadingMinutes} min`);
+  }
+  if (limits.minWords !== undefined && metrics.words < limits.minWords) {
+    reasons.push(`${metrics.words} words is under the minimum of ${limits.minWords}`);
+  }
+  if (limits.maxWords !== undefined && metrics.words > limits.maxWords) {
+    reasons.push(`${metrics.words} words exceeds the maximum of ${limits.maxWords}`);
+  }
+  if (limits.maxGrade !== undefined && metrics.fleschKincaidGrade > limits.maxGrade) {
+    reasons.push(`grade level ${metrics.fleschKincaidGrade} exceeds ${limits.maxGrade}`);
+  }
+  return reasons;
+}
+
+/**
+ * Attach readability metrics to a post, and the limits it breaks (if any).
+ */
+export function applyReadability(post: WriterResult, limits: ReadabilityLimits = {}): WriterResult {
+  const { disqualified: _previous, ...rest } = post;
+  const readability = measureReadability(post.content);
+  const reasons = checkLimits(readability, limits);
+  return { ...rest, readability, ...(reasons.length > 0 ? { disqualified: reasons } : {}) };
+}
+
+/**
+ * Mark the results of disqualified posts and move them after every qualified result,
+ * keeping the order within each group. The leader is then the best qualified post.
+ */
+export function rankQualified(results: AggregatedResult[], posts: WriterResult[]): AggregatedResult[] {
+  const reasons = new Map(posts.filter((p) => p.disqualified).map((p) => [p.contestantId, p.disqualified!]));
+  const marked = results.map((result): AggregatedResult => {
+    const { disqualified: _previous, ...rest } = result;
+    const disqualified = reasons.get(result.postContestantId);
+    return disqualified ? { ...rest, disqualified } : rest;
+  });
+  return [...marked.filter((r) => !r.disqualified), ...marked.filter((r) => r.disqualified)];
+}
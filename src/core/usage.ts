@@ -0,0 +1,97 @@
+/**
+ * Token usage and cost accounting
+ * Combines per-call usage and rolls it up per writer, per judge and per session
+ */
+
+import type {
+  CallUsage,
+  UsageTotals,
+  UsageReport,
+  WriterResult,
+  JudgmentResult,
+} from '../types/index.js';
+
+/**
+ * Combine usage from several calls that produced one result (e.g. a judgment plus its repair).
+ * Cost stays undefined only if none of the calls were priced.
+ */
+export function combineUsage(...usages: Array<CallUsage | undefined>): CallUsage | undefined {
+  const present = usages.filter((u): u is CallUsage => u !== undefined);
+  if (present.length === 0) return undefined;
+
+  const priced = present.filter((u) => u.costUsd !== undefined);
+
+  return {
+    promptTokens: present.reduce((sum, u) => sum + u.promptTokens, 0),
+    completionTokens: present.reduce((sum, u) => sum + u.completionTokens, 0),
+    totalTokens: present.reduce((sum, u) => sum + u.totalTokens, 0),
+    latencyMs: present.reduce((sum, u) => sum + u.latencyMs, 0),
+    costUsd: priced.length ? priced.reduce((sum, u) => sum + (u.costUsd ?? 0), 0) : undefined,
+    cached: present.some((u) => u.cached) || undefined,
+    calls: present.reduce((sum, u) => sum + (u.calls ?? 1), 0),
+  };
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function addUsage(totals: UsageTotals, usage: CallUsage): void {
+  const calls = usage.calls ?? 1;
+  totals.calls += calls;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.latencyMs += usage.latencyMs;
+  if (usage.costUsd === undefined) {
+    totals.unpricedCalls += calls;
+  } else {
+    totals.costUsd += usage.costUsd;
+  }
+}
+
+/**
+ * Roll up writer and judge usage for a session.
+ * Results without usage (user-supplied posts, failed calls) are skipped. Judge entries can be
+ * absolute judgments or pairwise comparisons.
+ */
+export function buildUsageReport(
+  posts: WriterResult[],
+  judgments: Array<Pick<JudgmentResult, 'judgeFriendlyName' | 'usage'>>
+): UsageReport {
+  const report: UsageReport = { total: emptyUsageTotals(), byWriter: {}, byJudge: {} };
+
+  for (const post of posts) {
+    if (!post.usage) continue;
+    const totals = (report.byWriter[post.friendlyName] ??= emptyUsageTotals());
+    addUsage(totals, post.usage);
+    addUsage(report.total, post.usage);
+  }
+
+  for (const judgment of judgments) {
+    if (!judgment.usage) continue;
+    const totals = (report.byJudge[judgment.judgeFriendlyName] ??= emptyUsageTotals());
+    addUsage(totals, judgment.usage);
+    addUsage(report.total, judgment.usage);
+  }
+
+  return report;
+}
+
+/**
+ * Format a USD cost for display, e.g. "$0.0421". Marks partial totals with "+".
+ */
+export function formatCost(totals: Pick<UsageTotals, 'costUsd' | 'unpricedCalls' | 'calls'>): string {
+  if (totals.calls > 0 && totals.unpricedCalls === totals.calls) return 'n/a';
+  const digits = totals.costUsd >= 1 ? 2 : 4;
+  const suffix = totals.unpricedCalls > 0 ? '+' : '';
+  return `$${totals.costUsd.toFixed(digits)}${suffix}`;
+}
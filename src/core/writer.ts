@@ -3,10 +3,10 @@
  * Handles generating posts from single or multiple models
  */
 
-import type { WriterResult, ModelConfig } from '../types/index.js';
+import type { WriterResult, ModelConfig, ReferenceDocument } from '../types/index.js';
 import { generate } from '../providers/ai.js';
 import { WRITER_SYSTEM_PROMPT, getWriterPrompt } from '../prompts/writer.js';
-import { parseModelString } from '../config/models.js';
+import { parseModelString, getContestantId, assignContestants } from '../config/models.js';
 import { getMaxConcurrency } from '../config/env.js';
 import { pLimit } from '../utils/limit.js';
 
@@ -16,24 +16,47 @@ import { pLimit } from '../utils/limit.js';
  * @param model - The model configuration to use for generation
  * @param prompt - The writing prompt/topic
  * @param existingContent - Optional existing content to expand/improve
+ * @param signal - Optional signal that aborts the in-flight request
+ * @param references - Reference documents to ground the post in
  * @returns WriterResult with the generated content and metadata
  */
 export async function generatePost(
   model: ModelConfig,
   prompt: string,
-  existingContent?: string
+  existingContent?: string,
+  signal?: AbortSignal,
+  references: ReferenceDocument[] = []
 ): Promise<WriterResult> {
-  const userPrompt = getWriterPrompt(prompt, existingContent);
-  const content = await generate(model, WRITER_SYSTEM_PROMPT, userPrompt);
+  const userPrompt = getWriterPrompt(prompt, existingContent, references);
+  const { text, usage } = await generate(model, WRITER_SYSTEM_PROMPT, userPrompt, { signal });
 
   return {
+    contestantId: getContestantId(model),
     modelId: model.modelId,
     friendlyName: model.friendlyName,
-    content,
+    content: text,
     generatedAt: new Date(),
+    params: model.params,
+    usage,
+    cacheHit: usage.cached,
   };
 }
 
+/**
+ * Options for generatePostsFromModels.
+ */
+export interface GeneratePostsOptions {
+  /**
+   * Once aborted, no new posts are started and in-flight requests are cancelled
+   * (cancelled posts are simply omitted).
+   */
+  signal?: AbortSignal;
+  /** Called as soon as each post completes, e.g. to checkpoint it to disk */
+  onResult?: (post: WriterResult) => Promise<void> | void;
+  /** Reference documents every writer grounds its post in */
+  references?: ReferenceDocument[];
+}
+
 /**
  * Generate blog posts from multiple models in parallel.
  *
@@ -41,28 +64,37 @@ export async function generatePost(
  * @param prompt - The writing prompt/topic
  * @param existingContent - Optional existing content to expand/improve
  * @param onProgress - Optional callback for progress updates
+ * @param options - Optional abort signal, per-post completion callback and reference documents
  * @returns Array of successful WriterResult objects
  */
 export async function generatePostsFromModels(
   models: ModelConfig[],
   prompt: string,
   existingContent?: string,
-  onProgress?: (model: string, status: 'start' | 'done' | 'error') => void
+  onProgress?: (model: string, status: 'start' | 'done' | 'error') => void,
+  options: GeneratePostsOptions = {}
 ): Promise<WriterResult[]> {
+  const { signal, onResult, references } = options;
+
   const generateWithProgress = async (
     model: ModelConfig
   ): Promise<WriterResult | null> => {
+    if (signal?.aborted) return null;
     onProgress?.(model.friendlyName, 'start');
 
+    let result: WriterResult;
     try {
-      const result = await generatePost(model, prompt, existingContent);
-      onProgress?.(model.friendlyName, 'done');
-      return result;
+      result = await generatePost(model, prompt, existingContent, signal, references);
     } catch (error) {
+      if (signal?.aborted) return null;
       console.error(`Error generating post with ${model.friendlyName}:`, error);
       onProgress?.(model.friendlyName, 'error');
       return null;
     }
+
+    await onResult?.(result);
+    onProgress?.(model.friendlyName, 'done');
+    return result;
   };
 
   const limit = pLimit(getMaxConcurrency());
@@ -88,6 +120,6 @@ export async function generatePostsFromModelStrings(
   existingContent?: string,
   onProgress?: (model: string, status: 'start' | 'done' | 'error') => void
 ): Promise<WriterResult[]> {
-  const models = modelStrings.map(parseModelString);
+  const models = assignContestants(modelStrings.map(parseModelString));
   return generatePostsFromModels(models, prompt, existingContent, onProgress);
 }
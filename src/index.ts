@@ -4,6 +4,10 @@ import { program } from 'commander';
 import { createGenerateCommand } from './cli/commands/generate.js';
 import { createJudgeCommand } from './cli/commands/judge.js';
 import { createRefineCommand } from './cli/commands/refine.js';
+import { createResumeCommand } from './cli/commands/resume.js';
+import { createRejudgeCommand } from './cli/commands/rejudge.js';
+import { createCalibrateCommand } from './cli/commands/calibrate.js';
+import { createLintCommand } from './cli/commands/lint.js';
 import { loadEnv } from './config/env.js';
 
 // Load environment variables
@@ -19,6 +23,10 @@ program
 program.addCommand(createGenerateCommand());
 program.addCommand(createJudgeCommand());
 program.addCommand(createRefineCommand());
+program.addCommand(createResumeCommand());
+program.addCommand(createRejudgeCommand());
+program.addCommand(createCalibrateCommand());
+program.addCommand(createLintCommand());
 
 // Show help if no command provided
 program.action(() => {
@@ -1,107 +1,315 @@
+import type { ReferenceDocument, Rubric, RubricCriterion } from '../types/index.js';
+import { formatReferences } from './references.js';
+
 export const JUDGE_SYSTEM_PROMPT = `You are an expert blog post evaluator. Your job is to critically assess blog posts against specific quality criteria.
 
 Be rigorous and honest in your evaluation. A score of 70+ indicates good quality, 80+ is excellent, and 90+ is exceptional. Most posts should score between 60-80.
 
 Evaluate each criterion independently and provide specific, actionable feedback.`;
 
-export const JUDGE_OUTPUT_SCHEMA = {
-  type: "object",
-  properties: {
-    scores: {
-      type: "array",
-      items: {
-        type: "object",
-        properties: {
-          criterion: {
-            type: "string",
-            enum: ["narrative", "structure", "audienceFit", "accuracy", "aiDetection"],
-          },
-          score: {
-            type: "number",
-            minimum: 1,
-            maximum: 100,
-          },
-          feedback: {
-            type: "string",
-          },
-        },
-        required: ["criterion", "score", "feedback"],
+export const CLAIM_KINDS = ['number', 'entity', 'date', 'causal'] as const;
+export const CLAIM_STATUSES = ['sourced', 'hedged', 'hypothetical', 'unsupported'] as const;
+
+const CLAIMS_SCHEMA = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      quote: {
+        type: "string",
+        description: "The claim copied verbatim from the post",
+      },
+      kind: {
+        type: "string",
+        enum: CLAIM_KINDS,
+      },
+      status: {
+        type: "string",
+        enum: CLAIM_STATUSES,
+      },
+      note: {
+        type: "string",
       },
-      minItems: 5,
-      maxItems: 5,
-    },
-    overallScore: {
-      type: "number",
-      minimum: 1,
-      maximum: 100,
-      description: "Weighted average of all criterion scores",
     },
+    required: ["quote", "kind", "status", "note"],
   },
-  required: ["scores", "overallScore"],
 } as const;
 
+/**
+ * JSON schema for structured judge output; the criterion enum and item count follow the rubric.
+ * With `claims`, the judge also returns the post's factual claims.
+ */
+export function getJudgeOutputSchema(rubric: Rubric, claims: boolean = false) {
+  const count = rubric.criteria.length;
+  return {
+    type: "object",
+    properties: {
+      scores: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            criterion: {
+              type: "string",
+              enum: rubric.criteria.map((c) => c.key),
+            },
+            score: {
+              type: "number",
+              minimum: 1,
+              maximum: 100,
+            },
+            feedback: {
+              type: "string",
+            },
+            citations: {
+              type: "array",
+              description: "Passages backing the feedback; omit when there is nothing to quote",
+              items: {
+                type: "object",
+                properties: {
+                  quote: {
+                    type: "string",
+                    description: "Passage copied verbatim from the post",
+                  },
+                  issue: {
+                    type: "string",
+                  },
+                  fix: {
+                    type: "string",
+                  },
+                },
+                required: ["quote", "issue", "fix"],
+              },
+            },
+          },
+          required: ["criterion", "score", "feedback"],
+        },
+        minItems: count,
+        maxItems: count,
+      },
+      overallScore: {
+        type: "number",
+        minimum: 1,
+        maximum: 100,
+        description: "Weighted average of all criterion scores",
+      },
+      ...(claims ? { claims: CLAIMS_SCHEMA } : {}),
+    },
+    required: claims ? ["scores", "overallScore", "claims"] : ["scores", "overallScore"],
+  } as const;
+}
+
+export interface JudgeCitation {
+  /** Passage copied verbatim from the post */
+  quote: string;
+  issue: string;
+  fix: string;
+}
+
 export interface JudgeScore {
-  criterion: "narrative" | "structure" | "audienceFit" | "accuracy" | "aiDetection";
+  /** Rubric criterion key */
+  criterion: string;
   score: number;
   feedback: string;
+  citations?: JudgeCitation[];
+}
+
+export interface JudgeClaim {
+  /** The claim copied verbatim from the post */
+  quote: string;
+  kind: (typeof CLAIM_KINDS)[number];
+  status: (typeof CLAIM_STATUSES)[number];
+  note: string;
 }
 
 export interface JudgeOutput {
   scores: JudgeScore[];
   overallScore: number;
+  claims?: JudgeClaim[];
 }
 
-export function getJudgePrompt(postContent: string): string {
-  return `Evaluate the following blog post against these criteria:
+// Continuation lines of a description are indented under their numbered item.
+function formatCriterion(criterion: RubricCriterion, index: number): string {
+  const description = criterion.description
+    .split('\n')
+    .map((line, i) => (i === 0 || line === '' ? line : `   ${line}`))
+    .join('\n');
+  return `${index + 1}. **${criterion.name} (weight: ${criterion.weight}%)**: ${description}`;
+}
 
-1. **Narrative Flow (weight: 30%)**: Does the post tell a compelling story? Are transitions smooth? Does it maintain reader interest throughout?
+/**
+ * Reference block placed before the post, and the instruction that goes with it; both empty without references.
+ * Feedback on the rubric's "accuracy" criterion (or on factual claims, if it has none) sorts claims
+ * into supported, contradicted and unsupported.
+ */
+function getReferenceSections(rubric: Rubric, references: ReferenceDocument[]): { block: string; instruction: string } {
+  if (references.length === 0) return { block: '', instruction: '' };
 
-2. **Structure (weight: 20%)**: Is the post well-organized? Does it have a clear introduction, body, and conclusion? Is the length appropriate?
+  const accuracy = rubric.criteria.find((c) => c.key === 'accuracy');
+  const target = accuracy ? `the "${accuracy.key}" feedback` : 'feedback on factual claims';
 
-3. **Audience Fit (weight: 20%)**: Is the content appropriate for the target audience? Is the tone consistent? Is it both entertaining and educational?
+  return {
+    block: `REFERENCE DOCUMENTS (ground truth for the post's factual claims):
 
-4. **Accuracy (weight: 15%)**: Are claims grounded and non-misleading? Penalize exaggeration and invented specifics presented as fact. If the post uses an invented or exaggerated example, it must clearly label it as hypothetical (e.g., "Hypothetical:" / "Imagine...") and keep it realistic.
+${formatReferences(references)}
 
-5. **AI Detection (weight: 15%)**: Does the writing feel natural and human? Score LOWER if you detect these common AI writing patterns.
+---
 
-   The most obvious tell is **excessive em dashes**. LLMs lean on em dashes for parenthetical asides because they're trained on heavily edited prose. Human writers use them occasionally, but AI scatters them everywhere. One or two in a post is fine; five or more is a red flag. Commas, semicolons, or even parentheses are what most people actually reach for.
+`,
+    instruction: `
 
-   Watch also for **sweeping generalizations that claim universal experience**. Phrases like "Every founder knows..." or "We've all been there" or "Anyone who's worked in sales understands..." are attempts to build rapport without earning it. Real writers either get specific about their own experience or acknowledge that not everyone shares it. This false universality is a shortcut LLMs take because they can't draw on actual lived experience.
+Check the post's factual claims against the reference documents. In ${target}, separate the claims into three labeled groups, each listing the claims or "none":
+- "Supported:" claims the references back up
+- "Contradicted:" claims the references say otherwise about (the most serious)
+- "Unsupported:" specifics presented as fact that the references don't cover (hypotheticals clearly labeled as such are fine)
+Cite contradicted and unsupported claims, naming the reference in the issue.`,
+  };
+}
 
-   **Phrase-turning and clever reversals** are another giveaway. Things like "It's not X, it's Y" or chiasmus constructions ("Work to live, don't live to work") or mirror phrases that flip concepts for rhetorical effect. LLMs overuse these because they pattern-match to "clever" writing, but real people don't talk in fortune cookies.
+/**
+ * Claim check instruction: list every factual claim and how it is backed. Claims the references
+ * cover count as sourced; claims they contradict count as unsupported.
+ */
+function getClaimCheckInstruction(references: ReferenceDocument[]): string {
+  const sourced =
+    references.length > 0
+      ? 'attributed to a named source in the post, or backed by the reference documents'
+      : 'attributed to a named source in the post';
+  const contradicted =
+    references.length > 0 ? '\nA claim the reference documents contradict is "unsupported"; say so in its note.' : '';
 
-   Then there are the **section opener clichés** that feel like throat-clearing: "Here's the bottom line," "Let me put it to you straight," "Here's the thing," "The truth is...," "Here's where it gets interesting," "Let's break down..." These are filler phrases that signal the writer (or model) doesn't know how to transition naturally between ideas.
+  return `
 
-   Beyond specific phrases, **structural uniformity** is suspicious. Perfectly symmetrical lists (exactly 6 steps, then 6 risks, then 6 tips), formulaic problem-then-solution-then-implementation arcs, every section following the same internal pattern. Real blog posts are messier because real thinking is messier.
+CLAIM CHECK: list the post's factual claims in "claims": every figure (counts, percentages, money, durations), named entity (people, companies, products, places), date, and causal statement ("X led to Y"). Leave out opinions and general knowledge. Each claim is an object with:
+- "quote": the claim copied exactly from the post, character for character
+- "kind": "number", "entity", "date" or "causal"
+- "status": "sourced" (${sourced}), "hedged" (qualified as an estimate, belief or possibility, e.g. "roughly", "we think"), "hypothetical" (inside an example clearly labeled as hypothetical or imagined) or "unsupported" (stated as fact with no source)
+- "note": the source backing the claim, or the support that is missing${contradicted}
+An invented specific presented as fact is "unsupported"; reflect unsupported claims in the accuracy score.`;
+}
 
-   A related smell is **terseness without transitions**. AI-generated content often moves from point to point without any connective tissue, just boom-boom-boom through a checklist. Human writers meander a bit, circle back, use phrases like "which reminds me" or "but here's the weird part." The absence of those organic transitions makes content feel like it was assembled rather than written.
+export function getJudgePrompt(
+  postContent: string,
+  rubric: Rubric,
+  references: ReferenceDocument[] = [],
+  claims: boolean = false
+): string {
+  const criteria = rubric.criteria.map(formatCriterion).join('\n\n');
+  const keys = rubric.criteria.map((c) => `"${c.key}"`).join(', ');
+  const { block, instruction } = getReferenceSections(rubric, references);
+  const claimField = claims ? '\n- "claims": the factual claims in the post (see CLAIM CHECK below)' : '';
+  const claimCheck = claims ? getClaimCheckInstruction(references) : '';
 
-   Finally, watch for **generic motivational closings**, confident statistics without any source context, and a suspicious absence of personal anecdotes or admitted mistakes.
+  return `Evaluate the following blog post against these criteria:
 
-   **Signs of authentic human writing (score HIGHER):**
-   - Admitted mistakes or lessons learned with real specifics
-   - Numbers with measurement context ("from our Loom analytics over 3 months")
-   - Idiosyncratic opinions or contrarian takes that might alienate some readers
-   - Personal anecdotes with concrete details (names, places, specific moments)
-   - Asymmetric structure that serves the content rather than a template
-   - Organic transitions and occasional tangents that get reined back in
+${criteria}
 
 ---
 
-POST TO EVALUATE:
+${block}POST TO EVALUATE:
 
 ${postContent}
 
 ---
 
 Provide your evaluation as a JSON object with:
-- "scores": an array of 5 objects, each with "criterion" (one of: "narrative", "structure", "audienceFit", "accuracy", "aiDetection"), "score" (1-100), and "feedback" (specific, actionable feedback)
-- "overallScore": the weighted average based on the weights above
+- "scores": an array of ${rubric.criteria.length} objects, each with "criterion" (one of: ${keys}), "score" (1-100), "feedback" (specific, actionable feedback), and "citations" (an array of passages backing the feedback; omit it when there is nothing to quote)
+- each citation is an object with "quote" (a passage copied exactly from the post, character for character), "issue" (what the passage does wrong, or right), and "fix" (a concrete rewrite or change; empty if nothing needs fixing)
+- "overallScore": the weighted average based on the weights above${claimField}
 
 Return JSON only:
 - No code fences
 - No Markdown
 - No additional commentary outside the JSON object
 
-Be specific in your feedback. Point to exact passages when possible.`;
+Be specific in your feedback. Back it with citations of exact passages; quotes are checked against the post, so never paraphrase or invent them.${instruction}${claimCheck}`;
+}
+
+// =============================================================================
+// Pairwise Judging
+// =============================================================================
+
+export const PAIRWISE_JUDGE_SYSTEM_PROMPT = `You are an expert blog post evaluator. Your job is to compare two blog posts written for the same prompt and decide which one is better on each quality criterion.
+
+Judge each criterion independently. The order in which the posts are shown is arbitrary and must not influence your decision. Declare a tie only when the posts are genuinely indistinguishable on a criterion.`;
+
+/**
+ * JSON schema for structured pairwise output: one A/B/tie pick per rubric criterion.
+ */
+export function getPairwiseOutputSchema(rubric: Rubric) {
+  const count = rubric.criteria.length;
+  return {
+    type: "object",
+    properties: {
+      preferences: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            criterion: {
+              type: "string",
+              enum: rubric.criteria.map((c) => c.key),
+            },
+            winner: {
+              type: "string",
+              enum: ["A", "B", "tie"],
+            },
+            feedback: {
+              type: "string",
+            },
+          },
+          required: ["criterion", "winner", "feedback"],
+        },
+        minItems: count,
+        maxItems: count,
+      },
+    },
+    required: ["preferences"],
+  } as const;
+}
+
+export function getPairwiseJudgePrompt(
+  postA: string,
+  postB: string,
+  rubric: Rubric,
+  references: ReferenceDocument[] = []
+): string {
+  const criteria = rubric.criteria.map(formatCriterion).join('\n\n');
+  const block =
+    references.length > 0
+      ? `REFERENCE DOCUMENTS (ground truth for the posts' factual claims; a post that contradicts them, or presents specifics they don't support as fact, is less accurate):
+
+${formatReferences(references)}
+
+---
+
+`
+      : '';
+  const keys = rubric.criteria.map((c) => `"${c.key}"`).join(', ');
+
+  return `Compare the two blog posts below on each of these criteria. For each criterion, pick the post that does better by that criterion's standard:
+
+${criteria}
+
+---
+
+${block}POST A:
+
+${postA}
+
+---
+
+POST B:
+
+${postB}
+
+---
+
+Provide your comparison as a JSON object with:
+- "preferences": an array of ${rubric.criteria.length} objects, each with "criterion" (one of: ${keys}), "winner" ("A", "B" or "tie"), and "feedback" (why that post wins, pointing to specific passages)
+
+Return JSON only:
+- No code fences
+- No Markdown
+- No additional commentary outside the JSON object`;
 }
@@ -0,0 +1,10 @@
+import type { ReferenceDocument } from '../types/index.js';
+
+/**
+ * Reference documents as a numbered, delimited block for a prompt.
+ */
+export function formatReferences(references: ReferenceDocument[]): string {
+  return references
+    .map((r, i) => `REFERENCE ${i + 1} (${r.name}):\n\n${r.content}`)
+    .join('\n\n---\n\n');
+}
@@ -1,3 +1,6 @@
+import type { ReferenceDocument } from '../types/index.js';
+import { formatReferences } from './references.js';
+
 export const WRITER_SYSTEM_PROMPT = `You are a skilled blog writer. Write an engaging, narrative-driven blog post following AP Style guidelines.
 
 Guidelines:
@@ -36,16 +39,37 @@ Scout voice & tone:
 - Avoid corporate buzzwords ("synergy", "leverage", "paradigm shift", "revolutionize")
 - Prefer Scout terms when relevant: agents, workflows, databases (your AI's library), white-glove support`;
 
-export function getWriterPrompt(topic: string, existingContent?: string): string {
-  if (existingContent) {
-    return `Here is an existing blog post draft:
+export function getWriterPrompt(
+  topic: string,
+  existingContent?: string,
+  references: ReferenceDocument[] = []
+): string {
+  const task = existingContent
+    ? `Here is an existing blog post draft:
 
 ---
 ${existingContent}
 ---
 
-Please expand and improve this post about "${topic}". Maintain the original voice and direction while enhancing the narrative, adding depth, and ensuring it meets all the guidelines.`;
-  }
+Please expand and improve this post about "${topic}". Maintain the original voice and direction while enhancing the narrative, adding depth, and ensuring it meets all the guidelines.`
+    : `Write a blog post about: ${topic}`;
+
+  if (references.length === 0) return task;
+
+  return `${task}
+
+${getReferenceInstructions(references)}`;
+}
+
+/**
+ * Grounding instructions and the reference documents, appended to writing and refinement prompts.
+ */
+export function getReferenceInstructions(references: ReferenceDocument[]): string {
+  return `Ground the post in the reference documents below. They are the source of truth: do not contradict them, and do not present specifics they don't support (numbers, names, features, customer details) as fact. Anything beyond them must be general knowledge or clearly labeled as hypothetical.
+
+REFERENCE DOCUMENTS:
+
+${formatReferences(references)}
 
-  return `Write a blog post about: ${topic}`;
+---`;
 }
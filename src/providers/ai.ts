@@ -1,18 +1,33 @@
 /**
- * Vercel AI SDK provider setup for OpenRouter and Anthropic
+ * Vercel AI SDK provider setup for OpenRouter, Anthropic and OpenAI-compatible servers
  */
 
-import { generateText } from 'ai';
+import {
+  generateText,
+  generateObject,
+  jsonSchema,
+  APICallError,
+  JSONParseError,
+  NoObjectGeneratedError,
+  TypeValidationError,
+  UnsupportedFunctionalityError,
+  type JSONValue,
+} from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import {
   getOpenRouterApiKey,
   getAnthropicApiKey,
+  getOpenAICompatibleBaseUrl,
+  getOpenAICompatibleApiKey,
   getMaxRetries,
   getRetryBaseMs,
   getRetryMaxMs,
 } from '../config/env.js';
-import type { ModelConfig } from '../types/index.js';
+import { estimateCost } from '../config/pricing.js';
+import type { ModelConfig, CallUsage, GenerationParams } from '../types/index.js';
+import { withCassette } from './cassette.js';
+import { responseCacheActive, responseCacheKey, readCachedResponse, writeCachedResponse } from './cache.js';
 
 // =============================================================================
 // Provider Instances
@@ -39,6 +54,20 @@ function getAnthropicProvider() {
   return createAnthropic({ apiKey });
 }
 
+function getOpenAICompatibleProvider() {
+  const baseURL = getOpenAICompatibleBaseUrl();
+  if (!baseURL) {
+    throw new Error('OPENAI_COMPATIBLE_BASE_URL is not set. Please add it to your .env file.');
+  }
+
+  return createOpenAI({
+    baseURL,
+    // Self-hosted servers usually ignore auth, but the SDK requires a non-empty key.
+    apiKey: getOpenAICompatibleApiKey() || 'not-needed',
+    compatibility: 'compatible',
+  });
+}
+
 // =============================================================================
 // Model Resolution
 // =============================================================================
@@ -49,6 +78,8 @@ export function getModel(config: ModelConfig) {
       return getOpenRouterProvider()(config.modelId);
     case 'anthropic':
       return getAnthropicProvider()(config.modelId);
+    case 'openai-compatible':
+      return getOpenAICompatibleProvider()(config.modelId);
     default:
       throw new Error(`Unknown provider: ${(config as ModelConfig).provider}`);
   }
@@ -89,16 +120,10 @@ function isRetryableError(err: unknown): boolean {
 }
 
 /**
- * Generate text using the specified model and prompts.
- * Retries transient failures with exponential backoff.
+ * Run a provider call, retrying transient failures with exponential backoff.
+ * Never retries once the signal has been aborted.
  */
-export async function generate(
-  config: ModelConfig,
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  const model = getModel(config);
-
+async function withRetries<T>(config: ModelConfig, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
   const maxRetries = getMaxRetries();
   const baseMs = getRetryBaseMs();
   const maxMs = getRetryMaxMs();
@@ -106,20 +131,23 @@ export async function generate(
   let attempt = 0;
   // attempt 0 = initial try, then up to maxRetries retries.
   for (;;) {
+    if (signal?.aborted) {
+      throw new Error(`LLM request aborted for ${config.friendlyName}`);
+    }
+
     try {
-      const result = await generateText({
-        model,
-        system: systemPrompt,
-        prompt: userPrompt,
-        maxTokens: 8000,
-      });
-
-      return result.text;
+      return await call();
     } catch (err) {
+      if (signal?.aborted) {
+        throw new Error(`LLM request aborted for ${config.friendlyName}`);
+      }
+
       const retryable = isRetryableError(err);
       if (!retryable || attempt >= maxRetries) {
         const suffix = attempt > 0 ? ` (after ${attempt} retry/retries)` : '';
-        throw new Error(`LLM request failed for ${config.friendlyName}${suffix}: ${getErrorMessage(err)}`);
+        throw new Error(`LLM request failed for ${config.friendlyName}${suffix}: ${getErrorMessage(err)}`, {
+          cause: err,
+        });
       }
 
       const exp = Math.min(maxMs, baseMs * Math.pow(2, attempt));
@@ -129,3 +157,239 @@ export async function generate(
     }
   }
 }
+
+/**
+ * Per-call options shared by generate() and generateStructured().
+ */
+export interface GenerateOptions {
+  /** Aborts the in-flight request (e.g. on Ctrl-C); aborted calls are not retried */
+  signal?: AbortSignal;
+  /**
+   * Index of a deliberate repeat of the same request (1-based). Repeats above 1 get their own
+   * cassette and cache entries, so they are independent samples rather than replays of the first.
+   */
+  sample?: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage: CallUsage;
+}
+
+export interface GenerateStructuredResult {
+  object: unknown;
+  usage: CallUsage;
+}
+
+/** Usage as recorded by a live call (cost is priced at read time so overrides apply on replay). */
+type RawUsage = Omit<CallUsage, 'costUsd'>;
+
+function toRawUsage(
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined,
+  startedAt: number
+): RawUsage {
+  const promptTokens = Number.isFinite(usage?.promptTokens) ? usage!.promptTokens : 0;
+  const completionTokens = Number.isFinite(usage?.completionTokens) ? usage!.completionTokens : 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number.isFinite(usage?.totalTokens) ? usage!.totalTokens : promptTokens + completionTokens,
+    latencyMs: Date.now() - startedAt,
+  };
+}
+
+function priceUsage(config: ModelConfig, usage: RawUsage): CallUsage {
+  if (usage.cached) return { ...usage, costUsd: 0 };
+  return { ...usage, costUsd: estimateCost(config, usage.promptTokens, usage.completionTokens) };
+}
+
+const DEFAULT_MAX_TOKENS = 8000;
+
+// Anthropic has no effort setting; effort maps to an extended-thinking token budget.
+const ANTHROPIC_THINKING_BUDGETS: Record<NonNullable<GenerationParams['reasoningEffort']>, number> = {
+  low: 4096,
+  medium: 8192,
+  high: 16384,
+};
+
+/**
+ * Build the call settings for a model from its generation params.
+ * The result is also part of the response cache key.
+ */
+function buildCallSettings(config: ModelConfig) {
+  const params = config.params ?? {};
+  const effort = params.reasoningEffort;
+
+  let providerOptions: Record<string, Record<string, JSONValue>> | undefined;
+  if (effort) {
+    providerOptions =
+      config.provider === 'anthropic'
+        ? { anthropic: { thinking: { type: 'enabled', budgetTokens: ANTHROPIC_THINKING_BUDGETS[effort] } } }
+        : { openai: { reasoningEffort: effort } };
+  }
+
+  return {
+    maxTokens: params.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: params.temperature,
+    topP: params.topP,
+    seed: params.seed,
+    providerOptions,
+  };
+}
+
+/**
+ * Serve a response from the on-disk cache when enabled, otherwise call through and store it.
+ * Cache hits report zero tokens (nothing was spent) and are flagged with usage.cached.
+ */
+async function withResponseCache<T extends { usage: RawUsage }>(
+  config: ModelConfig,
+  kind: string,
+  systemPrompt: string,
+  userPrompt: string,
+  params: unknown,
+  sample: number | undefined,
+  live: () => Promise<T>
+): Promise<T> {
+  if (!responseCacheActive()) return live();
+
+  const key = responseCacheKey(config, kind, systemPrompt, userPrompt, params, sample);
+  const startedAt = Date.now();
+  const cached = await readCachedResponse<T>(key);
+  if (cached) {
+    return {
+      ...cached,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, latencyMs: Date.now() - startedAt, cached: true },
+    };
+  }
+
+  const fresh = await live();
+  await writeCachedResponse(key, config, fresh);
+  return fresh;
+}
+
+/**
+ * Generate text using the specified model and prompts.
+ * Retries transient failures with exponential backoff.
+ * Honors the configured record/replay cassette and response cache.
+ */
+export async function generate(
+  config: ModelConfig,
+  systemPrompt: string,
+  userPrompt: string,
+  options: GenerateOptions = {}
+): Promise<GenerateResult> {
+  const settings = buildCallSettings(config);
+  const recorded = await withCassette(config, 'text', systemPrompt, userPrompt, options.sample, () =>
+    withResponseCache(config, 'text', systemPrompt, userPrompt, settings, options.sample, () => {
+      const model = getModel(config);
+      const startedAt = Date.now();
+
+      return withRetries(config, async () => {
+        const result = await generateText({
+          model,
+          system: systemPrompt,
+          prompt: userPrompt,
+          ...settings,
+          abortSignal: options.signal,
+        });
+
+        return { text: result.text, usage: toRawUsage(result.usage, startedAt) };
+      }, options.signal);
+    })
+  );
+
+  return { text: recorded.text, usage: priceUsage(config, recorded.usage) };
+}
+
+// =============================================================================
+// Structured Generation
+// =============================================================================
+
+// The error and every error it wraps (withRetries keeps the provider error as `cause`)
+function errorChain(err: unknown): unknown[] {
+  const chain: unknown[] = [];
+  for (let e = err; e !== undefined && e !== null && chain.length < 10; e = (e as { cause?: unknown }).cause) {
+    chain.push(e);
+  }
+  return chain;
+}
+
+// Statuses a provider answers with when it rejects a request's parameters or the model
+const REJECTED_REQUEST_STATUSES = new Set([400, 404, 422]);
+// What a rejected request must name to count as "structured output unsupported"
+const STRUCTURED_FEATURE = /response_format|json_schema|json[ _]mode|json_object|structured output|tool[ _](?:use|choice|calling)|function[ _]calling/i;
+const NOT_SUPPORTED = /not supported|unsupported|does(?: not|n't) support|no endpoints found that support/i;
+
+/**
+ * Whether a generateStructured() failure says the model or provider cannot do structured output:
+ * the SDK reports the functionality as unsupported, or the provider rejected the request (400, 404
+ * or 422) saying that JSON schema / JSON mode / tool calling is not supported. Anything else (auth,
+ * quota, rate limits, timeouts, network errors, cassette misses) says nothing about the model.
+ */
+export function isStructuredOutputUnsupportedError(err: unknown): boolean {
+  return errorChain(err).some((e) => {
+    if (UnsupportedFunctionalityError.isInstance(e)) return true;
+    if (!APICallError.isInstance(e) || !REJECTED_REQUEST_STATUSES.has(e.statusCode ?? 0)) return false;
+    const message = `${e.message}\n${e.responseBody ?? ''}`;
+    return STRUCTURED_FEATURE.test(message) && NOT_SUPPORTED.test(message);
+  });
+}
+
+/**
+ * Whether a generateStructured() call went through but the model's object was missing or did not
+ * parse or match the schema. Worth retrying as text for this call, without giving up on structured output.
+ */
+export function isInvalidStructuredOutputError(err: unknown): boolean {
+  return errorChain(err).some(
+    (e) => NoObjectGeneratedError.isInstance(e) || JSONParseError.isInstance(e) || TypeValidationError.isInstance(e)
+  );
+}
+
+/**
+ * Usage of a generateStructured() call that reached the provider but failed: the tokens spent on an
+ * invalid object, or none for a rejected request. Counted so usage reports show every call a judgment took.
+ */
+export function failedStructuredUsage(config: ModelConfig, err: unknown, startedAt: number): CallUsage {
+  const invalid = errorChain(err).find((e) => NoObjectGeneratedError.isInstance(e));
+  const usage = invalid ? (invalid as NoObjectGeneratedError).usage : undefined;
+  return priceUsage(config, toRawUsage(usage, startedAt));
+}
+
+export type StructuredSchema = Parameters<typeof jsonSchema>[0];
+
+/**
+ * Generate a JSON object constrained by a JSON schema.
+ * Uses the provider's native structured output mode (JSON mode or tool calling).
+ * The returned object is not validated beyond what the provider enforces.
+ * Honors the configured record/replay cassette and response cache.
+ */
+export async function generateStructured(
+  config: ModelConfig,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: StructuredSchema,
+  options: GenerateOptions = {}
+): Promise<GenerateStructuredResult> {
+  const settings = buildCallSettings(config);
+  const recorded = await withCassette(config, 'object', systemPrompt, userPrompt, options.sample, () =>
+    withResponseCache(config, 'object', systemPrompt, userPrompt, { ...settings, schema }, options.sample, () => {
+      const model = getModel(config);
+      const startedAt = Date.now();
+
+      return withRetries(config, async () => {
+        const result = await generateObject({
+          model,
+          system: systemPrompt,
+          prompt: userPrompt,
+          schema: jsonSchema<unknown>(schema),
+          ...settings,
+          abortSignal: options.signal,
+        });
+
+        return { object: result.object, usage: toRawUsage(result.usage, startedAt) };
+      }, options.signal);
+    })
+  );
+
+  return { object: recorded.object, usage: priceUsage(config, recorded.usage) };
+}
@@ -0,0 +1,100 @@
+/**
+ * Content-addressed on-disk cache for LLM responses.
+ *
+ * Entries are keyed by a hash of provider, model ID, contestant, call kind, system prompt,
+ * user prompt, generation params and sample index, and expire after a TTL. Including the
+ * contestant keeps repeated entries of the same writer model as independent samples; the
+ * sample index does the same for a judge scoring one post several times. The cache is opt-in
+ * (WRITEOFF_CACHE=1) and can be switched off for a single run with --no-cache.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { getResponseCacheDir, getResponseCacheTtlMs, isResponseCacheEnabled } from '../config/env.js';
+import type { ModelConfig } from '../types/index.js';
+
+interface CacheEntry<T> {
+  model: string;
+  createdAt: string;
+  response: T;
+}
+
+let disabledForRun = false;
+
+/**
+ * Disable the response cache for the rest of this process (the --no-cache flag).
+ */
+export function disableResponseCache(): void {
+  disabledForRun = true;
+}
+
+export function responseCacheActive(): boolean {
+  return !disabledForRun && isResponseCacheEnabled();
+}
+
+export function responseCacheKey(
+  config: ModelConfig,
+  kind: string,
+  system: string,
+  prompt: string,
+  params: unknown,
+  sample: number = 1
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        config.provider,
+        config.modelId,
+        config.contestantId ?? null,
+        kind,
+        system,
+        prompt,
+        params,
+        ...(sample > 1 ? [sample] : []),
+      ])
+    )
+    .digest('hex');
+}
+
+function entryPath(key: string): string {
+  return path.resolve(getResponseCacheDir(), key.slice(0, 2), `${key}.json`);
+}
+
+/**
+ * Read a cached response, or null on a miss, an expired entry or an unreadable file.
+ */
+export async function readCachedResponse<T>(key: string): Promise<T | null> {
+  let entry: CacheEntry<T>;
+  try {
+    entry = JSON.parse(await readFile(entryPath(key), 'utf-8')) as CacheEntry<T>;
+  } catch {
+    return null;
+  }
+
+  const age = Date.now() - Date.parse(entry.createdAt);
+  if (!Number.isFinite(age) || age > getResponseCacheTtlMs()) return null;
+
+  return entry.response;
+}
+
+/**
+ * Store a response. Write failures are ignored: the cache is an optimization only.
+ */
+export async function writeCachedResponse<T>(key: string, config: ModelConfig, response: T): Promise<void> {
+  const file = entryPath(key);
+  const entry: CacheEntry<T> = {
+    model: `${config.provider}:${config.modelId}`,
+    createdAt: new Date().toISOString(),
+    response,
+  };
+
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+    await writeFile(tmp, JSON.stringify(entry), 'utf-8');
+    await rename(tmp, file);
+  } catch {
+    // Ignore: a failed cache write should never fail the run.
+  }
+}
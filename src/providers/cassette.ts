@@ -0,0 +1,139 @@
+/**
+ * Record/replay cassettes for LLM calls.
+ *
+ * In record mode every live request/response pair is written to a JSON cassette file,
+ * keyed by model (including generation params and contestant), call kind, prompts and sample.
+ * In replay mode responses are served from the cassette and a missing entry is an error,
+ * so runs are deterministic and need no network or API keys.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { getCassetteFile, getCassetteMode } from '../config/env.js';
+import type { ModelConfig } from '../types/index.js';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/** Which provider call produced the response. */
+export type CassetteKind = 'text' | 'object';
+
+export interface CassetteEntry {
+  model: string;
+  kind: CassetteKind;
+  system: string;
+  prompt: string;
+  response: unknown;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+export function cassetteKey(
+  config: ModelConfig,
+  kind: CassetteKind,
+  system: string,
+  prompt: string,
+  sample: number = 1
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        config.provider,
+        config.modelId,
+        config.params ?? null,
+        config.contestantId ?? null,
+        kind,
+        system,
+        prompt,
+        // Only repeats are keyed by sample, so cassettes recorded before sampling still replay.
+        ...(sample > 1 ? [sample] : []),
+      ])
+    )
+    .digest('hex');
+}
+
+let loaded: { file: string; cassette: CassetteFile } | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+function loadCassette(file: string, mustExist: boolean): CassetteFile {
+  if (loaded && loaded.file === file) return loaded.cassette;
+
+  let cassette: CassetteFile;
+  try {
+    const parsed = JSON.parse(readFileSync(file, 'utf-8')) as CassetteFile;
+    if (parsed.version !== 1 || typeof parsed.entries !== 'object' || parsed.entries === null) {
+      throw new Error(`Unsupported cassette format in ${file}`);
+    }
+    cassette = parsed;
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code !== 'ENOENT' || mustExist) {
+      throw new Error(`Unable to load cassette ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    cassette = { version: 1, entries: {} };
+  }
+
+  loaded = { file, cassette };
+  return cassette;
+}
+
+async function saveCassette(file: string, cassette: CassetteFile): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await writeFile(tmp, JSON.stringify(cassette, null, 2), 'utf-8');
+  await rename(tmp, file);
+}
+
+/**
+ * Wrap a live provider call with the configured cassette mode.
+ * - off: call through
+ * - record: call through and persist the response
+ * - replay: serve the recorded response; throw on a miss without calling the provider
+ */
+export async function withCassette<T>(
+  config: ModelConfig,
+  kind: CassetteKind,
+  system: string,
+  prompt: string,
+  sample: number | undefined,
+  live: () => Promise<T>
+): Promise<T> {
+  const mode = getCassetteMode();
+  if (mode === 'off') return live();
+
+  const file = path.resolve(getCassetteFile());
+  const cassette = loadCassette(file, mode === 'replay');
+  const key = cassetteKey(config, kind, system, prompt, sample);
+
+  if (mode === 'replay') {
+    const entry = cassette.entries[key];
+    if (!entry) {
+      throw new Error(
+        `Cassette miss for ${config.provider}:${config.modelId} (${kind}) in ${file}. ` +
+          'Re-record the session with WRITEOFF_CASSETTE_MODE=record.'
+      );
+    }
+    return entry.response as T;
+  }
+
+  const response = await live();
+  cassette.entries[key] = {
+    model: `${config.provider}:${config.modelId}`,
+    kind,
+    system,
+    prompt,
+    response,
+    recordedAt: new Date().toISOString(),
+  };
+
+  // Serialize writes so concurrent calls don't interleave partial files.
+  writeChain = writeChain.catch(() => undefined).then(() => saveCassette(file, cassette));
+  await writeChain;
+
+  return response;
+}
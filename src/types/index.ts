@@ -7,13 +7,76 @@
 // Model Configuration
 // =============================================================================
 
+/**
+ * Per-model sampling settings. Unset fields use provider defaults
+ * (maxTokens defaults to 8000).
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  seed?: number;
+  /** Reasoning effort for reasoning models (mapped to a thinking budget for Anthropic) */
+  reasoningEffort?: 'low' | 'medium' | 'high';
+}
+
 /**
  * Configuration for an LLM model
  */
 export interface ModelConfig {
-  provider: 'openrouter' | 'anthropic';
+  provider: 'openrouter' | 'anthropic' | 'openai-compatible';
   modelId: string;
   friendlyName: string;
+  /** Sampling settings from the model string suffix (e.g. "?temperature=0") */
+  params?: GenerationParams;
+  /** Unique writer slot in a session; set when the same model competes more than once */
+  contestantId?: string;
+}
+
+// =============================================================================
+// Usage Types
+// =============================================================================
+
+/**
+ * Token usage and latency for one or more LLM calls
+ */
+export interface CallUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Wall-clock latency in milliseconds, including retries */
+  latencyMs: number;
+  /** Estimated cost in USD; undefined when the model has no price entry */
+  costUsd?: number;
+  /** True when the response was served from the on-disk response cache */
+  cached?: boolean;
+  /** Provider calls this usage covers, when combined from several (absent for a single call) */
+  calls?: number;
+}
+
+/**
+ * Usage rolled up over many calls
+ */
+export interface UsageTotals {
+  /** Provider calls made (a judgment that fell back to text output spans several) */
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  /** Sum of costUsd over priced calls */
+  costUsd: number;
+  /** Calls whose model had no price entry (excluded from costUsd) */
+  unpricedCalls: number;
+}
+
+/**
+ * Usage for a whole session, broken down by writer and judge friendly name
+ */
+export interface UsageReport {
+  total: UsageTotals;
+  byWriter: Record<string, UsageTotals>;
+  byJudge: Record<string, UsageTotals>;
 }
 
 // =============================================================================
@@ -24,10 +87,24 @@ export interface ModelConfig {
  * Result of generating a blog post from an LLM
  */
 export interface WriterResult {
+  /** Unique per contestant within a session (a model may compete several times) */
+  contestantId: string;
   modelId: string;
   friendlyName: string;
   content: string;
   generatedAt: Date;
+  /** Sampling settings the writer ran with (absent when provider defaults were used) */
+  params?: GenerationParams;
+  /** Usage of the call that produced this content (absent for user-supplied content) */
+  usage?: CallUsage;
+  /** True when the content was reused from the response cache rather than freshly sampled */
+  cacheHit?: boolean;
+  /** AP Style check of the content as written (before any --fix) */
+  apStyle?: ApStyleReport;
+  /** Length and readability of the content */
+  readability?: ReadabilityMetrics;
+  /** Hard limits the content breaks (see ReadabilityLimits); a disqualified post cannot win */
+  disqualified?: string[];
 }
 
 // =============================================================================
@@ -35,7 +112,7 @@ export interface WriterResult {
 // =============================================================================
 
 /**
- * Criteria weights for evaluating blog posts
+ * Criteria of the default blog rubric (see DEFAULT_RUBRIC in config/rubric.ts)
  * - narrative (30%): Flow, storytelling, engagement
  * - structure (20%): Organization, headings, transitions
  * - audienceFit (20%): Tone, knowledge level
@@ -56,7 +133,7 @@ export interface JudgingCriteria {
 }
 
 /**
- * Criteria weights as percentages (must sum to 100)
+ * Default rubric weights as percentages (must sum to 100)
  */
 export const CRITERIA_WEIGHTS: Readonly<JudgingCriteria> = {
   narrative: 30,
@@ -66,30 +143,119 @@ export const CRITERIA_WEIGHTS: Readonly<JudgingCriteria> = {
   aiDetection: 15,
 } as const;
 
+/**
+ * One criterion of a judging rubric
+ */
+export interface RubricCriterion {
+  /** Identifier used in judge output and results, e.g. "audienceFit" */
+  key: string;
+  /** Display name, e.g. "Audience Fit" */
+  name: string;
+  /** Weight as a percentage; weights of a rubric sum to 100 */
+  weight: number;
+  /** What the judge should assess (shown in the judge prompt) */
+  description: string;
+  /** Alternative spellings accepted from judges, e.g. "audience" */
+  aliases?: string[];
+}
+
+/**
+ * A set of weighted criteria that drives the judge prompt, validation, aggregation and rendering
+ */
+export interface Rubric {
+  name: string;
+  criteria: RubricCriterion[];
+}
+
 /**
  * Score for a single criterion from a judge
  */
 export interface CriterionScore {
-  criterion: keyof JudgingCriteria;
+  /** Rubric criterion key */
+  criterion: string;
   /** Score from 1-100 */
   score: number;
   feedback: string;
+  /** Passages the judge cited for this criterion (absent when the judge gave none) */
+  citations?: Citation[];
 }
 
+/**
+ * A passage a judge cites as evidence, checked against the post text
+ */
+export interface Citation {
+  /** Passage quoted verbatim from the post */
+  quote: string;
+  /** What the passage does wrong (or right) */
+  issue: string;
+  /** Suggested fix */
+  fix: string;
+  /** Whether the quote was found in the text the judge was shown (absent when it was not checked) */
+  verified?: boolean;
+  /** Character offsets [start, end) of the quote in the post; absent when it could not be located */
+  start?: number;
+  end?: number;
+}
+
+/**
+ * What a factual claim asserts: a figure, a named person/company/product, a date or a cause and effect
+ */
+export type ClaimKind = 'number' | 'entity' | 'date' | 'causal';
+
+/**
+ * How a claim is backed: attributed to a source (or a reference document), hedged, labeled as
+ * hypothetical, or stated as fact without support
+ */
+export type ClaimStatus = 'sourced' | 'hedged' | 'hypothetical' | 'unsupported';
+
+/**
+ * A factual claim a judge pulled out of the post, checked against the post text like a citation
+ */
+export interface Claim {
+  /** The claim quoted verbatim from the post */
+  quote: string;
+  kind: ClaimKind;
+  status: ClaimStatus;
+  /** The source backing the claim, or what support is missing */
+  note: string;
+  /** Whether the quote was found in the text the judge was shown (absent when it was not checked) */
+  verified?: boolean;
+  /** Character offsets [start, end) of the quote in the post; absent when it could not be located */
+  start?: number;
+  end?: number;
+}
+
+/**
+ * What happens to cited quotes that are not found in the post: kept with verified: false, or dropped
+ */
+export type UnverifiedQuotePolicy = 'flag' | 'drop';
+
 /**
  * Complete judgment result from one judge for one post
  */
 export interface JudgmentResult {
   judgeModelId: string;
   judgeFriendlyName: string;
+  /** Sampling settings the judge ran with (absent when provider defaults were used) */
+  judgeParams?: GenerationParams;
   postModelId: string;
+  /** Contestant whose post was judged */
+  postContestantId: string;
   scores: CriterionScore[];
   /** Weighted overall score reported by the judge (advisory). */
   overallScore: number;
-  /** Weighted overall score computed locally from criterion scores + CRITERIA_WEIGHTS. */
+  /** Weighted overall score computed locally from criterion scores + rubric weights. */
   overallScoreComputed: number;
   /** Optional warnings about parsing/validation/repairs. */
   parseWarnings?: string[];
+  /** Combined usage of every call made for this judgment (including fallbacks and repairs) */
+  usage?: CallUsage;
+  /** True when any call for this judgment was served from the response cache (a reused sample) */
+  cacheHit?: boolean;
+  /** 1-based sample index when the judge scored the post more than once (absent for a single sample) */
+  sample?: number;
+  /** Factual claims found in the post (absent unless the claim check was on) */
+  claims?: Claim[];
   judgedAt: Date;
 }
 
@@ -100,27 +266,433 @@ export interface JudgeFailure {
   judgeModelId: string;
   judgeFriendlyName: string;
   postModelId: string;
+  postContestantId: string;
   postFriendlyName: string;
+  /** Sample index of the failed judgment (absent for a single sample) */
+  sample?: number;
   error: string;
   failedAt: Date;
 }
 
+/**
+ * How a judge's repeated samples of one post are combined into that judge's score
+ */
+export type SampleStatistic = 'mean' | 'median';
+
+/**
+ * How judges' scores are combined on each criterion: arithmetic mean, median, mean without the
+ * highest and lowest judge, or mean weighted by per-judge trust weights
+ */
+export type AggregationStrategy = 'mean' | 'median' | 'trimmed' | 'weighted';
+
+/**
+ * How judgments are combined into a post's scores
+ */
+export interface AggregationSettings {
+  /** Applied per criterion across judges */
+  strategy: AggregationStrategy;
+  /** Trust weight by judge friendly name (weighted strategy; judges not listed weigh 1) */
+  judgeWeights?: Record<string, number>;
+  /** Applied per criterion to each judge's samples before judges are combined */
+  sampleStatistic: SampleStatistic;
+  /** Per-judge corrections applied to every judgment before anything is combined */
+  calibration?: Calibration;
+}
+
+/**
+ * What to do when a judge is the same model as a post's writer: keep the self-judgment,
+ * skip it, or keep it and report how far the model's score of itself departs from the others'
+ */
+export type SelfJudgingPolicy = 'include' | 'exclude' | 'report';
+
+/**
+ * How posts are judged: absolute 1-100 scores per post, or head-to-head comparisons
+ */
+export type JudgingMode = 'absolute' | 'pairwise';
+
+/**
+ * A judge's pick for one criterion in a head-to-head comparison
+ */
+export interface CriterionPreference {
+  /** Rubric criterion key */
+  criterion: string;
+  /** Contestant ID of the preferred post, or "tie" */
+  winner: string;
+  feedback: string;
+}
+
+/**
+ * One judge's comparison of two posts. Every pair is judged in both orders to cancel position bias.
+ */
+export interface PairwiseJudgment {
+  judgeModelId: string;
+  judgeFriendlyName: string;
+  judgeParams?: GenerationParams;
+  /** Contestant shown to the judge as Post A */
+  firstContestantId: string;
+  /** Contestant shown to the judge as Post B */
+  secondContestantId: string;
+  preferences: CriterionPreference[];
+  parseWarnings?: string[];
+  usage?: CallUsage;
+  cacheHit?: boolean;
+  judgedAt: Date;
+}
+
+/**
+ * A failed head-to-head comparison (the run continues without it)
+ */
+export interface PairwiseFailure {
+  judgeModelId: string;
+  judgeFriendlyName: string;
+  firstContestantId: string;
+  secondContestantId: string;
+  error: string;
+  failedAt: Date;
+}
+
+/**
+ * One model's score of its own post next to the other judges' scores of the same post
+ */
+export interface SelfPreferencePost {
+  postContestantId: string;
+  /** The model's own score (weighted win rate in pairwise mode) */
+  selfScore: number;
+  /** Mean score from the other judges */
+  otherJudgesScore: number;
+  otherJudges: number;
+}
+
+/**
+ * Self-preference of one judge model across the posts it wrote
+ */
+export interface SelfPreference {
+  judgeModelId: string;
+  judgeFriendlyName: string;
+  /** Mean of selfScore - otherJudgesScore; positive means the model favors its own writing */
+  delta: number;
+  posts: SelfPreferencePost[];
+}
+
+/**
+ * The opaque label a contestant was judged under (blind judging)
+ */
+export interface BlindLabel {
+  /** Label judges saw in place of the contestant, e.g. "contestant-k7qf" */
+  label: string;
+  contestantId: string;
+  modelId: string;
+  friendlyName: string;
+  /** Self-identifying phrases stripped from the post before judging */
+  redactions: string[];
+}
+
+/**
+ * Audit record of a blinded judging run
+ */
+export interface BlindingRecord {
+  /** Seed that produced the labels and every judge's order */
+  seed: number;
+  labels: BlindLabel[];
+  /**
+   * Order in which each judge (by friendly name) was shown the posts: labels in absolute
+   * mode, "<first> vs <second>" label pairs in pairwise mode
+   */
+  judgeOrder: Record<string, string[]>;
+  /** Whether markdown habits were normalized before judging; absent when posts kept their formatting */
+  normalizedFormatting?: boolean;
+}
+
 // =============================================================================
 // Aggregation Types
 // =============================================================================
 
+/**
+ * Head-to-head record and Bradley-Terry fit for one post (pairwise mode)
+ */
+export interface PairwiseStanding {
+  /** Bradley-Terry strength (geometric mean across posts is 1) */
+  strength: number;
+  /** Weighted criterion wins, losses and ties across all comparisons */
+  wins: number;
+  losses: number;
+  ties: number;
+  comparisons: number;
+}
+
+/**
+ * Spread of one score across judges
+ */
+export interface ScoreDispersion {
+  /** Sample standard deviation (n - 1) */
+  stdDev: number;
+  min: number;
+  max: number;
+  /** Number of judges that gave a score */
+  judges: number;
+}
+
+/**
+ * How much a post's judges agree with each other (absolute mode, two or more judges)
+ */
+export interface JudgeAgreement {
+  /** Dispersion of each rubric criterion's score */
+  criteria: Record<string, ScoreDispersion>;
+  /** Dispersion of the locally computed overall score */
+  overall: ScoreDispersion;
+  /**
+   * Krippendorff's alpha (interval metric) with the post's criteria as units and judges as
+   * coders: 1 is perfect agreement, 0 is no better than chance, negative is systematic disagreement
+   */
+  alpha: number;
+  /** True when any criterion's standard deviation reaches the disagreement threshold */
+  strongDisagreement: boolean;
+}
+
+/**
+ * Run-to-run noise of a post's overall score (a judge scored it more than once)
+ */
+export interface JudgeNoise {
+  /** Most samples any judge took of the post */
+  samplesPerJudge: number;
+  /** Pooled variance of each judge's overall score across its own samples */
+  withinJudgeVariance: number;
+  /** Variance of the per-judge overall scores after samples are combined (two or more judges) */
+  betweenJudgeVariance?: number;
+  /** Standard error of the post's overall score due to within-judge noise alone */
+  standardError: number;
+}
+
+/**
+ * Bootstrap percentile interval for a post's overall score
+ */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  /** Coverage, e.g. 0.95 */
+  level: number;
+}
+
 /**
  * Aggregated scores for one post across all judges
  */
 export interface AggregatedResult {
   postModelId: string;
+  postContestantId: string;
   postFriendlyName: string;
-  /** Average score for each criterion across all judges */
-  averageScores: Record<keyof JudgingCriteria, number>;
-  /** Weighted average of all criteria across all judges */
+  /**
+   * Average score for each rubric criterion across all judges.
+   * In pairwise mode: the post's win rate (0-100, ties count half) on each criterion.
+   */
+  averageScores: Record<string, number>;
+  /**
+   * Weighted average of all criteria across all judges.
+   * In pairwise mode: Bradley-Terry expected win rate (0-100) against the rest of the field.
+   */
   overallAverage: number;
-  /** Individual judgments from each judge */
+  /** Individual judgments from each judge, every sample included (empty in pairwise mode) */
   judgments: JudgmentResult[];
+  /** Present in pairwise mode */
+  pairwise?: PairwiseStanding;
+  /** Judge dispersion and agreement (absolute mode with two or more judges) */
+  agreement?: JudgeAgreement;
+  /** Bootstrap interval for overallAverage (two or more judges) */
+  confidence?: ConfidenceInterval;
+  /** Hard limits the post breaks; disqualified results rank after all others and cannot win */
+  disqualified?: string[];
+  /** Within- and between-judge variance (judges sampled more than once) */
+  noise?: JudgeNoise;
+  /** Median count of unsupported claims per judgment (absent unless the claim check was on) */
+  unsupportedClaims?: number;
+}
+
+/**
+ * Probability that the leader outscores one runner-up
+ */
+export interface LeaderComparison {
+  postContestantId: string;
+  postFriendlyName: string;
+  /** Share of bootstrap resamples in which the leader scored higher (ties count half) */
+  probability: number;
+}
+
+/**
+ * Whether the top-ranked post is a statistically meaningful winner
+ */
+export interface WinnerVerdict {
+  /** Contestant ranked first by overallAverage */
+  leaderContestantId: string;
+  /** Probability the leader must reach against a runner-up to beat it outright */
+  level: number;
+  /** Bootstrap resamples drawn */
+  iterations: number;
+  /** Leader against every runner-up, in ranking order */
+  comparisons: LeaderComparison[];
+  /** Contestants the leader does not beat at the required level */
+  tiedWith: string[];
+  /** True when the leader does not beat the second-ranked post at the required level */
+  statisticalTie: boolean;
+}
+
+// =============================================================================
+// Style Lint Types
+// =============================================================================
+
+/**
+ * How much a lint finding counts against a post: error (banned outright), warning (an AI tell), info (worth a look)
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * One mechanical style problem found in a post
+ */
+export interface LintFinding {
+  /** Rule ID, e.g. "em-dash" */
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  /** Suggested fix */
+  fix: string;
+  /** Matched text */
+  text: string;
+  /** 1-based line and column of the match */
+  line: number;
+  column: number;
+  /** Character offsets [start, end) of the match in the post */
+  start: number;
+  end: number;
+}
+
+// =============================================================================
+// AP Style Types
+// =============================================================================
+
+/**
+ * One departure from the house AP Style rules
+ */
+export interface ApStyleViolation {
+  /** Rule ID, e.g. "percent" */
+  rule: string;
+  message: string;
+  /** Matched text */
+  text: string;
+  /** Rewrite applied by --fix; absent when the fix needs a human (e.g. a comma that may join clauses) */
+  replacement?: string;
+  /** 1-based line and column of the match */
+  line: number;
+  column: number;
+  /** Character offsets [start, end) of the match in the post */
+  start: number;
+  end: number;
+}
+
+/**
+ * AP Style violation counts for a post, as the writer produced it
+ */
+export interface ApStyleReport {
+  /** Violations found */
+  total: number;
+  /** Violations per rule ID (rules without violations are left out) */
+  byRule: Record<string, number>;
+  /** Violations rewritten by --fix (0 without it) */
+  fixed: number;
+}
+
+// =============================================================================
+// Readability Types
+// =============================================================================
+
+/**
+ * Length and readability of a post's prose (code blocks are left out)
+ */
+export interface ReadabilityMetrics {
+  words: number;
+  sentences: number;
+  /** Estimated reading time at READING_WORDS_PER_MINUTE */
+  readingMinutes: number;
+  /** Flesch-Kincaid grade level */
+  fleschKincaidGrade: number;
+  /** Mean and variance of words per sentence (low variance reads as monotonous) */
+  sentenceLengthMean: number;
+  sentenceLengthVariance: number;
+  /** Markdown headings */
+  headings: number;
+  /** Markdown list items */
+  listItems: number;
+}
+
+/**
+ * Hard limits on a post; breaking any of them disqualifies it
+ */
+export interface ReadabilityLimits {
+  maxReadingMinutes?: number;
+  minWords?: number;
+  maxWords?: number;
+  maxGrade?: number;
+}
+
+// =============================================================================
+// Reference Types
+// =============================================================================
+
+/**
+ * A source document (product docs, interview notes, a spec) that writers and judges treat as ground truth
+ */
+export interface ReferenceDocument {
+  /** The file as given on the command line, shown to the models */
+  name: string;
+  content: string;
+}
+
+// =============================================================================
+// Calibration Types
+// =============================================================================
+
+/**
+ * A post with known reference scores, used to calibrate judges
+ */
+export interface AnchorPost {
+  id: string;
+  content: string;
+  /** Reference score (1-100) by rubric criterion key; criteria without one are not calibrated */
+  scores: Record<string, number>;
+}
+
+/**
+ * Linear map from a judge's raw criterion score to the reference scale: intercept + slope * raw
+ */
+export interface CriterionCorrection {
+  slope: number;
+  intercept: number;
+  /** Anchors the fit was based on */
+  anchors: number;
+}
+
+/**
+ * Corrections for one judge, matched to judgments by model ID and sampling settings
+ */
+export interface JudgeCalibration {
+  modelId: string;
+  friendlyName: string;
+  params?: GenerationParams;
+  /** By rubric criterion key */
+  criteria: Record<string, CriterionCorrection>;
+}
+
+/**
+ * Output of `writeoff calibrate`: per-judge, per-criterion corrections fitted on anchor posts
+ */
+export interface Calibration {
+  /** Starts at 1 and increments each time calibrate rewrites the same file */
+  version: number;
+  /** Name of the rubric the anchors were scored against */
+  rubric: string;
+  /** IDs of the anchors the corrections were fitted on */
+  anchors: string[];
+  judges: JudgeCalibration[];
+  createdAt: Date;
+  /** Absolute path the calibration was loaded from (set when a run applies it) */
+  file?: string;
 }
 
 // =============================================================================
@@ -137,17 +709,73 @@ export interface WriteoffSession {
   prompt: string;
   /** Optional input file path if prompt was loaded from file */
   inputFile?: string;
+  /** Writer models (including sampling settings) used for this session */
+  writerModels: ModelConfig[];
+  /** Judge models (including sampling settings) used for this session */
+  judgeModels: ModelConfig[];
+  /** Rubric the posts were judged against */
+  rubric: Rubric;
+  /** Absolute scores (default) or head-to-head comparisons */
+  judgingMode: JudgingMode;
+  /** How judges were treated on posts written by the same model */
+  selfJudging: SelfJudgingPolicy;
+  /** Times each judge scored each post */
+  judgeSamples: number;
+  /** How judgments were combined into results */
+  aggregation: AggregationSettings;
+  /** Whether the style linter judged alongside the panel (its judgments are in `judgments`) */
+  lint?: boolean;
+  /** Whether fixable AP Style violations were rewritten before judging (see each post's `apStyle`) */
+  apStyleFix?: boolean;
+  /** Hard readability limits the posts were checked against (see each post's `disqualified`) */
+  limits?: ReadabilityLimits;
+  /** Whether judges also listed the posts' factual claims (see each judgment's `claims`) */
+  claims?: boolean;
+  /** Reference documents the posts were written from and checked against; absent when none were given */
+  references?: ReferenceDocument[];
   /** Generated posts from all writer models */
   posts: WriterResult[];
   /** Individual judgments from all judges */
   judgments: JudgmentResult[];
   /** Any judge failures encountered (run continues with partial results). */
   judgeFailures: JudgeFailure[];
+  /** Head-to-head comparisons (pairwise mode only) */
+  pairwiseJudgments?: PairwiseJudgment[];
+  /** Failed head-to-head comparisons (pairwise mode only) */
+  pairwiseFailures?: PairwiseFailure[];
+  /** Label mapping and judge orders when posts were judged blind */
+  blinding?: BlindingRecord;
   /** Aggregated results for each post */
   results: AggregatedResult[];
   /** The winning post (highest overall average) or null if no posts */
   winner: AggregatedResult | null;
+  /** How confidently the winner beats the runners-up (two or more judges and posts) */
+  verdict?: WinnerVerdict;
+  /** Per-model self-preference deltas (selfJudging "report" only) */
+  selfPreference?: SelfPreference[];
+  /** Token usage and estimated cost across all writer and judge calls */
+  usage: UsageReport;
+  /** True when the run was cancelled (Ctrl-C) and holds partial results */
+  interrupted: boolean;
   createdAt: Date;
+  /** Earlier judging rounds, oldest first, kept when the session is rejudged */
+  judgingHistory?: JudgingRound[];
+}
+
+/**
+ * A snapshot of a session's judging state, archived before a rejudge replaces it
+ */
+export interface JudgingRound {
+  judgeModels: ModelConfig[];
+  rubric: Rubric;
+  judgments: JudgmentResult[];
+  judgeFailures: JudgeFailure[];
+  results: AggregatedResult[];
+  winner: AggregatedResult | null;
+  verdict?: WinnerVerdict;
+  usage: UsageReport;
+  /** When this round was superseded by a rejudge */
+  supersededAt: Date;
 }
 
 // =============================================================================
@@ -163,10 +791,14 @@ export interface FlywheelIteration {
   judgments: JudgmentResult[];
   /** Any judge failures encountered for this iteration. */
   judgeFailures: JudgeFailure[];
-  /** Weighted overall score computed locally from criterion scores + CRITERIA_WEIGHTS. */
+  /** Weighted overall score computed locally from criterion scores + rubric weights. */
   averageScore: number;
   /** Average of judge-reported overallScore values (diagnostic). */
   averageScoreJudgeReported?: number;
+  /** Within- and between-judge variance (judges sampled more than once) */
+  noise?: JudgeNoise;
+  /** Median count of unsupported claims per judgment (absent unless the claim check was on) */
+  unsupportedClaims?: number;
 }
 
 /**
@@ -179,6 +811,24 @@ export interface FlywheelSession {
   originalPost: string;
   /** The model used for writing/refining */
   writerModel: ModelConfig;
+  /** The models used for judging (including sampling settings) */
+  judgeModels: ModelConfig[];
+  /** Rubric the iterations were judged against */
+  rubric: Rubric;
+  /** Times each judge scored each iteration */
+  judgeSamples: number;
+  /** How judgments were combined into iteration scores */
+  aggregation: AggregationSettings;
+  /** Whether the style linter judged each iteration alongside the panel */
+  lint?: boolean;
+  /** Whether fixable AP Style violations were rewritten before each iteration was judged */
+  apStyleFix?: boolean;
+  /** Hard readability limits; iterations that break one cannot be the best iteration or meet the threshold */
+  limits?: ReadabilityLimits;
+  /** Whether judges also listed each iteration's factual claims */
+  claims?: boolean;
+  /** Reference documents the writer and judges were given; absent when none were given */
+  references?: ReferenceDocument[];
   /** All iterations of refinement */
   iterations: FlywheelIteration[];
   /** The final refined post (by configured policy) or null if process failed */
@@ -189,6 +839,8 @@ export interface FlywheelSession {
   bestScore: number;
   /** Iteration number (1-based) of best score */
   bestIteration: number;
-  /** Reason the flywheel stopped */
-  stoppedReason: 'threshold' | 'max_iterations' | 'no_improvement';
+  /** Reason the flywheel stopped ("interrupted" when cancelled with Ctrl-C) */
+  stoppedReason: 'threshold' | 'max_iterations' | 'no_improvement' | 'interrupted';
+  /** Token usage and estimated cost across all refine and judge calls */
+  usage: UsageReport;
 }
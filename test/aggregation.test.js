@@ -0,0 +1,66 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseJudgmentObject, aggregateResults, computeOverallFromJudgments } from '../dist/core/judge.js';
+import { resolveAggregation, resolveJudgeWeights } from '../dist/cli/aggregation.js';
+import { getJudgeWeights } from '../dist/config/env.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const judges = [
+  { provider: 'openrouter', modelId: 'openai/gpt-5.2', friendlyName: 'GPT-5.2' },
+  { provider: 'openrouter', modelId: 'moonshotai/kimi-k2', friendlyName: 'Kimi K2' },
+  { provider: 'anthropic', modelId: 'claude-opus-4-5', friendlyName: 'Claude Opus 4.5' },
+];
+const post = { contestantId: 'p', modelId: 'm/p', friendlyName: 'Post', content: 'x', generatedAt: new Date() };
+
+const judgments = [60, 70, 95].map((score, i) => {
+  const scores = DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score, feedback: 'ok' }));
+  return parseJudgmentObject({ scores, overallScore: score }, judges[i], post.modelId, post.contestantId);
+});
+
+function overall(aggregation) {
+  return aggregateResults([post], judgments, DEFAULT_RUBRIC, { sampleStatistic: 'mean', ...aggregation })[0]
+    .overallAverage;
+}
+
+test('aggregation strategies combine judges differently', () => {
+  assert.equal(overall({ strategy: 'mean' }), 75);
+  assert.equal(overall({ strategy: 'median' }), 70);
+  assert.equal(overall({ strategy: 'trimmed' }), 70);
+  assert.equal(overall({ strategy: 'weighted', judgeWeights: { 'GPT-5.2': 2 } }), 71.25);
+
+  // computeOverallFromJudgments (the flywheel's averageScore) follows the same strategy
+  assert.equal(
+    computeOverallFromJudgments(judgments, DEFAULT_RUBRIC, { strategy: 'median', sampleStatistic: 'mean' }),
+    70
+  );
+});
+
+test('trimmed mean falls back to the mean with fewer than three judges', () => {
+  const two = aggregateResults([post], judgments.slice(0, 2), DEFAULT_RUBRIC, {
+    strategy: 'trimmed',
+    sampleStatistic: 'mean',
+  });
+  assert.equal(two[0].overallAverage, 65);
+});
+
+test('judge weights match friendly names, model IDs or provider:model-id', () => {
+  const weights = resolveJudgeWeights(judges, { 'gpt-5.2': 2, 'moonshotai/kimi-k2': 0.5, 'anthropic:claude-opus-4-5': 3 });
+  assert.deepEqual(weights, { 'GPT-5.2': 2, 'Kimi K2': 0.5, 'Claude Opus 4.5': 3 });
+  assert.deepEqual(resolveJudgeWeights(judges, {}), { 'GPT-5.2': 1, 'Kimi K2': 1, 'Claude Opus 4.5': 1 });
+});
+
+test('aggregation options and WRITEOFF_JUDGE_WEIGHTS are validated', () => {
+  assert.throws(() => resolveAggregation({ aggregation: 'mode' }, judges, DEFAULT_RUBRIC), /--aggregation/);
+  assert.deepEqual(resolveAggregation({ aggregation: 'Median' }, judges, DEFAULT_RUBRIC), { strategy: 'median', sampleStatistic: 'mean' });
+
+  process.env.WRITEOFF_JUDGE_WEIGHTS = 'GPT-5.2=2, openai-compatible:judge=0.5';
+  try {
+    assert.deepEqual(getJudgeWeights(), { 'GPT-5.2': 2, 'openai-compatible:judge': 0.5 });
+    assert.equal(resolveAggregation({ aggregation: 'weighted' }, judges, DEFAULT_RUBRIC).judgeWeights['GPT-5.2'], 2);
+    process.env.WRITEOFF_JUDGE_WEIGHTS = 'GPT-5.2=-1';
+    assert.throws(() => getJudgeWeights(), /WRITEOFF_JUDGE_WEIGHTS/);
+  } finally {
+    delete process.env.WRITEOFF_JUDGE_WEIGHTS;
+  }
+});
@@ -0,0 +1,84 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { checkApStyle, fixApStyle, applyApStyle, describeApStyle } from '../dist/core/ap-style.js';
+
+const text = [
+  '# 3 Lessons',
+  '',
+  'We tried apples, oranges, and bananas over 3 weeks in Miami, FL.',
+  'Revenue grew 5 percent on March 3rd, and over 200 teams signed up.',
+  'Python 3 is fine. Step 2 was hard. My son is 5 years old.',
+  '1. First item',
+  'She ran 5 miles in 4 or 5 days at 9 a.m. It cost $5 and `3 items`.',
+].join('\n');
+
+test('checkApStyle reports each house rule with its position', () => {
+  const violations = checkApStyle(text);
+  assert.deepEqual(
+    violations.map((v) => [v.rule, v.line, v.text, v.replacement]),
+    [
+      ['number', 1, '3', 'Three'],
+      ['oxford-comma', 3, ',', undefined],
+      ['more-than', 3, 'over', undefined],
+      ['number', 3, '3', 'three'],
+      ['state', 3, 'FL.', 'Fla.'],
+      ['percent', 4, '5 percent', '5%'],
+      ['ordinal-date', 4, 'March 3rd', 'March 3'],
+      ['more-than', 4, 'over', 'more than'],
+    ]
+  );
+  for (const v of violations) {
+    assert.equal(text.slice(v.start, v.end), v.text);
+  }
+});
+
+test('fixApStyle rewrites only the violations with a single fix', () => {
+  const { content, fixed } = fixApStyle(text);
+  assert.equal(fixed, 6);
+  assert.equal(
+    content.split('\n').slice(0, 4).join('\n'),
+    [
+      '# Three Lessons',
+      '',
+      'We tried apples, oranges, and bananas over three weeks in Miami, Fla.',
+      'Revenue grew 5% on March 3, and more than 200 teams signed up.',
+    ].join('\n')
+  );
+  assert.equal(checkApStyle(content).filter((v) => v.replacement !== undefined).length, 0);
+});
+
+test('applyApStyle reports the post as written and fixes it on request', () => {
+  const post = { contestantId: 'p1', modelId: 'm', friendlyName: 'Post', content: text, generatedAt: new Date() };
+
+  const checked = applyApStyle(post);
+  assert.equal(checked.content, text);
+  assert.deepEqual(checked.apStyle, {
+    total: 8,
+    byRule: { number: 2, 'oxford-comma': 1, 'more-than': 2, state: 1, percent: 1, 'ordinal-date': 1 },
+    fixed: 0,
+  });
+
+  const fixed = applyApStyle(post, true);
+  assert.notEqual(fixed.content, text);
+  assert.equal(fixed.apStyle.total, 8);
+  assert.equal(fixed.apStyle.fixed, 6);
+  assert.equal(
+    describeApStyle(fixed.apStyle),
+    '8 violations (6 fixed): oxford-comma 1, number 2, percent 1, more-than 2, ordinal-date 1, state 1'
+  );
+  assert.equal(describeApStyle(applyApStyle({ ...post, content: 'Clean copy.' }).apStyle), 'no violations');
+});
+
+test('the Oxford comma rule skips interjections, asides and speech tags', () => {
+  for (const line of [
+    'He said, well, maybe, and left.',
+    'She paused, oh, yes, and nodded.',
+    'It works, I think, and ships today.',
+    'Then, however, or so we thought, it broke.',
+  ]) {
+    assert.deepEqual(checkApStyle(line).filter((v) => v.rule === 'oxford-comma'), [], line);
+    assert.equal(fixApStyle(line).content, line);
+  }
+  assert.equal(checkApStyle('Bring pens, paper clips, and tape.').filter((v) => v.rule === 'oxford-comma').length, 1);
+});
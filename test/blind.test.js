@@ -0,0 +1,109 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  redactSelfIdentification,
+  normalizeFormatting,
+  blindPosts,
+  blindJudgePairs,
+  unblindJudgment,
+  unblindPairwiseJudgment,
+} from '../dist/core/blind.js';
+
+const writerA = { provider: 'openrouter', modelId: 'openai/gpt-5.2', friendlyName: 'GPT 5.2', contestantId: 'gpt-5-2' };
+const writerB = {
+  provider: 'openrouter',
+  modelId: 'anthropic/claude-opus-4.5',
+  friendlyName: 'Claude Opus 4.5',
+  contestantId: 'claude-opus-4-5',
+};
+const judge1 = { provider: 'openrouter', modelId: 'j/one', friendlyName: 'Judge One' };
+const judge2 = { provider: 'openrouter', modelId: 'j/two', friendlyName: 'Judge Two' };
+
+function post(model, content) {
+  return { contestantId: model.contestantId, modelId: model.modelId, friendlyName: model.friendlyName, content, generatedAt: new Date() };
+}
+
+test('redactSelfIdentification strips sign-offs, AI self-references and the own model name', () => {
+  const content = [
+    '# Remote work',
+    '',
+    'Teams shipped faster. As an AI language model, I cannot attend standups. Still, the data is clear.',
+    'Some say GPT-5.2 wrote the best summary of this.',
+    'We moved our docs to Google Drive.',
+    '',
+    '*Written by ChatGPT*',
+    '— GPT 5.2',
+  ].join('\n');
+
+  const { content: cleaned, redactions } = redactSelfIdentification(post(writerA, content));
+  assert.ok(!/as an AI/i.test(cleaned));
+  assert.ok(!/GPT[- ]?5\.2/i.test(cleaned));
+  assert.ok(!/Written by/.test(cleaned));
+  assert.match(cleaned, /Still, the data is clear\./);
+  assert.match(cleaned, /Google Drive/);
+  assert.match(cleaned, /Some say \[redacted\] wrote/);
+  assert.equal(redactions.length, 4);
+});
+
+test('normalizeFormatting unifies markdown habits outside code fences', () => {
+  const content = '* one\n+ two\n\n\n\n__bold__ text   \n* * *\n```\n* keep\n```\n';
+  assert.equal(normalizeFormatting(content), '- one\n- two\n\n**bold** text\n---\n```\n* keep\n```\n');
+});
+
+test('blinded posts keep their formatting unless normalizing is asked for', () => {
+  const posts = [post(writerA, '* one\n__two__'), post(writerB, 'Post B')];
+  const kept = blindPosts([writerA, writerB], posts, [judge1], 'absolute', 7);
+  assert.equal(kept.posts.get(writerA.contestantId).content, '* one\n__two__');
+  assert.equal(kept.record.normalizedFormatting, undefined);
+
+  const normalized = blindPosts([writerA, writerB], posts, [judge1], 'absolute', 7, true);
+  assert.equal(normalized.posts.get(writerA.contestantId).content, '- one\n**two**\n');
+  assert.equal(normalized.record.normalizedFormatting, true);
+  assert.deepEqual(normalized.record.labels, kept.record.labels);
+});
+
+test('blinding is reproducible from the seed and maps results back to contestants', () => {
+  const posts = [post(writerA, 'Post A'), post(writerB, 'Post B')];
+  const first = blindPosts([writerA, writerB], posts, [judge1, judge2], 'absolute', 42);
+  const again = blindPosts([writerA, writerB], posts, [judge1, judge2], 'absolute', 42);
+  assert.deepEqual(first.record, again.record);
+
+  const labels = first.record.labels.map((l) => l.label);
+  assert.equal(new Set(labels).size, 2);
+  for (const label of labels) assert.match(label, /^contestant-[a-z2-9]{4}$/);
+  assert.deepEqual([...first.record.judgeOrder['Judge One']].sort(), [...labels].sort());
+
+  const pairs = posts.flatMap((p) => [judge1, judge2].map((judge) => ({ judge, post: p })));
+  const blinded = blindJudgePairs(pairs, first);
+  for (const { post: blindPost } of blinded) {
+    assert.ok(labels.includes(blindPost.contestantId));
+    assert.equal(blindPost.friendlyName, blindPost.contestantId);
+  }
+  const judgeOneOrder = blinded.filter((p) => p.judge === judge1).map((p) => p.post.contestantId);
+  assert.deepEqual(judgeOneOrder, first.record.judgeOrder['Judge One']);
+
+  const judgment = unblindJudgment(
+    { judgeModelId: 'j/one', judgeFriendlyName: 'Judge One', postModelId: labels[1], postContestantId: labels[1], scores: [], overallScore: 50, overallScoreComputed: 50, judgedAt: new Date() },
+    first.record
+  );
+  assert.equal(judgment.postContestantId, 'claude-opus-4-5');
+  assert.equal(judgment.postModelId, 'anthropic/claude-opus-4.5');
+
+  const comparison = unblindPairwiseJudgment(
+    {
+      judgeModelId: 'j/one',
+      judgeFriendlyName: 'Judge One',
+      firstContestantId: labels[0],
+      secondContestantId: labels[1],
+      preferences: [
+        { criterion: 'narrative', winner: labels[1], feedback: '' },
+        { criterion: 'structure', winner: 'tie', feedback: '' },
+      ],
+      judgedAt: new Date(),
+    },
+    first.record
+  );
+  assert.equal(comparison.firstContestantId, 'gpt-5-2');
+  assert.deepEqual(comparison.preferences.map((p) => p.winner), ['claude-opus-4-5', 'tie']);
+});
@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseJudgmentObject, aggregateResults } from '../dist/core/judge.js';
+import { rankPairwise } from '../dist/core/pairwise.js';
+import { rankQualified } from '../dist/core/readability.js';
+import { bootstrapAbsolute, bootstrapPairwise } from '../dist/core/bootstrap.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const judges = [1, 2, 3].map((i) => ({ provider: 'openrouter', modelId: `j/${i}`, friendlyName: `Judge ${i}` }));
+const posts = ['a', 'b', 'c'].map((id) => ({
+  contestantId: id,
+  modelId: `m/${id}`,
+  friendlyName: `Post ${id.toUpperCase()}`,
+  content: 'x',
+  generatedAt: new Date(),
+}));
+
+function judgeAll(scoresByPost) {
+  return posts.flatMap((post) =>
+    judges.map((judge, i) => {
+      const score = scoresByPost[post.contestantId][i];
+      const scores = DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score, feedback: 'ok' }));
+      return parseJudgmentObject({ scores, overallScore: score }, judge, post.modelId, post.contestantId);
+    })
+  );
+}
+
+test('bootstrapAbsolute declares a tie when the leader rarely beats the runner-up', () => {
+  const judgments = judgeAll({ a: [80, 70, 75], b: [78, 72, 74], c: [50, 55, 52] });
+  const { results, verdict } = bootstrapAbsolute(aggregateResults(posts, judgments), judgments, DEFAULT_RUBRIC, {
+    iterations: 500,
+  });
+
+  for (const result of results) {
+    assert.ok(result.confidence.lower <= result.overallAverage && result.overallAverage <= result.confidence.upper);
+  }
+  assert.equal(verdict.leaderContestantId, 'a');
+  assert.deepEqual(verdict.tiedWith, ['b']);
+  assert.equal(verdict.statisticalTie, true);
+  assert.ok(verdict.comparisons[0].probability < 0.95);
+  assert.equal(verdict.comparisons[1].probability, 1);
+});
+
+test('a disqualified runner-up is never tied with the leader', () => {
+  const judgments = judgeAll({ a: [80, 70, 75], b: [78, 72, 74], c: [50, 55, 52] });
+  const marked = posts.map((p) => (p.contestantId === 'b' ? { ...p, disqualified: 'over the limit' } : p));
+  const { verdict } = bootstrapAbsolute(rankQualified(aggregateResults(posts, judgments), marked), judgments, DEFAULT_RUBRIC, {
+    iterations: 500,
+  });
+
+  assert.ok(verdict.comparisons.find((c) => c.postContestantId === 'b').probability < 0.95);
+  assert.deepEqual(verdict.tiedWith, []);
+  assert.equal(verdict.statisticalTie, false);
+});
+
+test('bootstrapAbsolute finds a clear winner and is reproducible', () => {
+  const judgments = judgeAll({ a: [90, 85, 88], b: [60, 65, 62], c: [50, 55, 52] });
+  const ranked = aggregateResults(posts, judgments);
+  const first = bootstrapAbsolute(ranked, judgments, DEFAULT_RUBRIC, { iterations: 200 });
+  const second = bootstrapAbsolute(ranked, judgments, DEFAULT_RUBRIC, { iterations: 200 });
+
+  assert.equal(first.verdict.statisticalTie, false);
+  assert.deepEqual(first.verdict.tiedWith, []);
+  assert.deepEqual(first, second);
+});
+
+test('bootstrapping needs at least two judges', () => {
+  const judgments = judgeAll({ a: [90, 85, 88], b: [60, 65, 62], c: [50, 55, 52] }).filter(
+    (j) => j.judgeFriendlyName === 'Judge 1'
+  );
+  const ranked = aggregateResults(posts, judgments);
+  const { results, verdict } = bootstrapAbsolute(ranked, judgments);
+  assert.equal(verdict, undefined);
+  assert.equal(results[0].confidence, undefined);
+});
+
+test('bootstrapPairwise refits Bradley-Terry per resample', () => {
+  const prefs = (winner) => DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, winner, feedback: '' }));
+  const judgments = judges.flatMap((judge) =>
+    [
+      ['a', 'b', 'a'],
+      ['b', 'a', 'a'],
+      ['a', 'c', 'a'],
+      ['c', 'a', 'a'],
+      ['b', 'c', 'b'],
+      ['c', 'b', 'b'],
+    ].map(([first, second, winner]) => ({
+      judgeModelId: judge.modelId,
+      judgeFriendlyName: judge.friendlyName,
+      firstContestantId: first,
+      secondContestantId: second,
+      preferences: prefs(winner),
+      judgedAt: new Date(),
+    }))
+  );
+
+  const ranked = rankPairwise(posts, judgments, DEFAULT_RUBRIC);
+  const { results, verdict } = bootstrapPairwise(ranked, posts, judgments, DEFAULT_RUBRIC, { iterations: 100 });
+  assert.equal(verdict.leaderContestantId, 'a');
+  assert.equal(verdict.statisticalTie, false);
+  assert.ok(results.every((r) => r.confidence));
+});
@@ -0,0 +1,33 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { readCachedResponse, writeCachedResponse, responseCacheKey } from '../dist/providers/cache.js';
+
+const model = { provider: 'openrouter', modelId: 'openai/gpt-x', friendlyName: 'GPT X' };
+
+test('response cache round-trips entries and honors the TTL', async () => {
+  process.env.WRITEOFF_CACHE_DIR = await mkdtemp(path.join(tmpdir(), 'writeoff-cache-'));
+  try {
+    const key = responseCacheKey(model, 'text', 'system', 'prompt', { maxTokens: 8000 });
+    assert.notEqual(key, responseCacheKey(model, 'text', 'system', 'prompt', { maxTokens: 100 }));
+
+    assert.equal(await readCachedResponse(key), null);
+    await writeCachedResponse(key, model, { text: 'hello' });
+    assert.deepEqual(await readCachedResponse(key), { text: 'hello' });
+
+    process.env.WRITEOFF_CACHE_TTL_HOURS = '1';
+    const realNow = Date.now;
+    Date.now = () => realNow() + 2 * 60 * 60 * 1000;
+    try {
+      assert.equal(await readCachedResponse(key), null);
+    } finally {
+      Date.now = realNow;
+    }
+  } finally {
+    delete process.env.WRITEOFF_CACHE_DIR;
+    delete process.env.WRITEOFF_CACHE_TTL_HOURS;
+  }
+});
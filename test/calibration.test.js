@@ -0,0 +1,128 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { parseJudgmentObject, aggregateResults, computeOverallFromJudgments } from '../dist/core/judge.js';
+import { fitCorrection, fitCalibration, findJudgeCalibration, calibrateScores } from '../dist/core/calibration.js';
+import {
+  loadAnchorsFile,
+  loadCalibrationFile,
+  nextCalibrationVersion,
+  saveCalibrationFile,
+} from '../dist/config/calibration.js';
+import { resolveAggregation } from '../dist/cli/aggregation.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const harsh = { provider: 'openrouter', modelId: 'openai/gpt-5.2', friendlyName: 'GPT-5.2' };
+const lenient = { provider: 'openrouter', modelId: 'moonshotai/kimi-k2', friendlyName: 'Kimi K2' };
+
+function judgment(judge, contestantId, score) {
+  const scores = DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score, feedback: 'ok' }));
+  return parseJudgmentObject({ scores, overallScore: score }, judge, 'm/x', contestantId);
+}
+
+const referenceScores = (score) => Object.fromEntries(DEFAULT_RUBRIC.criteria.map((c) => [c.key, score]));
+const anchors = [
+  { id: 'weak', content: 'w', scores: referenceScores(20) },
+  { id: 'mid', content: 'm', scores: referenceScores(50) },
+  { id: 'strong', content: 's', scores: referenceScores(80) },
+];
+
+test('fitCorrection fits a line and falls back to an offset when the fit is not trustworthy', () => {
+  const line = fitCorrection([
+    { raw: 40, reference: 20 },
+    { raw: 55, reference: 50 },
+    { raw: 70, reference: 80 },
+  ]);
+  assert.ok(Math.abs(line.slope - 2) < 1e-9);
+  assert.ok(Math.abs(line.intercept + 60) < 1e-9);
+  assert.equal(line.anchors, 3);
+
+  assert.deepEqual(fitCorrection([{ raw: 60, reference: 50 }]), { slope: 1, intercept: -10, anchors: 1 });
+  // No spread in raw scores
+  assert.deepEqual(
+    fitCorrection([
+      { raw: 70, reference: 20 },
+      { raw: 70, reference: 80 },
+    ]),
+    { slope: 1, intercept: -20, anchors: 2 }
+  );
+  // Raw scores running against the reference
+  assert.equal(
+    fitCorrection([
+      { raw: 80, reference: 20 },
+      { raw: 20, reference: 80 },
+    ]).slope,
+    1
+  );
+});
+
+test('calibrated judges agree once their bias is removed', () => {
+  // The harsh judge compresses the scale; the lenient judge adds 15 points
+  const anchorJudgments = [
+    ...[40, 55, 70].map((s, i) => judgment(harsh, anchors[i].id, s)),
+    ...[35, 65, 95].map((s, i) => judgment(lenient, anchors[i].id, s)),
+  ];
+  const calibration = fitCalibration([harsh, lenient], anchors, anchorJudgments, DEFAULT_RUBRIC, 3);
+  assert.equal(calibration.version, 3);
+  assert.equal(calibration.rubric, 'blog');
+  assert.deepEqual(calibration.anchors, ['weak', 'mid', 'strong']);
+
+  const lenientCalibration = findJudgeCalibration(calibration, 'moonshotai/kimi-k2');
+  assert.ok(Math.abs(lenientCalibration.criteria.narrative.intercept + 15) < 1e-9);
+  // Sampling settings are part of a judge's identity
+  assert.equal(findJudgeCalibration(calibration, 'moonshotai/kimi-k2', { temperature: 0 }), undefined);
+  assert.equal(calibrateScores([{ criterion: 'narrative', score: 110, feedback: '' }], lenientCalibration)[0].score, 95);
+
+  const post = { contestantId: 'p', modelId: 'm/p', friendlyName: 'Post', content: 'x', generatedAt: new Date() };
+  const judgments = [judgment(harsh, 'p', 60), judgment(lenient, 'p', 80)];
+  const aggregation = { strategy: 'mean', sampleStatistic: 'mean', calibration };
+
+  assert.equal(aggregateResults([post], judgments, DEFAULT_RUBRIC)[0].overallAverage, 70);
+  const [result] = aggregateResults([post], judgments, DEFAULT_RUBRIC, aggregation);
+  assert.ok(Math.abs(result.overallAverage - 62.5) < 1e-9);
+  assert.ok(Math.abs(result.agreement.overall.stdDev - Math.SQRT1_2 * 5) < 1e-9);
+  assert.ok(Math.abs(computeOverallFromJudgments(judgments, DEFAULT_RUBRIC, aggregation) - 62.5) < 1e-9);
+  // Stored judgments keep the raw scores
+  assert.equal(result.judgments[0].overallScoreComputed, 60);
+});
+
+test('anchor and calibration files are validated, versioned and checked against the rubric', async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'writeoff-calibration-'));
+  writeFileSync(path.join(dir, 'a.md'), '# Anchor\n');
+  const anchorsFile = path.join(dir, 'anchors.json');
+  writeFileSync(anchorsFile, JSON.stringify({ anchors: [{ id: 'a', file: 'a.md', scores: { narrative: 40 } }] }));
+  assert.deepEqual(loadAnchorsFile(anchorsFile, DEFAULT_RUBRIC), [
+    { id: 'a', content: '# Anchor\n', scores: { narrative: 40 } },
+  ]);
+
+  writeFileSync(anchorsFile, JSON.stringify({ anchors: [{ id: 'a', content: 'x', scores: { voice: 40 } }] }));
+  assert.throws(() => loadAnchorsFile(anchorsFile, DEFAULT_RUBRIC), /"voice" is not a criterion/);
+  writeFileSync(anchorsFile, JSON.stringify({ anchors: [{ id: 'a', content: 'x', scores: { narrative: 0 } }] }));
+  assert.throws(() => loadAnchorsFile(anchorsFile, DEFAULT_RUBRIC), /between 1 and 100/);
+
+  const calibrationFile = path.join(dir, 'calibration.json');
+  assert.equal(nextCalibrationVersion(calibrationFile), 1);
+  const calibration = fitCalibration([harsh], anchors, [judgment(harsh, 'mid', 60)], DEFAULT_RUBRIC, 1);
+  await saveCalibrationFile(calibrationFile, calibration);
+  assert.equal(nextCalibrationVersion(calibrationFile), 2);
+
+  const loaded = loadCalibrationFile(calibrationFile);
+  assert.equal(loaded.file, calibrationFile);
+  assert.deepEqual(loaded.judges, calibration.judges);
+
+  const settings = resolveAggregation({ calibration: calibrationFile }, [harsh], DEFAULT_RUBRIC);
+  assert.equal(settings.calibration.version, 1);
+  assert.throws(
+    () => resolveAggregation({ calibration: calibrationFile }, [harsh], { ...DEFAULT_RUBRIC, name: 'docs' }),
+    /fitted for the "blog" rubric/
+  );
+
+  const flat = { modelId: 'x', friendlyName: 'X', criteria: { narrative: { slope: 0, intercept: 0, anchors: 1 } } };
+  writeFileSync(calibrationFile, JSON.stringify({ version: 1, rubric: 'blog', anchors: [], judges: [flat] }));
+  assert.throws(() => loadCalibrationFile(calibrationFile), /"slope" must be a positive number/);
+  // An invalid file is never silently overwritten
+  assert.throws(() => nextCalibrationVersion(calibrationFile), /"slope"/);
+});
@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { cassetteKey } from '../dist/providers/cassette.js';
+import { generate } from '../dist/providers/ai.js';
+
+const model = { provider: 'openrouter', modelId: 'openai/gpt-x', friendlyName: 'GPT X' };
+
+test('replay mode serves recorded responses and fails on misses', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'writeoff-cassette-'));
+  const file = path.join(dir, 'cassette.json');
+
+  const key = cassetteKey(model, 'text', 'system', 'hello');
+  await writeFile(
+    file,
+    JSON.stringify({
+      version: 1,
+      entries: {
+        [key]: {
+          model: 'openrouter:openai/gpt-x',
+          kind: 'text',
+          system: 'system',
+          prompt: 'hello',
+          response: {
+            text: 'recorded reply',
+            usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15, latencyMs: 120 },
+          },
+          recordedAt: new Date().toISOString(),
+        },
+      },
+    })
+  );
+
+  process.env.WRITEOFF_CASSETTE_MODE = 'replay';
+  process.env.WRITEOFF_CASSETTE_FILE = file;
+  try {
+    const replayed = await generate(model, 'system', 'hello');
+    assert.equal(replayed.text, 'recorded reply');
+    assert.equal(replayed.usage.totalTokens, 15);
+    await assert.rejects(() => generate(model, 'system', 'other prompt'), /cassette miss/i);
+  } finally {
+    delete process.env.WRITEOFF_CASSETTE_MODE;
+    delete process.env.WRITEOFF_CASSETTE_FILE;
+  }
+});
@@ -0,0 +1,101 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseJudgmentResponse, parseJudgmentObject } from '../dist/core/judge.js';
+import { getJudgeOutputSchema } from '../dist/prompts/judge.js';
+import { locateQuote, verifyCitations, relocateCitations } from '../dist/core/citations.js';
+import { formatFeedbackForWriter } from '../dist/core/flywheel.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const judgeModel = { provider: 'openrouter', modelId: 'openai/gpt-x', friendlyName: 'Judge' };
+const post = '# Title\n\nWe shipped it on a **Friday**.\nIt’s not a bug — it’s a feature.\n';
+
+function response(citations) {
+  return JSON.stringify({
+    scores: DEFAULT_RUBRIC.criteria.map((c) => ({
+      criterion: c.key,
+      score: 70,
+      feedback: 'ok',
+      ...(c.key === 'aiDetection' ? { citations } : {}),
+    })),
+    overallScore: 70,
+  });
+}
+
+test('locateQuote matches exactly, then ignoring typography, whitespace, emphasis and elisions', () => {
+  assert.deepEqual(locateQuote(post, 'shipped it'), { start: 12, end: 22 });
+
+  const folded = locateQuote(post, "It's not a bug - it's a feature.");
+  assert.equal(post.slice(folded.start, folded.end), 'It’s not a bug — it’s a feature.');
+
+  const emphasis = locateQuote(post, 'on a Friday.');
+  assert.equal(post.slice(emphasis.start, emphasis.end), 'on a **Friday**.');
+
+  const elided = locateQuote(post, 'We shipped ... a feature');
+  assert.equal(post.slice(elided.start, elided.end), 'We shipped it on a **Friday**.\nIt’s not a bug — it’s a feature');
+
+  assert.equal(locateQuote(post, 'We shipped it on a Monday'), undefined);
+  assert.equal(locateQuote(post, '   '), undefined);
+});
+
+test('parseJudgmentResponse verifies quotes against the post and flags invented ones', () => {
+  const citations = [
+    { quote: 'It’s not a bug — it’s a feature.', issue: 'Reversal cliché', fix: 'Say what the feature does' },
+    { quote: 'Every founder knows', issue: 'False universality', fix: '' },
+  ];
+  const judgment = parseJudgmentResponse(response(citations), judgeModel, 'p', 'p', DEFAULT_RUBRIC, post);
+  const [found, invented] = judgment.scores.find((s) => s.criterion === 'aiDetection').citations;
+
+  assert.equal(found.verified, true);
+  assert.equal(post.slice(found.start, found.end), citations[0].quote);
+  assert.equal(invented.verified, false);
+  assert.equal(invented.start, undefined);
+  assert.ok(judgment.parseWarnings.some((w) => w.includes('Quote not found in post (aiDetection)')));
+
+  // Without the post the quotes are left unchecked
+  const unchecked = parseJudgmentResponse(response(citations), judgeModel, 'p', 'p', DEFAULT_RUBRIC);
+  assert.equal(unchecked.scores.find((s) => s.criterion === 'aiDetection').citations[0].verified, undefined);
+
+  assert.throws(
+    () => parseJudgmentResponse(response([{ quote: '', issue: 'x', fix: 'y' }]), judgeModel, 'p'),
+    /non-empty "quote"/
+  );
+});
+
+test('the drop policy removes quotes that are not in the post', () => {
+  const scores = [
+    { criterion: 'narrative', score: 70, feedback: 'ok', citations: [{ quote: 'not there', issue: 'x', fix: 'y' }] },
+  ];
+  const { scores: dropped, warnings } = verifyCitations(scores, post, 'drop');
+  assert.deepEqual(dropped[0].citations, []);
+  assert.match(warnings[0], /dropped/);
+});
+
+test('citations are re-anchored to the post as written and passed to the writer with line numbers', () => {
+  const blinded = 'It’s not a bug — it’s a feature.\n';
+  const judgment = parseJudgmentResponse(
+    response([{ quote: 'not a bug', issue: 'Reversal', fix: 'Drop it' }]),
+    judgeModel,
+    'p',
+    'p',
+    DEFAULT_RUBRIC,
+    blinded
+  );
+  const relocated = relocateCitations(judgment, post);
+  const citation = relocated.scores.find((s) => s.criterion === 'aiDetection').citations[0];
+  assert.equal(post.slice(citation.start, citation.end), 'not a bug');
+
+  const feedback = formatFeedbackForWriter([relocated], DEFAULT_RUBRIC, undefined, post);
+  assert.match(feedback, /Cited passages:\n- Line 4, "not a bug": Reversal Fix: Drop it/);
+});
+
+test('citations are optional in the output schema and in validation alike', () => {
+  const score = getJudgeOutputSchema(DEFAULT_RUBRIC).properties.scores.items;
+  assert.deepEqual(score.required, ['criterion', 'score', 'feedback']);
+  assert.equal(score.properties.citations.type, 'array');
+
+  const scores = DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score: 70, feedback: 'ok' }));
+  const judgment = parseJudgmentObject({ scores, overallScore: 70 }, judgeModel, 'p', 'p', DEFAULT_RUBRIC, post);
+  assert.ok(judgment.scores.every((s) => s.citations === undefined));
+  assert.deepEqual(judgment.parseWarnings ?? [], []);
+});
@@ -0,0 +1,115 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseJudgmentResponse, aggregateResults, countUnsupportedClaims } from '../dist/core/judge.js';
+import { formatClaimsForWriter, relocateClaims, describeClaims } from '../dist/core/claims.js';
+import { getJudgePrompt, getJudgeOutputSchema } from '../dist/prompts/judge.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const judgeModel = { provider: 'openrouter', modelId: 'openai/gpt-x', friendlyName: 'Judge' };
+
+const content = [
+  '# Launch',
+  '',
+  'Scout grew 40% in March, according to the Q1 report.',
+  'Support tickets fell by roughly half.',
+  'Imagine a team of 12 that ships daily.',
+  'The redesign caused churn to drop.',
+].join('\n');
+
+const post = { contestantId: 'p1', modelId: 'm', friendlyName: 'Post', content, generatedAt: new Date() };
+
+function response(claims) {
+  return JSON.stringify({
+    scores: DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score: 70, feedback: 'ok' })),
+    overallScore: 70,
+    claims,
+  });
+}
+
+const claims = [
+  { quote: 'Scout grew 40% in March', kind: 'number', status: 'sourced', note: 'Q1 report' },
+  { quote: 'fell by roughly half', kind: 'Number', status: 'Hedged', note: 'estimate' },
+  { quote: 'a team of 12', kind: 'number', status: 'hypothetical', note: 'labeled' },
+  { quote: 'The redesign caused churn to drop.', kind: 'causal', status: 'unsupported', note: 'no data' },
+  { quote: 'Revenue doubled', kind: 'number', status: 'unsupported', note: 'no source' },
+];
+
+test('judges list claims, normalized and verified against the post', () => {
+  const judgment = parseJudgmentResponse(response(claims), judgeModel, 'm', 'p1', DEFAULT_RUBRIC, content);
+  assert.deepEqual(
+    judgment.claims.map((c) => [c.kind, c.status, c.verified]),
+    [
+      ['number', 'sourced', true],
+      ['number', 'hedged', true],
+      ['number', 'hypothetical', true],
+      ['causal', 'unsupported', true],
+      ['number', 'unsupported', false],
+    ]
+  );
+  for (const claim of judgment.claims.filter((c) => c.verified)) {
+    assert.equal(content.slice(claim.start, claim.end), claim.quote);
+  }
+  assert.ok(judgment.parseWarnings.some((w) => w.startsWith('Claim not found in post (unsupported)')));
+  // The unverified claim is not counted
+  assert.equal(describeClaims(judgment.claims), '1 unsupported (sourced 1, hedged 1, hypothetical 1)');
+
+  assert.equal(parseJudgmentResponse(response(undefined), judgeModel, 'm', 'p1', DEFAULT_RUBRIC, content).claims, undefined);
+  assert.throws(
+    () => parseJudgmentResponse(response([{ ...claims[0], status: 'true' }]), judgeModel, 'm', 'p1', DEFAULT_RUBRIC),
+    /claim "status" must be one of/
+  );
+});
+
+test('the claim check adds claims to the judge prompt and output schema only when on', () => {
+  assert.doesNotMatch(getJudgePrompt(content, DEFAULT_RUBRIC), /CLAIM CHECK/);
+  assert.equal(getJudgeOutputSchema(DEFAULT_RUBRIC).properties.claims, undefined);
+
+  const prompt = getJudgePrompt(content, DEFAULT_RUBRIC, [], true);
+  assert.match(prompt, /- "claims": the factual claims in the post/);
+  assert.match(prompt, /CLAIM CHECK: .*figure.*named entity.*date.*causal statement/);
+  assert.doesNotMatch(prompt, /reference documents/);
+  const schema = getJudgeOutputSchema(DEFAULT_RUBRIC, true);
+  assert.deepEqual(schema.required, ['scores', 'overallScore', 'claims']);
+  assert.deepEqual(schema.properties.claims.items.properties.status.enum, ['sourced', 'hedged', 'hypothetical', 'unsupported']);
+
+  const grounded = getJudgePrompt(content, DEFAULT_RUBRIC, [{ name: 'q1.md', content: 'Growth was 40%.' }], true);
+  assert.match(grounded, /backed by the reference documents/);
+  assert.match(grounded, /A claim the reference documents contradict is "unsupported"/);
+});
+
+test('results carry the median unsupported claim count per judgment', () => {
+  const judge = (name, statuses) =>
+    parseJudgmentResponse(
+      response(statuses.map((status) => ({ quote: 'Scout grew 40%', kind: 'number', status, note: '' }))),
+      { ...judgeModel, friendlyName: name },
+      'm',
+      'p1',
+      DEFAULT_RUBRIC,
+      content
+    );
+  const judgments = [judge('A', ['unsupported']), judge('B', ['unsupported', 'unsupported', 'sourced']), judge('C', [])];
+
+  assert.equal(countUnsupportedClaims(judgments), 1);
+  assert.equal(countUnsupportedClaims(judgments.slice(0, 2)), 1.5);
+  const [result] = aggregateResults([post], judgments, DEFAULT_RUBRIC);
+  assert.equal(result.unsupportedClaims, 1);
+
+  const noClaims = parseJudgmentResponse(response(undefined), judgeModel, 'm', 'p1', DEFAULT_RUBRIC, content);
+  assert.equal(aggregateResults([post], [noClaims], DEFAULT_RUBRIC)[0].unsupportedClaims, undefined);
+});
+
+test('unsupported claims are fed back to the writer once each, with line numbers', () => {
+  const a = parseJudgmentResponse(response(claims), judgeModel, 'm', 'p1', DEFAULT_RUBRIC, content);
+  const b = parseJudgmentResponse(response(claims.slice(3, 4)), judgeModel, 'm', 'p1', DEFAULT_RUBRIC, content);
+
+  const feedback = formatClaimsForWriter([a, b], content);
+  assert.match(feedback, /^\n\n# Unsupported Claims\n/);
+  assert.match(feedback, /- Line 6, "The redesign caused churn to drop\." \(causal, flagged by 2 of 2\): no data\n$/);
+  assert.doesNotMatch(feedback, /Revenue doubled|Scout grew/);
+  assert.equal(formatClaimsForWriter([parseJudgmentResponse(response([]), judgeModel, 'm', 'p1', DEFAULT_RUBRIC, content)]), '');
+
+  // Claims found in an anonymized copy are re-anchored to the post as written
+  const moved = relocateClaims(b, `Intro line.\n${content}`);
+  assert.equal(moved.claims[0].start, b.claims[0].start + 'Intro line.\n'.length);
+});
@@ -0,0 +1,164 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { mkdtemp, readdir, readFile } from 'node:fs/promises';
+import http from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { runFlywheel } from '../dist/core/flywheel.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const cli = fileURLToPath(new URL('../dist/index.js', import.meta.url));
+
+const writer = { provider: 'openai-compatible', modelId: 'writer', friendlyName: 'Writer' };
+const fast = { provider: 'openai-compatible', modelId: 'fast-judge', friendlyName: 'Fast Judge' };
+const slow = { provider: 'openai-compatible', modelId: 'slow-judge', friendlyName: 'Slow Judge' };
+
+// Structured output arrives as a call to the one tool offered
+function reply(content, tools) {
+  if (!tools) return { role: 'assistant', content };
+  const call = { id: 'call-1', type: 'function', function: { name: tools[0].function.name, arguments: content } };
+  return { role: 'assistant', content: null, tool_calls: [call] };
+}
+
+/**
+ * OpenAI-compatible server: writers get a post, the fast judge scores it right away and the
+ * slow judge never answers. `stalled` resolves once the fast judge has answered (with time
+ * for the client to record the judgment) and the slow judge is waiting, which is when the tests
+ * interrupt.
+ */
+async function startServer() {
+  let fastAnswered = 0;
+  let slowWaiting = 0;
+  let stall;
+  const stalled = new Promise((resolve) => (stall = resolve));
+  const check = () => {
+    if (fastAnswered > 0 && slowWaiting > 0) stall();
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { model, messages, tools } = JSON.parse(body);
+      const judging = JSON.stringify(messages).includes('POST TO EVALUATE');
+      if (judging && model === slow.modelId) {
+        slowWaiting++;
+        check();
+        return;
+      }
+      const content = judging
+        ? JSON.stringify({
+            scores: DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score: 70, feedback: 'ok' })),
+            overallScore: 70,
+          })
+        : '# A post\n\nA post about the topic.';
+      res.setHeader('content-type', 'application/json');
+      res.end(
+        JSON.stringify({
+          id: 'x',
+          object: 'chat.completion',
+          created: 0,
+          model,
+          choices: [{ index: 0, message: reply(content, tools), finish_reason: tools ? 'tool_calls' : 'stop' }],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        })
+      );
+      if (judging) {
+        setTimeout(() => {
+          fastAnswered++;
+          check();
+        }, 100);
+      }
+    });
+  });
+
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    stalled,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+test('an interrupted refine keeps finished judgments and does not count cancelled ones as failures', async () => {
+  const server = await startServer();
+  process.env.OPENAI_COMPATIBLE_BASE_URL = server.baseUrl;
+  try {
+    const controller = new AbortController();
+    server.stalled.then(() => controller.abort());
+
+    const session = await runFlywheel({
+      initialPost: '# A post\n\nA post about the topic.',
+      writerModel: writer,
+      judgeModels: [fast, slow],
+      maxIterations: 3,
+      threshold: 100,
+      signal: controller.signal,
+      rubric: DEFAULT_RUBRIC,
+    });
+
+    assert.equal(session.stoppedReason, 'interrupted');
+    assert.equal(session.iterations.length, 1);
+    assert.deepEqual(
+      session.iterations[0].judgments.map((j) => j.judgeFriendlyName),
+      ['Fast Judge']
+    );
+    assert.deepEqual(session.iterations[0].judgeFailures, []);
+    assert.equal(session.finalScore, 70);
+  } finally {
+    delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+    await server.close();
+  }
+});
+
+test('Ctrl-C during generate saves the finished judgments and marks the session interrupted', async () => {
+  const server = await startServer();
+  const dir = await mkdtemp(path.join(tmpdir(), 'writeoff-interrupt-'));
+  try {
+    const child = spawn(
+      process.execPath,
+      [
+        cli,
+        'generate',
+        'A topic',
+        '--writers',
+        `openai-compatible:${writer.modelId}`,
+        '--judges',
+        `openai-compatible:${fast.modelId},openai-compatible:${slow.modelId}`,
+        '--output',
+        dir,
+      ],
+      {
+        cwd: dir,
+        env: { ...process.env, OPENAI_COMPATIBLE_BASE_URL: server.baseUrl, WRITEOFF_CASSETTE_MODE: 'off' },
+        stdio: 'ignore',
+      }
+    );
+    const exited = new Promise((resolve) => child.on('exit', (code) => resolve(code)));
+    const timeout = setTimeout(() => child.kill('SIGKILL'), 30_000);
+
+    await Promise.race([server.stalled, exited]);
+    child.kill('SIGINT');
+    const code = await exited;
+    clearTimeout(timeout);
+    assert.equal(code, 130);
+
+    const [sessionId] = await readdir(dir);
+    const session = JSON.parse(await readFile(path.join(dir, sessionId, 'summary.json'), 'utf-8'));
+    assert.equal(session.interrupted, true);
+    assert.deepEqual(
+      session.judgments.map((j) => j.judgeFriendlyName),
+      ['Fast Judge']
+    );
+    assert.deepEqual(session.judgeFailures, []);
+  } finally {
+    await server.close();
+  }
+});
@@ -1,7 +1,21 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
+import { mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { APICallError, NoObjectGeneratedError, UnsupportedFunctionalityError } from 'ai';
 
-import { parseJudgmentResponse, computeOverallFromScores } from '../dist/core/judge.js';
+import {
+  parseJudgmentResponse,
+  parseJudgmentObject,
+  computeOverallFromScores,
+  aggregateResults,
+  krippendorffAlpha,
+  judgePost,
+  useStructuredOutput,
+} from '../dist/core/judge.js';
+import { renderSummary } from '../dist/cli/summary.js';
+import { isStructuredOutputUnsupportedError, isInvalidStructuredOutputError } from '../dist/providers/ai.js';
 
 const judgeModel = { provider: 'openrouter', modelId: 'openai/gpt-x', friendlyName: 'Judge' };
 
@@ -39,3 +53,125 @@ test('parseJudgmentResponse rejects missing criteria', () => {
 
   assert.throws(() => parseJudgmentResponse(response, judgeModel, 'post-1'), /missing criterion/i);
 });
+
+test('parseJudgmentObject accepts structured output objects', () => {
+  const judgment = parseJudgmentObject(
+    {
+      scores: [
+        { criterion: 'narrative', score: 80, feedback: 'ok' },
+        { criterion: 'structure', score: 70, feedback: 'ok' },
+        { criterion: 'audienceFit', score: 60, feedback: 'ok' },
+        { criterion: 'accuracy', score: 90, feedback: 'ok' },
+        { criterion: 'aiDetection', score: 50, feedback: 'ok' },
+      ],
+      overallScore: 73,
+    },
+    judgeModel,
+    'post-1'
+  );
+
+  assert.equal(judgment.scores.length, 5);
+  assert.equal(judgment.overallScore, 73);
+});
+
+test('aggregateResults keeps contestants of the same model separate', () => {
+  const scoresAt = (score) =>
+    ['narrative', 'structure', 'audienceFit', 'accuracy', 'aiDetection'].map((criterion) => ({
+      criterion,
+      score,
+      feedback: 'ok',
+    }));
+
+  const posts = [
+    { contestantId: 'gpt-1', modelId: 'openai/gpt-x', friendlyName: 'GPT #1', content: 'a', generatedAt: new Date() },
+    { contestantId: 'gpt-2', modelId: 'openai/gpt-x', friendlyName: 'GPT #2', content: 'b', generatedAt: new Date() },
+  ];
+  const judgments = [
+    parseJudgmentObject({ scores: scoresAt(80), overallScore: 80 }, judgeModel, 'openai/gpt-x', 'gpt-1'),
+    parseJudgmentObject({ scores: scoresAt(60), overallScore: 60 }, judgeModel, 'openai/gpt-x', 'gpt-2'),
+  ];
+
+  const results = aggregateResults(posts, judgments);
+  assert.deepEqual(
+    results.map((r) => [r.postContestantId, r.overallAverage]),
+    [
+      ['gpt-1', 80],
+      ['gpt-2', 60],
+    ]
+  );
+});
+
+test('krippendorffAlpha is 1 for identical ratings and drops as coders diverge', () => {
+  assert.equal(krippendorffAlpha([[70, 70], [50, 50], [90, 90]]), 1);
+  assert.ok(krippendorffAlpha([[70, 72], [50, 49], [90, 91]]) > 0.95);
+  assert.ok(krippendorffAlpha([[90, 50], [50, 90], [70, 70]]) < 0);
+  assert.ok(Number.isNaN(krippendorffAlpha([[70]])));
+});
+
+test('aggregateResults reports judge dispersion and flags strong disagreement', () => {
+  const scores = (narrative) =>
+    ['narrative', 'structure', 'audienceFit', 'accuracy', 'aiDetection'].map((criterion) => ({
+      criterion,
+      score: criterion === 'narrative' ? narrative : 70,
+      feedback: 'ok',
+    }));
+  const other = { provider: 'openrouter', modelId: 'other/judge', friendlyName: 'Other' };
+  const post = { contestantId: 'p', modelId: 'm', friendlyName: 'Post', content: 'x', generatedAt: new Date() };
+
+  const [result] = aggregateResults(
+    [post],
+    [
+      parseJudgmentObject({ scores: scores(90), overallScore: 76 }, judgeModel, 'm', 'p'),
+      parseJudgmentObject({ scores: scores(55), overallScore: 65.5 }, other, 'm', 'p'),
+    ]
+  );
+
+  const narrative = result.agreement.criteria.narrative;
+  assert.equal(narrative.min, 55);
+  assert.equal(narrative.max, 90);
+  assert.ok(Math.abs(narrative.stdDev - 24.75) < 0.01);
+  assert.equal(result.agreement.criteria.structure.stdDev, 0);
+  assert.equal(result.agreement.strongDisagreement, true);
+
+  const summary = renderSummary({ prompt: 'p', results: [result], winner: result, outputDir: '/tmp/out' });
+  assert.match(summary, /Post .*█.* !/);
+  assert.match(summary, /Narrative Flow\s+55-90\s+sd 24\.7/);
+});
+
+test('only unsupported structured output sends a judge to the text path', async () => {
+  const wrapped = (cause) => new Error(`LLM request failed for Judge: ${cause.message}`, { cause });
+  assert.ok(isStructuredOutputUnsupportedError(wrapped(new UnsupportedFunctionalityError({ functionality: 'json schema' }))));
+  const rejected = (statusCode, message, responseBody) =>
+    wrapped(new APICallError({ message, url: 'https://example.test/v1/chat/completions', requestBodyValues: {}, statusCode, responseBody }));
+  assert.ok(isStructuredOutputUnsupportedError(rejected(400, "'response_format' of type 'json_schema' is not supported")));
+  assert.ok(isStructuredOutputUnsupportedError(rejected(404, 'Not Found', '{"error":"No endpoints found that support tool use"}')));
+  assert.ok(isStructuredOutputUnsupportedError(rejected(422, 'This model does not support function calling')));
+
+  // Errors that mention schemas or "not supported" for another reason keep structured output on
+  assert.ok(!isStructuredOutputUnsupportedError(rejected(401, 'API key not supported for json_schema requests')));
+  assert.ok(!isStructuredOutputUnsupportedError(rejected(402, 'Structured output is not supported on the free tier: quota exceeded')));
+  assert.ok(!isStructuredOutputUnsupportedError(rejected(429, 'Too Many Requests: tool calling not supported at this rate')));
+  assert.ok(!isStructuredOutputUnsupportedError(rejected(400, 'Invalid schema: property "scores" is not supported type')));
+  assert.ok(!isStructuredOutputUnsupportedError(rejected(400, 'Context length exceeded; prompt caching unsupported')));
+  assert.ok(!isStructuredOutputUnsupportedError(new Error("'response_format' of type 'json_schema' is not supported")));
+  assert.ok(!isStructuredOutputUnsupportedError(new Error('LLM request failed for Judge (after 3 retry/retries): 429 Too Many Requests')));
+  assert.ok(!isStructuredOutputUnsupportedError(new Error('LLM request failed for Judge: fetch failed')));
+  const invalid = new NoObjectGeneratedError({ message: 'No object generated: response did not match schema.' });
+  assert.ok(isInvalidStructuredOutputError(wrapped(invalid)));
+  assert.ok(!isStructuredOutputUnsupportedError(wrapped(invalid)));
+
+  // A cassette miss is a judge failure to retry later, not a reason to stop asking for structured output
+  const dir = await mkdtemp(path.join(tmpdir(), 'writeoff-judge-'));
+  const file = path.join(dir, 'cassette.json');
+  await writeFile(file, JSON.stringify({ version: 1, entries: {} }));
+  const post = { contestantId: 'p1', modelId: 'm', friendlyName: 'Post', content: 'A post.', generatedAt: new Date() };
+  process.env.WRITEOFF_CASSETTE_MODE = 'replay';
+  process.env.WRITEOFF_CASSETTE_FILE = file;
+  try {
+    await assert.rejects(() => judgePost(judgeModel, post), /cassette miss/i);
+    assert.equal(useStructuredOutput(judgeModel), true);
+  } finally {
+    delete process.env.WRITEOFF_CASSETTE_MODE;
+    delete process.env.WRITEOFF_CASSETTE_FILE;
+  }
+});
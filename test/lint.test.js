@@ -0,0 +1,89 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { lintText, lintScore, lintJudgment, summarizeFindings, LINT_JUDGE_NAME } from '../dist/core/lint.js';
+import { aggregateResults, DEFAULT_AGGREGATION } from '../dist/core/judge.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const text = [
+  '# Shipping Fridays',
+  '',
+  "Here's the thing: it's not a bug, it's a feature 🚀",
+  'We shipped it on Friday — and nobody noticed.',
+  '',
+  '```',
+  'echo "at the end of the day — done" 🚀',
+  '```',
+  '',
+  'At the end of the day, we leverage `dive into` synergy.',
+].join('\n');
+
+const post = { contestantId: 'p1', modelId: 'openai/gpt-x', friendlyName: 'Post', content: text, generatedAt: new Date() };
+
+test('lintText reports each pattern with its position and severity, skipping code', () => {
+  const findings = lintText(text);
+  assert.deepEqual(
+    findings.map((f) => [f.rule, f.severity, f.line, f.column]),
+    [
+      ['section-opener', 'warning', 3, 1],
+      ['reversal', 'warning', 3, 19],
+      ['emoji', 'error', 3, 50],
+      ['em-dash', 'warning', 4, 25],
+      ['cliche', 'warning', 10, 1],
+      ['buzzword', 'info', 10, 27],
+      ['buzzword', 'info', 10, 48],
+    ]
+  );
+  for (const f of findings) {
+    assert.equal(text.slice(f.start, f.end), f.text);
+  }
+  assert.equal(findings[0].text, "Here's the thing");
+});
+
+test('lintScore takes a severity penalty per finding and never drops below 1', () => {
+  assert.equal(lintScore([]), 100);
+  assert.equal(lintScore(lintText(text)), 100 - 10 - 5 * 4 - 2 * 2);
+  assert.equal(lintScore(lintText('🚀 '.repeat(20))), 1);
+});
+
+test('summarizeFindings counts findings per rule', () => {
+  assert.equal(summarizeFindings([]), 'Style linter found no mechanical AI-writing patterns.');
+  assert.equal(summarizeFindings(lintText('A — B — C, a game-changer.')), 'Style linter found 2 em dashes and 1 cliché.');
+});
+
+test('lintJudgment scores aiDetection only, with findings as verified citations', () => {
+  const judgment = lintJudgment(post, DEFAULT_RUBRIC);
+  assert.equal(judgment.judgeFriendlyName, LINT_JUDGE_NAME);
+  assert.equal(judgment.scores.length, 1);
+  assert.equal(judgment.scores[0].criterion, 'aiDetection');
+  assert.equal(judgment.overallScore, judgment.scores[0].score);
+  assert.equal(judgment.scores[0].citations.length, 7);
+  assert.ok(judgment.scores[0].citations.every((c) => c.verified && text.slice(c.start, c.end) === c.quote));
+
+  const noAiDetection = { ...DEFAULT_RUBRIC, criteria: DEFAULT_RUBRIC.criteria.filter((c) => c.key !== 'aiDetection') };
+  assert.throws(() => lintJudgment(post, noAiDetection), /aiDetection/);
+});
+
+test('the linter pseudo-judge only moves aiDetection and is left out of judge agreement', () => {
+  const judge = (name, score) => ({
+    judgeModelId: `openai/${name}`,
+    judgeFriendlyName: name,
+    postModelId: post.modelId,
+    postContestantId: post.contestantId,
+    scores: DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score, feedback: 'ok' })),
+    overallScore: score,
+    judgedAt: new Date(),
+  });
+  const llm = [judge('A', 80), judge('B', 90)];
+  const lint = lintJudgment(post, DEFAULT_RUBRIC);
+
+  const [without] = aggregateResults([post], llm, DEFAULT_RUBRIC, DEFAULT_AGGREGATION);
+  const [withLint] = aggregateResults([post], [...llm, lint], DEFAULT_RUBRIC, DEFAULT_AGGREGATION);
+
+  assert.equal(withLint.averageScores.aiDetection, (80 + 90 + lint.scores[0].score) / 3);
+  for (const c of DEFAULT_RUBRIC.criteria.filter((c) => c.key !== 'aiDetection')) {
+    assert.equal(withLint.averageScores[c.key], without.averageScores[c.key]);
+  }
+  assert.ok(withLint.overallAverage < without.overallAverage);
+  assert.deepEqual(withLint.agreement, without.agreement);
+});
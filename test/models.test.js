@@ -0,0 +1,40 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseModelString, assignContestants } from '../dist/config/models.js';
+
+test('parseModelString reads generation params from the suffix', () => {
+  const model = parseModelString('openrouter:openai/gpt-5.2?temperature=0.9&max_tokens=4000&effort=high');
+  assert.equal(model.modelId, 'openai/gpt-5.2');
+  assert.deepEqual(model.params, { temperature: 0.9, maxTokens: 4000, reasoningEffort: 'high' });
+  assert.equal(model.friendlyName, 'GPT 5.2 (temperature=0.9, maxTokens=4000, reasoningEffort=high)');
+});
+
+test('parseModelString keeps colons in model IDs and omits empty params', () => {
+  const model = parseModelString('openai-compatible:llama3.1:8b');
+  assert.equal(model.provider, 'openai-compatible');
+  assert.equal(model.modelId, 'llama3.1:8b');
+  assert.equal(model.params, undefined);
+});
+
+test('parseModelString rejects unknown or out-of-range params', () => {
+  assert.throws(() => parseModelString('openrouter:openai/gpt-5.2?temperature=3'), /between 0 and 2/);
+  assert.throws(() => parseModelString('openrouter:openai/gpt-5.2?foo=1'), /Unknown parameter/);
+});
+
+test('assignContestants gives repeated models unique names and IDs', () => {
+  const contestants = assignContestants([
+    parseModelString('openrouter:openai/gpt-5.2'),
+    parseModelString('openrouter:openai/gpt-5.2'),
+    parseModelString('openrouter:openai/gpt-5.2?temperature=0'),
+  ]);
+
+  assert.deepEqual(
+    contestants.map((c) => c.friendlyName),
+    ['GPT 5.2 #1', 'GPT 5.2 #2', 'GPT 5.2 (temperature=0)']
+  );
+  assert.deepEqual(
+    contestants.map((c) => c.contestantId),
+    ['gpt-5-2-1', 'gpt-5-2-2', 'gpt-5-2-temperature-0']
+  );
+});
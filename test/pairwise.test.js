@@ -0,0 +1,90 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildPairwiseMatchups,
+  parsePairwiseResponse,
+  fitBradleyTerry,
+  rankPairwise,
+} from '../dist/core/pairwise.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const judge = { provider: 'openrouter', modelId: 'openai/gpt-x', friendlyName: 'Judge' };
+const keys = DEFAULT_RUBRIC.criteria.map((c) => c.key);
+
+function post(id) {
+  return { contestantId: id, modelId: id, friendlyName: id.toUpperCase(), content: id, generatedAt: new Date() };
+}
+
+// A comparison where `winner` (a contestant ID or "tie") takes every criterion.
+function comparison(first, second, winner) {
+  return {
+    judgeModelId: judge.modelId,
+    judgeFriendlyName: judge.friendlyName,
+    firstContestantId: first,
+    secondContestantId: second,
+    preferences: keys.map((criterion) => ({ criterion, winner, feedback: '' })),
+    judgedAt: new Date(),
+  };
+}
+
+test('buildPairwiseMatchups shows every pair in both orders', () => {
+  const matchups = buildPairwiseMatchups([judge], [post('a'), post('b'), post('c')]);
+  assert.equal(matchups.length, 6);
+  const labels = matchups.map((m) => `${m.first.contestantId}${m.second.contestantId}`);
+  assert.deepEqual(labels.sort(), ['ab', 'ac', 'ba', 'bc', 'ca', 'cb']);
+});
+
+test('parsePairwiseResponse resolves A/B picks to contestant IDs', () => {
+  const response = JSON.stringify({
+    preferences: keys.map((criterion, i) => ({
+      criterion,
+      winner: i === 0 ? 'B' : i === 1 ? 'tie' : 'A',
+      feedback: 'because',
+    })),
+  });
+
+  const judgment = parsePairwiseResponse(response, judge, 'first', 'second', DEFAULT_RUBRIC);
+  assert.deepEqual(
+    judgment.preferences.map((p) => p.winner),
+    ['second', 'tie', 'first', 'first', 'first']
+  );
+
+  const bad = JSON.stringify({ preferences: [{ criterion: 'narrative', winner: 'C', feedback: '' }] });
+  assert.throws(() => parsePairwiseResponse(bad, judge, 'first', 'second', DEFAULT_RUBRIC), /must be "A", "B" or "tie"/);
+});
+
+test('fitBradleyTerry orders strengths and stays finite for an unbeaten post', () => {
+  const strengths = fitBradleyTerry([
+    [0, 2, 2],
+    [0, 0, 1],
+    [0, 1, 0],
+  ]);
+  assert.ok(strengths.every(Number.isFinite));
+  assert.ok(strengths[0] > strengths[1]);
+  assert.ok(Math.abs(strengths[1] - strengths[2]) < 1e-6);
+});
+
+test('rankPairwise ranks by head-to-head record with position bias cancelled', () => {
+  const posts = [post('a'), post('b'), post('c')];
+  const judgments = [
+    // a beats b in both orders; b and c split by position (judge always picks Post A)
+    comparison('a', 'b', 'a'),
+    comparison('b', 'a', 'a'),
+    comparison('b', 'c', 'b'),
+    comparison('c', 'b', 'c'),
+    comparison('a', 'c', 'a'),
+    comparison('c', 'a', 'tie'),
+  ];
+
+  const results = rankPairwise(posts, judgments, DEFAULT_RUBRIC);
+  assert.deepEqual(results.map((r) => r.postContestantId).slice(0, 1), ['a']);
+  const b = results.find((r) => r.postContestantId === 'b');
+  const c = results.find((r) => r.postContestantId === 'c');
+  assert.equal(b.averageScores.narrative, 25);
+  assert.equal(b.pairwise.wins, 1);
+  assert.equal(b.pairwise.losses, 3);
+  assert.equal(c.pairwise.ties, 1);
+  assert.equal(results[0].pairwise.comparisons, 4);
+  assert.ok(results[0].overallAverage > 50);
+});
@@ -0,0 +1,102 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  countSyllables,
+  measureReadability,
+  parseReadabilityLimits,
+  checkLimits,
+  applyReadability,
+  rankQualified,
+} from '../dist/core/readability.js';
+import { determineWinner } from '../dist/core/judge.js';
+
+const text = [
+  '# Shipping on Fridays',
+  '',
+  'We shipped the release on a Friday. Nobody noticed',
+  'until Monday morning, when the [dashboard](https://example.com) turned red!',
+  '',
+  '- Roll back fast',
+  '- Write it down',
+  '',
+  '```',
+  'deploy --force --everything now please',
+  '```',
+].join('\n');
+
+test('countSyllables counts vowel groups and drops silent endings', () => {
+  assert.equal(countSyllables('the'), 1);
+  assert.equal(countSyllables('make'), 1);
+  assert.equal(countSyllables('complicated'), 3);
+  assert.equal(countSyllables('readability'), 5);
+  assert.equal(countSyllables('2024'), 1);
+});
+
+test('measureReadability counts prose words, sentences, headings and list items, skipping code', () => {
+  const metrics = measureReadability(text);
+  assert.equal(metrics.words, 3 + 9 + 8 + 3 + 3);
+  assert.equal(metrics.sentences, 4);
+  assert.equal(metrics.headings, 1);
+  assert.equal(metrics.listItems, 2);
+  assert.equal(metrics.sentenceLengthMean, 5.8);
+  assert.equal(metrics.sentenceLengthVariance, 8.7);
+  assert.equal(metrics.readingMinutes, 0.1);
+  assert.ok(metrics.fleschKincaidGrade > 0 && metrics.fleschKincaidGrade < 8);
+
+  assert.deepEqual(measureReadability(''), {
+    words: 0,
+    sentences: 0,
+    readingMinutes: 0,
+    fleschKincaidGrade: 0,
+    sentenceLengthMean: 0,
+    sentenceLengthVariance: 0,
+    headings: 0,
+    listItems: 0,
+  });
+});
+
+test('parseReadabilityLimits accepts known keys with positive values', () => {
+  assert.deepEqual(parseReadabilityLimits('maxReadingMinutes=8, maxGrade=12', '--limits'), {
+    maxReadingMinutes: 8,
+    maxGrade: 12,
+  });
+  assert.throws(() => parseReadabilityLimits('maxMinutes=8', '--limits'), /Invalid --limits entry "maxMinutes=8"/);
+  assert.throws(() => parseReadabilityLimits('maxWords=0', 'WRITEOFF_LIMITS'), /WRITEOFF_LIMITS/);
+  assert.throws(() => parseReadabilityLimits('minWords=500,maxWords=100', '--limits'), /minWords is greater/);
+});
+
+test('posts over a hard limit are disqualified, rank last and cannot win', () => {
+  const metrics = measureReadability(text);
+  assert.deepEqual(checkLimits(metrics, { maxWords: 1000 }), []);
+  assert.deepEqual(checkLimits(metrics, { maxWords: 20, minWords: 50 }), [
+    '26 words is under the minimum of 50',
+    '26 words exceeds the maximum of 20',
+  ]);
+
+  const post = (id, content) => ({ contestantId: id, modelId: id, friendlyName: id, content, generatedAt: new Date() });
+  const long = applyReadability(post('long', text), { maxWords: 20 });
+  const short = applyReadability(post('short', 'Short and sweet.'), { maxWords: 20 });
+  assert.deepEqual(long.disqualified, ['26 words exceeds the maximum of 20']);
+  assert.equal(short.disqualified, undefined);
+  assert.equal(applyReadability(long).disqualified, undefined);
+
+  const result = (id, overallAverage) => ({
+    postModelId: id,
+    postContestantId: id,
+    postFriendlyName: id,
+    averageScores: {},
+    overallAverage,
+    judgments: [],
+  });
+  const ranked = rankQualified([result('long', 90), result('short', 70)], [long, short]);
+  assert.deepEqual(
+    ranked.map((r) => [r.postContestantId, r.disqualified]),
+    [
+      ['short', undefined],
+      ['long', ['26 words exceeds the maximum of 20']],
+    ]
+  );
+  assert.equal(determineWinner(ranked).postContestantId, 'short');
+  assert.equal(determineWinner(rankQualified([result('long', 90)], [long])), null);
+});
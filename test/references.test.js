@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import { loadReferenceFiles, describeReferences } from '../dist/config/references.js';
+import { loadRubricFile, DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+import { getJudgePrompt, getPairwiseJudgePrompt } from '../dist/prompts/judge.js';
+import { getWriterPrompt } from '../dist/prompts/writer.js';
+
+const references = [
+  { name: 'docs/pricing.md', content: 'Scout Pro costs $49 per month.' },
+  { name: 'notes.txt', content: 'Launched in March 2024.' },
+];
+
+test('loadReferenceFiles reads each listed file, named as given', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'writeoff-references-'));
+  const spec = path.join(dir, 'spec.md');
+  writeFileSync(spec, '\n# Spec\n\nThe API returns JSON.\n');
+  writeFileSync(path.join(dir, 'empty.md'), '  \n');
+
+  assert.deepEqual(loadReferenceFiles(` ${spec} ,`), [{ name: spec, content: '# Spec\n\nThe API returns JSON.' }]);
+  assert.throws(() => loadReferenceFiles(`${spec},${spec}`), /listed more than once/);
+  assert.throws(() => loadReferenceFiles(path.join(dir, 'empty.md')), /is empty/);
+  assert.throws(() => loadReferenceFiles(path.join(dir, 'missing.md')), /Unable to load reference/);
+  assert.equal(describeReferences(references), 'docs/pricing.md, notes.txt');
+  assert.equal(describeReferences(undefined), 'none');
+});
+
+test('the writer prompt grounds the post in the references', () => {
+  assert.equal(getWriterPrompt('Pricing'), 'Write a blog post about: Pricing');
+
+  const prompt = getWriterPrompt('Pricing', undefined, references);
+  assert.match(prompt, /^Write a blog post about: Pricing\n\nGround the post in the reference documents/);
+  assert.match(prompt, /REFERENCE 1 \(docs\/pricing\.md\):\n\nScout Pro costs \$49 per month\./);
+  assert.match(prompt, /REFERENCE 2 \(notes\.txt\):\n\nLaunched in March 2024\./);
+});
+
+test('the judge prompt sorts accuracy feedback into supported, contradicted and unsupported claims', () => {
+  const plain = getJudgePrompt('Scout Pro is free.', DEFAULT_RUBRIC);
+  assert.doesNotMatch(plain, /REFERENCE/);
+
+  const prompt = getJudgePrompt('Scout Pro is free.', DEFAULT_RUBRIC, references);
+  assert.ok(prompt.indexOf('REFERENCE 1 (docs/pricing.md)') < prompt.indexOf('POST TO EVALUATE'));
+  assert.match(prompt, /In the "accuracy" feedback, separate the claims into three labeled groups/);
+  for (const label of ['Supported:', 'Contradicted:', 'Unsupported:']) {
+    assert.ok(prompt.includes(`"${label}"`), label);
+  }
+
+  const docs = getJudgePrompt('Some docs page', loadRubricFile('rubrics/docs.json'), references);
+  assert.match(docs, /In feedback on factual claims, separate/);
+
+  const pairwise = getPairwiseJudgePrompt('A', 'B', DEFAULT_RUBRIC, references);
+  assert.ok(pairwise.indexOf('REFERENCE 2 (notes.txt)') < pairwise.indexOf('POST A:'));
+});
@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import { validateRubric, loadRubricFile } from '../dist/config/rubric.js';
+import { parseJudgmentResponse, aggregateResults } from '../dist/core/judge.js';
+import { getJudgePrompt, getJudgeOutputSchema } from '../dist/prompts/judge.js';
+
+const judgeModel = { provider: 'openrouter', modelId: 'openai/gpt-x', friendlyName: 'Judge' };
+
+test('a custom rubric drives prompt, schema, validation and aggregation', () => {
+  const rubric = loadRubricFile('rubrics/docs.json');
+  assert.equal(rubric.name, 'docs');
+
+  const prompt = getJudgePrompt('Some docs page', rubric);
+  assert.match(prompt, /\*\*Technical Correctness \(weight: 40%\)\*\*/);
+  assert.match(prompt, /an array of 4 objects/);
+  assert.deepEqual(getJudgeOutputSchema(rubric).properties.scores.items.properties.criterion.enum, [
+    'correctness',
+    'completeness',
+    'codeSamples',
+    'clarity',
+  ]);
+
+  const response = JSON.stringify({
+    scores: [
+      { criterion: 'Technical Correctness', score: 90, feedback: 'ok' },
+      { criterion: 'completeness', score: 80, feedback: 'ok' },
+      { criterion: 'code', score: 70, feedback: 'ok' },
+      { criterion: 'clarity', score: 60, feedback: 'ok' },
+    ],
+    overallScore: 80,
+  });
+  const judgment = parseJudgmentResponse(response, judgeModel, 'p', 'p', rubric);
+  assert.deepEqual(judgment.scores.map((s) => s.criterion), ['correctness', 'completeness', 'codeSamples', 'clarity']);
+  // 0.40*90 + 0.25*80 + 0.20*70 + 0.15*60
+  assert.ok(Math.abs(judgment.overallScoreComputed - 79) < 1e-9);
+
+  const post = { contestantId: 'p', modelId: 'p', friendlyName: 'P', content: '', generatedAt: new Date() };
+  const [result] = aggregateResults([post], [judgment], rubric);
+  assert.equal(result.averageScores.codeSamples, 70);
+  assert.ok(Math.abs(result.overallAverage - 79) < 1e-9);
+
+  // Default-rubric criteria are rejected under the custom rubric.
+  assert.throws(
+    () =>
+      parseJudgmentResponse(
+        JSON.stringify({ scores: [{ criterion: 'narrative', score: 80, feedback: '' }], overallScore: 80 }),
+        judgeModel,
+        'p',
+        'p',
+        rubric
+      ),
+    /unknown criterion/
+  );
+});
+
+test('validateRubric rejects bad weights and ambiguous aliases', () => {
+  const base = JSON.parse(readFileSync('rubrics/docs.json', 'utf-8'));
+
+  const badWeights = structuredClone(base);
+  badWeights.criteria[0].weight = 10;
+  assert.throws(() => validateRubric(badWeights, 'bad.json'), /weights must sum to 100/);
+
+  const ambiguous = structuredClone(base);
+  ambiguous.criteria[1].aliases = ['technical'];
+  assert.throws(() => validateRubric(ambiguous, 'bad.json'), /ambiguous/);
+});
@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  parseJudgmentObject,
+  aggregateResults,
+  buildJudgePairs,
+  collapseSamples,
+  computeJudgeNoise,
+} from '../dist/core/judge.js';
+import { responseCacheKey } from '../dist/providers/cache.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const judgeA = { provider: 'openrouter', modelId: 'a/judge', friendlyName: 'Judge A' };
+const judgeB = { provider: 'openrouter', modelId: 'b/judge', friendlyName: 'Judge B' };
+const post = { contestantId: 'p', modelId: 'm/p', friendlyName: 'Post', content: 'x', generatedAt: new Date() };
+
+function judgment(judge, score, sample) {
+  const scores = DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score, feedback: `${score}` }));
+  const result = parseJudgmentObject({ scores, overallScore: score }, judge, post.modelId, post.contestantId);
+  if (sample !== undefined) result.sample = sample;
+  return result;
+}
+
+test('buildJudgePairs repeats each pair once per sample', () => {
+  assert.equal(buildJudgePairs([judgeA, judgeB], [post]).length, 2);
+  assert.equal(buildJudgePairs([judgeA, judgeB], [post])[0].sample, undefined);
+
+  const pairs = buildJudgePairs([judgeA, judgeB], [post], 'include', 3);
+  assert.equal(pairs.length, 6);
+  assert.deepEqual(
+    pairs.filter((p) => p.judge === judgeA).map((p) => p.sample),
+    [1, 2, 3]
+  );
+});
+
+test('collapseSamples combines a judge\'s samples with the mean or median', () => {
+  const samples = [judgment(judgeA, 60, 1), judgment(judgeA, 62, 2), judgment(judgeA, 91, 3), judgment(judgeB, 70)];
+
+  const mean = collapseSamples(samples, DEFAULT_RUBRIC, { sampleStatistic: 'mean' });
+  assert.equal(mean.length, 2);
+  assert.equal(mean[0].overallScoreComputed, 71);
+  assert.equal(mean[0].sample, undefined);
+  assert.equal(mean[1], samples[3]);
+
+  const median = collapseSamples(samples, DEFAULT_RUBRIC, { sampleStatistic: 'median' });
+  assert.equal(median[0].overallScoreComputed, 62);
+});
+
+test('aggregateResults counts each judge once and reports within- and between-judge variance', () => {
+  const judgments = [judgment(judgeA, 60, 1), judgment(judgeA, 64, 2), judgment(judgeB, 80, 1), judgment(judgeB, 84, 2)];
+  const [result] = aggregateResults([post], [...judgments, judgment(judgeA, 62, 3)]);
+
+  // Judge A averages 62 over three samples, judge B 82 over two; each judge weighs the same.
+  assert.equal(result.overallAverage, 72);
+  assert.equal(result.judgments.length, 5);
+  assert.equal(result.agreement.overall.judges, 2);
+
+  assert.equal(result.noise.samplesPerJudge, 3);
+  assert.ok(Math.abs(result.noise.withinJudgeVariance - 16 / 3) < 1e-9);
+  assert.ok(Math.abs(result.noise.betweenJudgeVariance - 200) < 1e-9);
+
+  assert.equal(computeJudgeNoise([judgment(judgeA, 60), judgment(judgeB, 70)]), undefined);
+});
+
+test('repeat samples get their own response cache entries', () => {
+  const key = responseCacheKey(judgeA, 'text', 'system', 'prompt', {});
+  assert.equal(responseCacheKey(judgeA, 'text', 'system', 'prompt', {}, 1), key);
+  assert.notEqual(responseCacheKey(judgeA, 'text', 'system', 'prompt', {}, 2), key);
+});
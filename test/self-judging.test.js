@@ -0,0 +1,105 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  isSelfJudgment,
+  buildJudgePairs,
+  computeSelfPreference,
+  judgePostWithMultipleJudges,
+} from '../dist/core/judge.js';
+import { buildPairwiseMatchups, computePairwiseSelfPreference } from '../dist/core/pairwise.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+
+const gpt = { provider: 'openrouter', modelId: 'openai/gpt-5.2', friendlyName: 'GPT 5.2' };
+const opus = { provider: 'anthropic', modelId: 'claude-opus-4-5', friendlyName: 'Claude Opus 4.5' };
+const kimi = { provider: 'openrouter', modelId: 'moonshotai/kimi-k2', friendlyName: 'Kimi K2' };
+
+function post(model, contestantId) {
+  return { contestantId, modelId: model.modelId, friendlyName: model.friendlyName, content: 'x', generatedAt: new Date() };
+}
+
+function judgment(judge, target, score) {
+  return {
+    judgeModelId: judge.modelId,
+    judgeFriendlyName: judge.friendlyName,
+    postModelId: target.modelId,
+    postContestantId: target.contestantId,
+    scores: [],
+    overallScore: score,
+    overallScoreComputed: score,
+    judgedAt: new Date(),
+  };
+}
+
+test('isSelfJudgment ignores provider prefixes and version separators', () => {
+  assert.equal(isSelfJudgment('anthropic/claude-opus-4.5', 'claude-opus-4-5'), true);
+  assert.equal(isSelfJudgment('openai/gpt-5.2', 'openai/gpt-5.2'), true);
+  assert.equal(isSelfJudgment('openai/gpt-5.2', 'openai/gpt-5.2-thinking'), false);
+});
+
+test('the exclude policy drops self-judgments from absolute and pairwise schedules', () => {
+  const posts = [post(gpt, 'gpt'), post(opus, 'opus')];
+  const judges = [gpt, kimi];
+
+  assert.equal(buildJudgePairs(judges, posts, 'include').length, 4);
+  assert.deepEqual(
+    buildJudgePairs(judges, posts, 'exclude').map((p) => `${p.judge.friendlyName} -> ${p.post.contestantId}`),
+    ['Kimi K2 -> gpt', 'GPT 5.2 -> opus', 'Kimi K2 -> opus']
+  );
+
+  // GPT 5.2 wrote one of the two posts, so only Kimi compares them.
+  const matchups = buildPairwiseMatchups(judges, posts, 'exclude');
+  assert.deepEqual([...new Set(matchups.map((m) => m.judge.friendlyName))], ['Kimi K2']);
+});
+
+test('computeSelfPreference compares a judge with the other judges on its own posts', () => {
+  const gptPost = post(gpt, 'gpt');
+  const opusPost = post(opus, 'opus');
+  const judgments = [
+    judgment(gpt, gptPost, 90),
+    judgment(kimi, gptPost, 70),
+    judgment(opus, gptPost, 80),
+    judgment(opus, opusPost, 60),
+    judgment(gpt, opusPost, 60),
+  ];
+
+  const report = computeSelfPreference(judgments);
+  assert.deepEqual(
+    report.map((r) => [r.judgeFriendlyName, r.delta]),
+    [
+      ['GPT 5.2', 15],
+      ['Claude Opus 4.5', 0],
+    ]
+  );
+  assert.equal(report[0].posts[0].otherJudges, 2);
+});
+
+test('computePairwiseSelfPreference compares win rates', () => {
+  const posts = [post(gpt, 'gpt'), post(kimi, 'kimi')];
+  const prefs = (winner) => DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, winner, feedback: '' }));
+  const comparison = (judge, winner) => ({
+    judgeModelId: judge.modelId,
+    judgeFriendlyName: judge.friendlyName,
+    firstContestantId: 'gpt',
+    secondContestantId: 'kimi',
+    preferences: prefs(winner),
+    judgedAt: new Date(),
+  });
+
+  const report = computePairwiseSelfPreference(
+    posts,
+    [comparison(gpt, 'gpt'), comparison(opus, 'kimi'), comparison(opus, 'tie')],
+    DEFAULT_RUBRIC
+  );
+  assert.equal(report.length, 1);
+  assert.equal(report[0].judgeFriendlyName, 'GPT 5.2');
+  assert.equal(report[0].posts[0].selfScore, 100);
+  assert.equal(report[0].posts[0].otherJudgesScore, 25);
+  assert.equal(report[0].delta, 75);
+});
+
+test('judging a single post follows the self-judging policy', async () => {
+  // The only judge is the writer's own model, so no judge is asked (and no API key is needed)
+  const judged = await judgePostWithMultipleJudges([gpt], post(gpt, 'gpt-5-2'), undefined, { selfJudging: 'exclude' });
+  assert.deepEqual(judged, { judgments: [], failures: [] });
+});
@@ -0,0 +1,161 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import {
+  writeSessionManifest,
+  checkpointPost,
+  checkpointJudgment,
+  loadSessionCheckpoint,
+  loadSessionSummary,
+  applyRejudge,
+} from '../dist/cli/session.js';
+import { DEFAULT_RUBRIC } from '../dist/config/rubric.js';
+import { findMissingJudgePairs } from '../dist/cli/run-session.js';
+
+const writerA = { provider: 'openrouter', modelId: 'a/model', friendlyName: 'Model A', contestantId: 'model-a' };
+const writerB = { provider: 'openrouter', modelId: 'b/model', friendlyName: 'Model B', contestantId: 'model-b' };
+const judge1 = { provider: 'openrouter', modelId: 'j/one', friendlyName: 'Judge One' };
+const judge2 = { provider: 'openrouter', modelId: 'j/two', friendlyName: 'Judge Two' };
+
+function post(model) {
+  return {
+    contestantId: model.contestantId,
+    modelId: model.modelId,
+    friendlyName: model.friendlyName,
+    content: `# ${model.friendlyName}`,
+    generatedAt: new Date(),
+  };
+}
+
+test('checkpoints reload and only missing judge pairs are scheduled', async () => {
+  const sessionDir = await mkdtemp(path.join(tmpdir(), 'writeoff-session-'));
+  await writeSessionManifest(sessionDir, {
+    id: 'test-session',
+    prompt: 'Write about tests',
+    writerModels: [writerA, writerB],
+    judgeModels: [judge1, judge2],
+    createdAt: new Date(),
+  });
+
+  await checkpointPost(sessionDir, post(writerA));
+  await checkpointJudgment(sessionDir, {
+    judgeModelId: judge1.modelId,
+    judgeFriendlyName: judge1.friendlyName,
+    postModelId: writerA.modelId,
+    postContestantId: writerA.contestantId,
+    scores: [],
+    overallScore: 7,
+    overallScoreComputed: 7,
+    judgedAt: new Date(),
+  });
+
+  const checkpoint = await loadSessionCheckpoint(sessionDir);
+  assert.equal(checkpoint.manifest.id, 'test-session');
+  assert.ok(checkpoint.manifest.createdAt instanceof Date);
+  assert.equal(checkpoint.posts.length, 1);
+  assert.ok(checkpoint.posts[0].generatedAt instanceof Date);
+  assert.equal(checkpoint.judgments.length, 1);
+
+  const missing = findMissingJudgePairs(checkpoint, [...checkpoint.posts, post(writerB)]);
+  assert.deepEqual(
+    missing.map((p) => `${p.judge.friendlyName} -> ${p.post.contestantId}`),
+    ['Judge Two -> model-a', 'Judge One -> model-b', 'Judge Two -> model-b']
+  );
+});
+
+test('loadSessionCheckpoint rejects a directory without a manifest', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'writeoff-session-'));
+  await assert.rejects(loadSessionCheckpoint(dir), /Unable to load session manifest/);
+});
+
+function judgment(judge, model, score) {
+  return {
+    judgeModelId: judge.modelId,
+    judgeFriendlyName: judge.friendlyName,
+    postModelId: model.modelId,
+    postContestantId: model.contestantId,
+    scores: [],
+    overallScore: score,
+    overallScoreComputed: score,
+    judgedAt: new Date(),
+  };
+}
+
+test('applyRejudge merges per judge or replaces the panel and keeps history', () => {
+  const posts = [post(writerA)];
+  const session = {
+    id: 's',
+    prompt: 'p',
+    writerModels: [writerA],
+    judgeModels: [judge1, judge2],
+    posts,
+    judgments: [judgment(judge1, writerA, 5), judgment(judge2, writerA, 6)],
+    judgeFailures: [],
+    results: [],
+    winner: null,
+    usage: { total: {}, byWriter: {}, byJudge: {} },
+    interrupted: false,
+    createdAt: new Date(),
+  };
+  const run = { judgments: [judgment(judge2, writerA, 9)], failures: [] };
+
+  const merged = applyRejudge(session, [judge2], run, false);
+  assert.deepEqual(merged.judgeModels.map((j) => j.friendlyName), ['Judge One', 'Judge Two']);
+  assert.deepEqual(merged.judgments.map((j) => j.overallScore), [5, 9]);
+  assert.equal(merged.judgingHistory.length, 1);
+  assert.equal(merged.judgingHistory[0].judgments.length, 2);
+
+  const replaced = applyRejudge(merged, [judge2], run, true);
+  assert.deepEqual(replaced.judgeModels.map((j) => j.friendlyName), ['Judge Two']);
+  assert.deepEqual(replaced.judgments.map((j) => j.overallScore), [9]);
+  assert.equal(replaced.judgingHistory.length, 2);
+  assert.equal(replaced.winner.postContestantId, 'model-a');
+});
+
+test('a session saved before contestant IDs existed is rejudged per post', async () => {
+  const sessionDir = await mkdtemp(path.join(tmpdir(), 'writeoff-session-'));
+  const legacyJudgment = (judge, model, score) => {
+    const { postContestantId: _id, ...rest } = judgment(judge, model, score);
+    return { ...rest, scores: DEFAULT_RUBRIC.criteria.map((c) => ({ criterion: c.key, score, feedback: '' })) };
+  };
+  const legacyPost = (model) => {
+    const { contestantId: _id, ...rest } = post(model);
+    return rest;
+  };
+  const summary = {
+    id: 'old-session',
+    prompt: 'p',
+    writerModels: [writerA, writerB].map(({ contestantId: _id, ...m }) => m),
+    judgeModels: [judge1],
+    posts: [legacyPost(writerA), legacyPost(writerB)],
+    judgments: [legacyJudgment(judge1, writerA, 60), legacyJudgment(judge1, writerB, 80)],
+    results: [],
+    winner: null,
+    usage: { total: {}, byWriter: {}, byJudge: {} },
+    createdAt: new Date(),
+  };
+  await mkdir(path.join(sessionDir, 'posts'));
+  await writeFile(path.join(sessionDir, 'posts', 'model-a.md'), '# Model A, edited');
+  await writeFile(path.join(sessionDir, 'summary.json'), JSON.stringify(summary));
+
+  const session = await loadSessionSummary(sessionDir);
+  assert.deepEqual(session.posts.map((p) => p.contestantId), ['model-a', 'model-b']);
+  assert.equal(session.posts[0].content, '# Model A, edited');
+  assert.deepEqual(session.judgments.map((j) => j.postContestantId), ['model-a', 'model-b']);
+
+  const scored = (judge, model, score) => ({ ...legacyJudgment(judge, model, score), postContestantId: model.contestantId });
+  const run = { judgments: [scored(judge2, writerA, 50), scored(judge2, writerB, 90)], failures: [] };
+  const rejudged = applyRejudge(session, [judge2], run, false);
+  assert.deepEqual(
+    rejudged.results.map((r) => [r.postContestantId, r.overallAverage]),
+    [['model-b', 85], ['model-a', 55]]
+  );
+  assert.equal(rejudged.winner.postContestantId, 'model-b');
+
+  summary.judgments.push(legacyJudgment(judge1, { modelId: 'c/model' }, 70));
+  await writeFile(path.join(sessionDir, 'summary.json'), JSON.stringify(summary));
+  await assert.rejects(loadSessionSummary(sessionDir), /judged model "c\/model" matches no post/);
+});
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildUsageReport, combineUsage } from '../dist/core/usage.js';
+
+const usage = (tokens, costUsd) => ({
+  promptTokens: tokens,
+  completionTokens: tokens,
+  totalTokens: tokens * 2,
+  latencyMs: 100,
+  costUsd,
+});
+
+test('combineUsage sums calls and keeps cost when any call is priced', () => {
+  const combined = combineUsage(usage(10, 0.01), undefined, usage(5, undefined));
+  assert.equal(combined.totalTokens, 30);
+  assert.equal(combined.latencyMs, 200);
+  assert.equal(combined.costUsd, 0.01);
+  assert.equal(combined.calls, 2);
+  assert.equal(combineUsage(combined, usage(1, 0.02)).calls, 3);
+  assert.equal(combineUsage(undefined), undefined);
+});
+
+test('buildUsageReport rolls up per writer and per judge', () => {
+  const posts = [
+    { modelId: 'a', friendlyName: 'A', content: '', generatedAt: new Date(), usage: usage(100, 0.5) },
+    { modelId: 'user-input', friendlyName: 'User Input', content: '', generatedAt: new Date() },
+  ];
+  const judgments = [
+    { judgeFriendlyName: 'J', usage: usage(10, 0.1) },
+    { judgeFriendlyName: 'J', usage: usage(10, undefined) },
+    // Structured output, then text output and its repair
+    { judgeFriendlyName: 'K', usage: combineUsage(usage(5, undefined), usage(5, undefined), usage(5, undefined)) },
+  ];
+
+  const report = buildUsageReport(posts, judgments);
+  assert.deepEqual(Object.keys(report.byWriter), ['A']);
+  assert.equal(report.byJudge.J.calls, 2);
+  assert.equal(report.byJudge.J.unpricedCalls, 1);
+  assert.equal(report.byJudge.K.calls, 3);
+  assert.equal(report.byJudge.K.unpricedCalls, 3);
+  assert.equal(report.total.calls, 6);
+  assert.ok(Math.abs(report.total.costUsd - 0.6) < 1e-9);
+});